@@ -12,6 +12,7 @@
  * 主要模块：
  * - ReadPluginState: 插件状态管理 - 负责管理书籍列表、设置和数据持久化
  * - BooksTreeDataProvider: 书籍树视图数据提供者 - 为侧边栏树视图提供数据
+ * - AnnotationsTreeDataProvider: 标注树视图数据提供者 - 按书籍列出高亮和笔记
  * - BookContentViewProvider: 书籍内容视图提供者 - 显示书籍内容的WebView
  * - 各种命令处理函数 - 处理用户操作和事件响应
  *
@@ -30,22 +31,59 @@ import * as os from 'os';
 import { SecurityUtils } from './utils/security';
 import { EncodingUtils } from './utils/encodingUtils';
 import { FileUtils } from './utils/fileUtils';
-import { ThemeUtils } from './utils/themeUtils';
-import { debounce, throttle } from './utils/debounce';
+import { ThemeUtils, ThemeColors } from './utils/themeUtils';
+import { debounce } from './utils/debounce';
 import { EventManager } from './managers/eventManager';
 
 // 导入服务
 import { WechatReadService } from './services/wechatReadService';
+import { EpubService } from './services/epubService';
+import { TextIndexer } from './services/textIndexer';
+import { TextSearcher } from './services/textSearcher';
+import { AnnotationExporter, ExportedBook, ExportFormat } from './services/annotationExporter';
+import { CodeDisguiseFormatter, DisguiseLanguage } from './services/codeDisguiseFormatter';
 
 // 导入类型定义
 import {
     Book,
+    Annotation,
+    AnnotationColor,
+    Bookmark,
+    BookmarkPositionReport,
+    Chapter,
+    PdfOutlineItem,
+    PdfState,
     PluginSettings,
+    ReadingPosition,
+    ReadingTheme,
+    TextIndex,
+    TextRange,
+    TextLine,
+    TextSelectionPoint,
+    TextSearchResult,
+    WechatCredentialsProvider,
+    WechatReadCredentials,
     DEFAULT_SETTINGS,
     ALLOWED_EXTENSIONS,
+    ANNOTATION_COLORS,
+    BUILTIN_READING_THEMES,
     WebViewMessage
 } from './types';
 
+/**
+ * 设置单个设置项
+ *
+ * 功能：
+ * 按设置项的名称约束值的类型，用于遍历设置项名称时赋值
+ *
+ * @param target 设置对象
+ * @param key 设置项名称
+ * @param value 设置项的值
+ */
+function assignSetting<K extends keyof PluginSettings>(target: Partial<PluginSettings>, key: K, value: PluginSettings[K]): void {
+    target[key] = value;
+}
+
 /**
  * 插件状态管理类
  *
@@ -60,8 +98,24 @@ import {
  * - 状态管理：集中管理插件的所有数据和状态
  * - 数据持久化：将数据保存到文件，下次启动时恢复
  * - 事件驱动：通过事件管理器处理各种事件
+ * - 设置来源：package.json中声明的设置以VS Code配置（readplugin.*）为准，
+ *   其余内部状态（如微信读书同步键）保存在存储目录的settings.json中
+ * - 登录凭据：微信读书凭据保存在SecretStorage中，同时作为WechatReadService的凭据提供者
  */
-class ReadPluginState {
+export class ReadPluginState implements WechatCredentialsProvider {
+    /** 保存在VS Code配置中的设置项 - 与package.json中声明的配置一致 */
+    private static readonly CONFIGURATION_KEYS: (keyof PluginSettings)[] = [
+        'fontSize', 'fontFamily', 'lineHeight', 'theme', 'customThemes', 'paragraphSpacing',
+        'textIndent', 'maxTextWidth', 'letterSpacing', 'autoSaveInterval', 'maxFileSize',
+        'chapterPatterns', 'pdfScrollMode', 'bossKeyView', 'statusBarLineLength',
+        'statusBarAutoAdvanceInterval', 'codeDisguiseLanguage', 'autoHideOnDebug',
+        'autoHideOnFocusLoss', 'autoHideOnTerminalCommand', 'autoHideIdleMinutes'
+    ];
+    /** 记录settings.json是否已迁移到VS Code配置的键 */
+    private static readonly MIGRATION_KEY = 'readplugin.settingsMigrated';
+    /** 微信读书凭据在SecretStorage中的键 */
+    private static readonly WECHAT_CREDENTIALS_KEY = 'readplugin.wechatReadCredentials';
+
     /** 书籍列表 - 存储所有添加的书籍对象 */
     private books: Book[] = [];
     /** 插件设置 - 存储字体大小、主题等配置 */
@@ -70,6 +124,28 @@ class ReadPluginState {
     private storagePath: string;
     /** 事件管理器 - 管理各种事件监听器 */
     private eventManager: EventManager;
+    /** 防抖保存书籍列表 - 阅读进度频繁变化时合并写入 */
+    private saveBooksDebounced = debounce(() => this.saveBooks(), 1000);
+    /** 全局状态 - 记录设置迁移是否完成 */
+    private globalState: vscode.Memento;
+    /** 密钥存储 - 保存微信读书登录凭据 */
+    private secrets: vscode.SecretStorage;
+    /** 旧版本凭据的迁移 - 读取凭据前需要等待迁移完成 */
+    private credentialsMigration: Promise<void> = Promise.resolve();
+    /** 尚未迁移完成的旧设置 - 保存settings.json时原样保留，迁移失败时下次启动重试 */
+    private legacySettings: Partial<PluginSettings> & { wechatReadToken?: string; wechatReadUserId?: string } = {};
+    /** 尚未完成的配置写入数 - 写入期间忽略配置变化事件，避免读到中间值 */
+    private pendingConfigurationWrites = 0;
+    /** 设置变化事件 - 用户在设置界面修改配置后触发，参数为变化的设置项 */
+    private _onDidChangeSettings = new vscode.EventEmitter<(keyof PluginSettings)[]>();
+    readonly onDidChangeSettings = this._onDidChangeSettings.event;
+    /** 正在建立的文本索引 - 书籍ID到索引任务的映射，同一本书同时只有一个任务 */
+    private indexingTasks = new Map<string, { promise: Promise<Chapter[] | undefined>; cancel: () => void }>();
+    /** 已加载的文本索引 - 书籍ID到索引的映射，避免每次打开书籍都读取索引文件 */
+    private textIndexes = new Map<string, TextIndex>();
+    /** 文本索引建立完成事件 - 章节列表已更新，参数为书籍 */
+    private _onDidIndexBook = new vscode.EventEmitter<Book>();
+    readonly onDidIndexBook = this._onDidIndexBook.event;
 
     /**
      * 构造函数
@@ -88,9 +164,26 @@ class ReadPluginState {
 
         // 2. 创建事件管理器实例 - 用于管理事件监听器
         this.eventManager = new EventManager();
+        this.globalState = context.globalState;
+        this.secrets = context.secrets;
 
-        // 3. 加载插件设置 - 从文件中读取设置，或使用默认设置
+        // 3. 加载插件设置 - 从VS Code配置中读取设置，首次运行时迁移旧的settings.json
         this.settings = this.loadSettings();
+        // 凭据迁移完成后会重新保存settings.json，因此在设置加载完成后开始
+        this.credentialsMigration = this.migrateWechatCredentials();
+        this.eventManager.register(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('readplugin') && this.pendingConfigurationWrites === 0) {
+                this.reloadConfiguration();
+            }
+        }));
+        this.eventManager.register(this._onDidChangeSettings);
+        this.eventManager.register(this._onDidIndexBook);
+        // 章节标题规则变化后，文本书籍的章节索引需要按新规则重新建立
+        this.eventManager.register(this.onDidChangeSettings(changed => {
+            if (changed.includes('chapterPatterns')) {
+                this.invalidateChapters();
+            }
+        }));
 
         // 4. 加载书籍列表 - 从文件中读取书籍，验证书籍文件是否存在
         this.loadBooks();
@@ -118,8 +211,8 @@ class ReadPluginState {
      * 5. 保存书籍列表和设置
      */
     async syncWechatBooks(): Promise<Book[]> {
-        // 创建微信读书服务实例 - 用于调用微信读书API
-        const service = new WechatReadService(this.settings);
+        // 创建微信读书服务实例 - 用于调用微信读书API，凭据从SecretStorage中读取
+        const service = new WechatReadService(this);
 
         try {
             // 调用API获取微信读书书籍 - 使用synckey实现增量同步
@@ -151,6 +244,156 @@ class ReadPluginState {
         return this.books.filter(book => book.type === 'wechat');
     }
 
+    /**
+     * 获取微信读书登录凭据
+     * @returns 登录凭据，未登录或保存的凭据无效时返回undefined
+     */
+    async getWechatCredentials(): Promise<WechatReadCredentials | undefined> {
+        await this.credentialsMigration;
+        const stored = await this.secrets.get(ReadPluginState.WECHAT_CREDENTIALS_KEY);
+        if (!stored) {
+            return undefined;
+        }
+        try {
+            const credentials = JSON.parse(stored);
+            if (typeof credentials.token === 'string' && typeof credentials.userId === 'string') {
+                return { token: credentials.token, userId: credentials.userId };
+            }
+        } catch (error) {
+            console.error('Failed to parse WeChat Read credentials:', error);
+        }
+        return undefined;
+    }
+
+    /**
+     * 保存微信读书登录凭据
+     * @param credentials 登录凭据
+     */
+    async setWechatCredentials(credentials: WechatReadCredentials): Promise<void> {
+        await this.secrets.store(ReadPluginState.WECHAT_CREDENTIALS_KEY, JSON.stringify(credentials));
+    }
+
+    /**
+     * 退出微信读书登录
+     *
+     * 功能：
+     * 删除保存的登录凭据，并重置同步键，下次登录时重新全量同步书架
+     */
+    async clearWechatCredentials(): Promise<void> {
+        await this.credentialsMigration;
+        await this.secrets.delete(ReadPluginState.WECHAT_CREDENTIALS_KEY);
+        this.settings.wechatReadSynckey = 0;
+        this.saveSettings();
+    }
+
+    /**
+     * 监听登录凭据变化
+     * @param listener 凭据变化（包括其他窗口中登录或退出）时调用
+     * @returns 用于取消监听的Disposable对象
+     */
+    onDidChangeWechatCredentials(listener: () => void): vscode.Disposable {
+        return this.secrets.onDidChange(event => {
+            if (event.key === ReadPluginState.WECHAT_CREDENTIALS_KEY) {
+                listener();
+            }
+        });
+    }
+
+    /**
+     * 迁移旧版本以明文保存的微信读书凭据
+     *
+     * 功能：
+     * 1. 从settings.json或VS Code配置（全局、工作区、工作区文件夹）中读取旧的Token和用户ID
+     * 2. 尚未保存凭据时写入SecretStorage
+     * 3. SecretStorage中有凭据后，从settings.json和VS Code配置中删除明文凭据
+     *
+     * 注意：
+     * - 写入SecretStorage失败（如系统没有可用的密钥环）或凭据不完整时保留明文凭据，下次启动时重试
+     * - package.json中保留了这两个已弃用的配置项，VS Code不允许写入未注册的配置项
+     */
+    private async migrateWechatCredentials(): Promise<void> {
+        const configurations = this.getLegacyCredentialConfigurations();
+        const findValue = (key: string): string | undefined => {
+            for (const { configuration } of configurations) {
+                const inspected = configuration.inspect<string>(key);
+                const value = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+                if (value) {
+                    return value;
+                }
+            }
+            return undefined;
+        };
+        const token = this.legacySettings.wechatReadToken || findValue('wechatReadToken');
+        const userId = this.legacySettings.wechatReadUserId || findValue('wechatReadUserId');
+        if (!token && !userId) {
+            return;
+        }
+
+        try {
+            if (!(await this.secrets.get(ReadPluginState.WECHAT_CREDENTIALS_KEY))) {
+                if (!token || !userId) {
+                    return;
+                }
+                await this.setWechatCredentials({ token: token, userId: userId });
+            }
+        } catch (error) {
+            console.error('Failed to migrate WeChat Read credentials:', error);
+            return;
+        }
+
+        delete this.legacySettings.wechatReadToken;
+        delete this.legacySettings.wechatReadUserId;
+        this.saveSettings();
+        await this.clearLegacyCredentialConfiguration(configurations);
+    }
+
+    /**
+     * 获取可能保存了旧版本凭据的配置
+     * @returns 窗口配置和每个工作区文件夹的配置，文件夹配置用于读取和删除文件夹级别的值
+     */
+    private getLegacyCredentialConfigurations(): { configuration: vscode.WorkspaceConfiguration; folder?: vscode.WorkspaceFolder }[] {
+        return [
+            { configuration: vscode.workspace.getConfiguration('readplugin') },
+            ...(vscode.workspace.workspaceFolders || []).map(folder => ({
+                configuration: vscode.workspace.getConfiguration('readplugin', folder.uri),
+                folder: folder
+            }))
+        ];
+    }
+
+    /**
+     * 从VS Code配置的各个级别中删除旧版本的明文凭据
+     * @param configurations 窗口配置和工作区文件夹配置
+     *
+     * 功能：
+     * 每个配置项和级别单独删除，某一项删除失败时记录错误并继续删除其他项
+     */
+    private async clearLegacyCredentialConfiguration(
+        configurations: { configuration: vscode.WorkspaceConfiguration; folder?: vscode.WorkspaceFolder }[]
+    ): Promise<void> {
+        for (const { configuration, folder } of configurations) {
+            for (const key of ['wechatReadToken', 'wechatReadUserId']) {
+                const inspected = configuration.inspect(key);
+                const targets = folder
+                    ? [inspected?.workspaceFolderValue !== undefined ? vscode.ConfigurationTarget.WorkspaceFolder : undefined]
+                    : [
+                        inspected?.globalValue !== undefined ? vscode.ConfigurationTarget.Global : undefined,
+                        inspected?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace : undefined
+                    ];
+                for (const target of targets) {
+                    if (target === undefined) {
+                        continue;
+                    }
+                    try {
+                        await configuration.update(key, undefined, target);
+                    } catch (error) {
+                        console.error(`Failed to clear readplugin.${key} from settings:`, error);
+                    }
+                }
+            }
+        }
+    }
+
     /**
      * 获取数据存储路径
      * @param context VS Code扩展上下文
@@ -166,17 +409,156 @@ class ReadPluginState {
     /**
      * 加载插件设置
      * @returns 插件设置对象
+     *
+     * 功能：
+     * 1. 读取settings.json中的内部状态
+     * 2. 读取VS Code配置中的设置项
+     * 3. 首次运行时将旧版本保存在settings.json中的设置项迁移到VS Code配置
      */
     private loadSettings(): PluginSettings {
         const settingsPath = path.join(this.storagePath, 'settings.json');
-        const defaultSettings = DEFAULT_SETTINGS;
-
+        let stored: Partial<PluginSettings> = {};
         try {
-            return FileUtils.readJsonFile(settingsPath, defaultSettings);
+            // 旧版本在settings.json中以明文保存微信读书凭据，迁移到SecretStorage之前原样保留
+            const { wechatReadToken, wechatReadUserId, ...rest } = FileUtils.readJsonFile<Partial<PluginSettings> & {
+                wechatReadToken?: string;
+                wechatReadUserId?: string;
+            }>(settingsPath, {});
+            stored = rest;
+            this.legacySettings = { wechatReadToken, wechatReadUserId };
         } catch (error) {
             console.error('Failed to load settings:', error);
-            return defaultSettings;
         }
+
+        const migrated = this.globalState.get<boolean>(ReadPluginState.MIGRATION_KEY, false)
+            ? {}
+            : this.migrateSettings(stored);
+
+        // 合并默认设置 - 旧版本保存的设置文件可能缺少新增的字段；迁移中的设置项在写入完成前以旧值为准
+        return { ...DEFAULT_SETTINGS, ...this.pickPrivateSettings(stored), ...this.readConfiguration(), ...migrated };
+    }
+
+    /**
+     * 将settings.json中的设置项迁移到VS Code配置
+     * @param stored settings.json中保存的设置
+     * @returns 需要迁移的设置项
+     *
+     * 功能：
+     * 只迁移与默认值不同、且用户没有在全局配置中设置过的项；
+     * 全部写入成功前settings.json中保留这些项，写入成功后移除，并记录迁移完成
+     */
+    private migrateSettings(stored: Partial<PluginSettings>): Partial<PluginSettings> {
+        const configuration = vscode.workspace.getConfiguration('readplugin');
+        const migrated: Partial<PluginSettings> = {};
+        for (const key of ReadPluginState.CONFIGURATION_KEYS) {
+            const value = stored[key];
+            if (value === undefined) {
+                continue;
+            }
+            assignSetting(this.legacySettings, key, value);
+            if (JSON.stringify(value) === JSON.stringify(DEFAULT_SETTINGS[key])) {
+                continue;
+            }
+            if (configuration.inspect(key)?.globalValue === undefined) {
+                assignSetting(migrated, key, value);
+            }
+        }
+
+        const writes = Object.entries(migrated).map(([key, value]) =>
+            configuration.update(key, value, vscode.ConfigurationTarget.Global));
+        this.trackConfigurationWrites(Promise.all(writes).then(() => {
+            for (const key of ReadPluginState.CONFIGURATION_KEYS) {
+                delete this.legacySettings[key];
+            }
+            this.saveSettings();
+            return this.globalState.update(ReadPluginState.MIGRATION_KEY, true);
+        }, error => {
+            // 迁移失败时保留settings.json，下次启动时重试
+            console.error('Failed to migrate settings:', error);
+        }));
+        return migrated;
+    }
+
+    /**
+     * 读取VS Code配置中的设置项
+     * @returns 设置项，未设置的项使用默认值
+     */
+    private readConfiguration(): Partial<PluginSettings> {
+        const configuration = vscode.workspace.getConfiguration('readplugin');
+        const settings: Partial<PluginSettings> = {};
+        for (const key of ReadPluginState.CONFIGURATION_KEYS) {
+            assignSetting(settings, key, configuration.get(key, DEFAULT_SETTINGS[key]));
+        }
+        return settings;
+    }
+
+    /**
+     * 重新读取VS Code配置，有设置项变化时触发设置变化事件
+     */
+    private reloadConfiguration(): void {
+        const configuration = this.readConfiguration();
+        const changed = ReadPluginState.CONFIGURATION_KEYS.filter(key =>
+            JSON.stringify(configuration[key]) !== JSON.stringify(this.settings[key]));
+        if (changed.length > 0) {
+            this.settings = { ...this.settings, ...configuration };
+            this._onDidChangeSettings.fire(changed);
+        }
+    }
+
+    /**
+     * 筛选出保存在settings.json中的内部状态
+     * @param settings 设置对象
+     * @returns 不属于VS Code配置的设置项
+     */
+    private pickPrivateSettings(settings: Partial<PluginSettings>): Partial<PluginSettings> {
+        const result: Partial<PluginSettings> = { ...settings };
+        for (const key of ReadPluginState.CONFIGURATION_KEYS) {
+            delete result[key];
+        }
+        return result;
+    }
+
+    /**
+     * 将设置项写入VS Code配置
+     * @param changes 变化的设置项
+     *
+     * 功能：
+     * 设置项已在工作区中覆盖时写入工作区配置，否则写入全局配置，保证修改立即生效
+     */
+    private writeConfiguration(changes: Partial<PluginSettings>): void {
+        const configuration = vscode.workspace.getConfiguration('readplugin');
+        const writes = Object.entries(changes)
+            .filter(([key]) => ReadPluginState.CONFIGURATION_KEYS.includes(key as keyof PluginSettings))
+            .map(([key, value]) => {
+                const inspected = configuration.inspect(key);
+                const target = inspected?.workspaceFolderValue !== undefined
+                    ? vscode.ConfigurationTarget.WorkspaceFolder
+                    : inspected?.workspaceValue !== undefined
+                        ? vscode.ConfigurationTarget.Workspace
+                        : vscode.ConfigurationTarget.Global;
+                return configuration.update(key, value, target);
+            });
+        this.trackConfigurationWrites(Promise.all(writes).then(undefined, error => {
+            console.error('Failed to save settings:', error);
+            vscode.window.showErrorMessage('Failed to save settings');
+        }));
+    }
+
+    /**
+     * 记录进行中的配置写入
+     * @param write 写入操作
+     *
+     * 功能：
+     * 所有写入完成后重新读取一次配置，同步写入期间在设置界面中做的修改
+     */
+    private trackConfigurationWrites(write: Thenable<unknown>): void {
+        this.pendingConfigurationWrites++;
+        Promise.resolve(write).finally(() => {
+            this.pendingConfigurationWrites--;
+            if (this.pendingConfigurationWrites === 0) {
+                this.reloadConfiguration();
+            }
+        });
     }
 
     /**
@@ -224,12 +606,15 @@ class ReadPluginState {
 
     /**
      * 保存插件设置
+     *
+     * 功能：
+     * 只保存内部状态，设置项由VS Code配置保存；尚未迁移完成的旧设置原样保留
      */
     private saveSettings(): void {
         const settingsPath = path.join(this.storagePath, 'settings.json');
         try {
             FileUtils.ensureDirectory(this.storagePath);
-            FileUtils.writeJsonFile(settingsPath, this.settings);
+            FileUtils.writeJsonFile(settingsPath, { ...this.legacySettings, ...this.pickPrivateSettings(this.settings) });
         } catch (error) {
             console.error('Failed to save settings:', error);
             vscode.window.showErrorMessage('Failed to save settings');
@@ -267,12 +652,13 @@ class ReadPluginState {
      *
      * 功能：
      * 1. 安全验证 - 防止路径遍历攻击
-     * 2. 文件扩展名验证 - 确保只支持.txt和.pdf文件
-     * 3. 文件大小验证 - 确保文件不超过最大限制
+     * 2. 文件扩展名验证 - 确保只支持.txt、.pdf和.epub文件
+     * 3. 文件大小验证 - 确保PDF和EPUB文件不超过最大限制，文本文件分块读取，不限制大小
      * 4. 检查是否已存在 - 避免重复添加
      * 5. 创建书籍对象 - 设置书籍的各种属性
      * 6. 添加到书籍列表 - 更新内存中的书籍列表
      * 7. 保存书籍列表 - 将数据持久化
+     * 8. 建立文本索引 - 文本书籍在后台扫描行、段落和章节，并在通知中显示进度
      *
      * 添加流程：
      * 1. 安全验证路径
@@ -282,35 +668,46 @@ class ReadPluginState {
      * 5. 创建书籍对象
      * 6. 添加到列表
      * 7. 保存数据
-     * 8. 返回书籍对象
+     * 8. 在后台建立文本索引
+     * 9. 返回书籍对象
      */
     addBook(bookPath: string): Book {
         try {
             // 安全验证 - 防止路径遍历攻击
             SecurityUtils.sanitizePath(bookPath);
 
-            // 文件扩展名验证 - 确保只支持.txt和.pdf文件
+            // 文件扩展名验证 - 确保只支持.txt、.pdf和.epub文件
             if (!SecurityUtils.validateFileExtension(bookPath, ALLOWED_EXTENSIONS)) {
-                throw new Error('Only .txt and .pdf files are supported');
+                throw new Error('Only .txt, .pdf and .epub files are supported');
             }
 
-            // 文件大小验证 - 确保文件不超过最大限制
+            // 文件大小验证 - PDF和EPUB需要整体读入内存，文本文件分块读取，不限制大小
             const fileSize = FileUtils.getFileSize(bookPath);
-            if (fileSize > this.settings.maxFileSize) {
+            const isText = path.extname(bookPath).toLowerCase() === '.txt';
+            if (!isText && fileSize > this.settings.maxFileSize) {
                 throw new Error(`File too large (max ${this.settings.maxFileSize / 1024 / 1024}MB)`);
             }
 
             // 获取书籍名称 - 从文件路径中提取
-            const bookName = path.basename(bookPath);
+            let bookName = path.basename(bookPath);
 
             // 检查是否已存在 - 避免重复添加
             const existingBook = this.books.find(b => b.path === bookPath);
 
             if (existingBook) {
-                vscode.window.showInformationMessage(`Book already exists: ${bookName}`);
+                vscode.window.showInformationMessage(`Book already exists: ${existingBook.name}`);
                 return existingBook;
             }
 
+            // EPUB书籍 - 从OPF元数据中读取书名和作者，无需检测编码
+            const isEpub = path.extname(bookPath).toLowerCase() === '.epub';
+            let author: string | undefined;
+            if (isEpub) {
+                const metadata = new EpubService(bookPath, this.settings.maxFileSize).getMetadata();
+                bookName = metadata.title || bookName;
+                author = metadata.author;
+            }
+
             // 创建书籍对象 - 设置书籍的各种属性
             const book: Book = {
                 id: Date.now().toString(), // 使用时间戳作为唯一ID
@@ -319,7 +716,8 @@ class ReadPluginState {
                 progress: 0, // 初始阅读进度为0
                 fileSize: fileSize, // 文件大小
                 addedTime: Date.now(), // 添加时间
-                encoding: EncodingUtils.detectEncoding(bookPath) // 检测文件编码
+                encoding: isEpub ? undefined : EncodingUtils.detectEncoding(bookPath), // 检测文件编码
+                author: author // 书籍作者
             };
 
             // 添加到书籍列表 - 更新内存中的书籍列表
@@ -328,6 +726,11 @@ class ReadPluginState {
             // 保存书籍列表 - 将数据持久化到文件
             this.saveBooks();
 
+            // 文本书籍 - 在后台建立文本索引和章节索引，完成后触发onDidIndexBook
+            if (this.isTextBook(book)) {
+                void this.indexTextBook(book);
+            }
+
             // 返回添加的书籍对象
             return book;
         } catch (error) {
@@ -363,139 +766,675 @@ class ReadPluginState {
     updateBookProgress(bookId: string, progress: number): void {
         const book = this.books.find(b => b.id === bookId);
         if (book) {
-            // 限制范围并保留2位小数
-            const formattedProgress = Math.max(0, Math.min(100, Math.round(progress * 100) / 100));
-            book.progress = formattedProgress;
+            book.progress = this.formatProgress(progress);
             book.lastReadTime = Date.now();
 
             // 触发自动保存
-            const saveDebounced = debounce(() => this.saveBooks(), 1000);
-            saveDebounced();
+            this.saveBooksDebounced();
         }
     }
 
     /**
-     * 删除书籍
+     * 更新书籍阅读位置
+     *
+     * 功能：
+     * 保存精确的阅读位置，并由位置推算用于显示的阅读进度。
+     * 文本书籍按字节偏移占文件大小的比例计算进度；PDF等无法推算的书籍使用WebView提供的进度
+     *
      * @param bookId 书籍ID
-     * @returns 是否删除成功
+     * @param position 阅读位置
+     * @param progress WebView计算的阅读进度（0-100），可选
      */
-    removeBook(bookId: string): boolean {
-        const initialLength = this.books.length;
-        this.books = this.books.filter(b => b.id !== bookId);
+    updateBookPosition(bookId: string, position: ReadingPosition, progress?: number): void {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book) {
+            return;
+        }
 
-        if (this.books.length < initialLength) {
-            this.saveBooks();
-            return true;
+        book.position = { ...position };
+        if (position.offset !== undefined && book.fileSize > 0) {
+            book.progress = this.formatProgress((position.offset / book.fileSize) * 100);
+        } else if (progress !== undefined) {
+            book.progress = this.formatProgress(progress);
         }
-        return false;
+        book.lastReadTime = Date.now();
+
+        this.saveBooksDebounced();
     }
 
     /**
-     * 获取插件设置
-     * @returns 插件设置对象
+     * 更新PDF书籍的显示状态
+     * @param bookId 书籍ID
+     * @param pdfState 页码、缩放比例和旋转角度
      */
-    getSettings(): PluginSettings {
-        return { ...this.settings };
+    updatePdfState(bookId: string, pdfState: PdfState): void {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book) {
+            return;
+        }
+
+        book.pdfState = {
+            currentPage: Math.max(1, Math.floor(pdfState.currentPage || 1)),
+            totalPages: Math.max(0, Math.floor(pdfState.totalPages || 0)),
+            zoom: Math.max(0.25, Math.min(5, pdfState.zoom || 1.5)),
+            rotation: (((Math.round((pdfState.rotation || 0) / 90) * 90) % 360) + 360) % 360,
+            fitWidth: !!pdfState.fitWidth
+        };
+        this.saveBooksDebounced();
     }
 
     /**
-     * 更新插件设置
-     * @param newSettings 新的设置对象（部分更新）
+     * 获取PDF书籍的目录
+     * @param bookId 书籍ID
+     * @returns 目录项列表，尚未打开过的PDF返回空列表
      */
-    updateSettings(newSettings: Partial<PluginSettings>): void {
-        this.settings = { ...this.settings, ...newSettings };
-        this.saveSettings();
+    getOutline(bookId: string): PdfOutlineItem[] {
+        const book = this.books.find(b => b.id === bookId);
+        return book?.outline || [];
     }
 
     /**
-     * 获取字体大小
-     * @returns 字体大小值
+     * 保存PDF书籍的目录
+     * @param bookId 书籍ID
+     * @param outline WebView读取的目录
+     * @returns 目录是否发生变化
      */
-    getFontSize(): number {
-        return this.settings.fontSize;
+    setOutline(bookId: string, outline: PdfOutlineItem[]): boolean {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book) {
+            return false;
+        }
+
+        // 目录来自PDF文件内容，只保留需要的字段
+        const normalize = (items: unknown): PdfOutlineItem[] => (Array.isArray(items) ? items : []).map((item: unknown) => {
+            const fields: { title?: unknown; page?: unknown; items?: unknown } = typeof item === 'object' && item !== null ? item : {};
+            return {
+                title: (typeof fields.title === 'string' ? fields.title.trim() : '') || 'Untitled',
+                page: typeof fields.page === 'number' && Number.isInteger(fields.page) && fields.page > 0 ? fields.page : undefined,
+                items: normalize(fields.items)
+            };
+        });
+        const normalized = normalize(outline);
+
+        if (JSON.stringify(normalized) === JSON.stringify(book.outline || [])) {
+            return false;
+        }
+        book.outline = normalized;
+        this.saveBooks();
+        return true;
     }
 
     /**
-     * 设置字体大小
-     * @param size 字体大小
-     * @returns 设置后的字体大小（限制在8-48之间）
+     * 限制进度范围并保留2位小数
+     * @param progress 阅读进度
+     * @returns 格式化后的阅读进度（0-100）
      */
-    setFontSize(size: number): number {
-        this.settings.fontSize = Math.max(8, Math.min(48, Math.round(size)));
-        this.saveSettings();
-        return this.settings.fontSize;
+    private formatProgress(progress: number): number {
+        return Math.max(0, Math.min(100, Math.round(progress * 100) / 100));
     }
 
     /**
-     * 增加字体大小
-     * @returns 增加后的字体大小
+     * 判断书籍是否为本地文本书籍
+     * @param book 书籍对象
+     * @returns 是否为.txt等纯文本书籍（非PDF、EPUB和微信读书）
      */
-    increaseFontSize(): number {
-        return this.setFontSize(this.settings.fontSize + 2);
+    isTextBook(book: Book): boolean {
+        if (book.type === 'wechat') {
+            return false;
+        }
+        const ext = path.extname(book.path).toLowerCase();
+        return ext !== '.pdf' && ext !== '.epub';
     }
 
     /**
-     * 减小字体大小
-     * @returns 减小后的字体大小
+     * 获取书籍的章节索引
+     * @param bookId 书籍ID
+     * @returns 章节列表，尚未建立索引时返回空列表并在后台建立索引（旧版本添加的书籍在首次访问时建立）
      */
-    decreaseFontSize(): number {
-        return this.setFontSize(this.settings.fontSize - 2);
+    getChapters(bookId: string): Chapter[] {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !this.isTextBook(book)) {
+            return [];
+        }
+        if (!book.chapters) {
+            void this.indexTextBook(book);
+            return [];
+        }
+        return book.chapters;
     }
 
     /**
-     * 释放资源
+     * 等待书籍的章节索引建立完成
+     * @param bookId 书籍ID
+     * @returns 章节列表，索引建立失败或被取消时返回空列表
+     *
+     * 使用场景：
+     * 导出标注等需要完整章节列表的功能
      */
-    dispose(): void {
-        this.eventManager.dispose();
-        // 最后一次保存
-        this.saveBooks();
-        this.saveSettings();
+    async ensureChapters(bookId: string): Promise<Chapter[]> {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !this.isTextBook(book)) {
+            return [];
+        }
+        return book.chapters || await this.indexTextBook(book) || [];
     }
-}
 
-/**
- * 书籍树项类
- *
- * 功能：
- * 1. 在VS Code树视图中显示书籍项
- * 2. 根据书籍类型显示不同的图标
- * 3. 提供书籍的详细信息 tooltip
- * 4. 设置点击书籍时的打开命令
- */
-class BookItem extends vscode.TreeItem {
     /**
-     * 构造函数
-     * @param book 书籍对象
+     * 重新建立书籍的章节索引
+     * @param bookId 书籍ID
+     * @returns 新的章节列表，取消或失败时返回undefined
+     *
+     * 使用场景：
+     * 修改章节标题规则后，需要重新扫描书籍
      */
-    constructor(public readonly book: Book) {
-        super(book.name, vscode.TreeItemCollapsibleState.None);
-
-        const formattedProgress = Math.round(book.progress * 100) / 100;
-        this.tooltip = this.getTooltipText();
-        this.description = `${formattedProgress}%`;
-        this.contextValue = 'bookItem';
-
-        this.command = {
-            command: 'readplugin.openBook',
-            title: 'Open Book',
-            arguments: [book]
-        };
-
-        // 设置图标
-        if (book.type === 'wechat') {
-            this.iconPath = new vscode.ThemeIcon('book');
-        } else {
-            const ext = path.extname(book.name).toLowerCase();
-            if (ext === '.pdf') {
-                this.iconPath = new vscode.ThemeIcon('file-pdf');
-            } else {
-                this.iconPath = new vscode.ThemeIcon('file-text');
-            }
+    async rebuildChapters(bookId: string): Promise<Chapter[] | undefined> {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !this.isTextBook(book)) {
+            return [];
         }
+        return this.indexTextBook(book, true);
     }
 
     /**
-     * 获取书籍的详细信息 tooltip
+     * 修改文本书籍的编码
+     * @param bookId 书籍ID
+     * @param encoding 新的编码
+     * @returns 是否修改成功
+     *
+     * 功能：
+     * 章节标题按编码解码后识别，修改编码后在后台重新建立文本索引和章节索引；阅读位置和标注使用字节偏移，保持不变
+     */
+    setBookEncoding(bookId: string, encoding: string): boolean {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !this.isTextBook(book)) {
+            return false;
+        }
+        book.encoding = encoding;
+        book.chapters = undefined;
+        this.saveBooks();
+        void this.indexTextBook(book, true);
+        return true;
+    }
+
+    /**
+     * 获取文本书籍的文本索引
+     * @param bookId 书籍ID
+     * @returns 有效的文本索引；尚未建立或文件、编码已变化时返回undefined，并在后台重新建立索引
+     */
+    getTextIndex(bookId: string): TextIndex | undefined {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !this.isTextBook(book)) {
+            return undefined;
+        }
+        const index = this.textIndexes.get(bookId)
+            ?? FileUtils.readJsonFile<TextIndex | undefined>(this.getTextIndexPath(bookId), undefined);
+        if (!index || !TextIndexer.isValid(index, book.path, book.encoding || 'utf8')) {
+            this.textIndexes.delete(bookId);
+            void this.indexTextBook(book);
+            return undefined;
+        }
+        this.textIndexes.set(bookId, index);
+        return index;
+    }
+
+    /**
+     * 清除所有文本书籍的章节索引
+     *
+     * 功能：
+     * 章节标题规则变化后调用；正在建立的索引使用旧规则，立即按新规则重新开始，
+     * 其余书籍在下次获取章节时（如在书籍列表中展开）在后台重新建立
+     */
+    private invalidateChapters(): void {
+        for (const book of this.books.filter(b => this.isTextBook(b))) {
+            book.chapters = undefined;
+            if (this.indexingTasks.has(book.id)) {
+                void this.indexTextBook(book, true);
+            }
+        }
+        this.saveBooks();
+    }
+
+    /**
+     * 建立文本书籍的文本索引
+     * @param book 书籍对象
+     * @param restart 是否取消正在进行的任务并重新开始 - 编码或章节规则变化后使用
+     * @returns 新的章节列表，取消或失败时返回undefined
+     *
+     * 功能：
+     * 1. 同一本书已有任务时返回该任务，不会重复扫描
+     * 2. 在后台异步扫描整个文件，通知中显示进度，用户可以取消
+     * 3. 扫描完成后保存索引文件和章节列表，并触发onDidIndexBook
+     */
+    private indexTextBook(book: Book, restart: boolean = false): Promise<Chapter[] | undefined> {
+        const running = this.indexingTasks.get(book.id);
+        if (running) {
+            if (!restart) {
+                return running.promise;
+            }
+            running.cancel();
+        }
+
+        let cancelled = false;
+        const task = {
+            promise: Promise.resolve<Chapter[] | undefined>(undefined),
+            cancel: () => { cancelled = true; }
+        };
+        task.promise = this.runTextIndexing(book, () => cancelled).finally(() => {
+            if (this.indexingTasks.get(book.id) === task) {
+                this.indexingTasks.delete(book.id);
+            }
+        });
+        this.indexingTasks.set(book.id, task);
+        return task.promise;
+    }
+
+    /**
+     * 执行文本索引任务
+     * @param book 书籍对象
+     * @param isCancelled 任务是否已被取消
+     * @returns 新的章节列表，取消或失败时返回undefined
+     */
+    private async runTextIndexing(book: Book, isCancelled: () => boolean): Promise<Chapter[] | undefined> {
+        const encoding = book.encoding || 'utf8';
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Indexing ${book.name}`,
+                cancellable: true
+            }, async (progress, token) => {
+                let reported = 0;
+                return TextIndexer.build(book.path, encoding, this.settings.chapterPatterns, fraction => {
+                    const percent = Math.floor(fraction * 100);
+                    if (percent > reported) {
+                        progress.report({ increment: percent - reported, message: `${percent}%` });
+                        reported = percent;
+                    }
+                    return !isCancelled() && !token.isCancellationRequested;
+                });
+            });
+
+            // 扫描期间书籍可能已被删除或任务已被新任务取代
+            if (!result || isCancelled() || !this.books.includes(book)) {
+                return undefined;
+            }
+
+            FileUtils.writeJsonFile(this.getTextIndexPath(book.id), result.index);
+            this.textIndexes.set(book.id, result.index);
+            book.chapters = result.chapters;
+            this.saveBooks();
+            this._onDidIndexBook.fire(book);
+            return result.chapters;
+        } catch (error) {
+            console.error(`Failed to index ${book.path}:`, error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to index ${book.name}: ${errorMessage}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * 获取文本索引文件的路径
+     * @param bookId 书籍ID
+     * @returns 索引文件路径，每本书一个JSON文件
+     */
+    private getTextIndexPath(bookId: string): string {
+        return path.join(this.storagePath, 'indexes', `${bookId}.json`);
+    }
+
+    /**
+     * 获取书籍的书签
+     * @param bookId 书籍ID
+     * @returns 按阅读位置排列的书签列表
+     */
+    getBookmarks(bookId: string): Bookmark[] {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !book.bookmarks) {
+            return [];
+        }
+        return [...book.bookmarks].sort((a, b) => (a.page ?? a.offset ?? 0) - (b.page ?? b.offset ?? 0));
+    }
+
+    /**
+     * 添加书签
+     * @param bookId 书籍ID
+     * @param name 书签名称
+     * @param position 书签位置（文本书籍为字节偏移，PDF为页码）
+     * @param snippet 书签位置处的文本片段
+     * @returns 添加的书签，书籍不存在时返回undefined
+     */
+    addBookmark(bookId: string, name: string, position: ReadingPosition, snippet: string): Bookmark | undefined {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book) {
+            return undefined;
+        }
+
+        const bookmark: Bookmark = {
+            id: Date.now().toString(),
+            name: name,
+            offset: position.offset,
+            page: position.page,
+            pageOffset: position.pageOffset,
+            snippet: snippet,
+            createdTime: Date.now()
+        };
+        book.bookmarks = [...(book.bookmarks || []), bookmark];
+        this.saveBooks();
+        return bookmark;
+    }
+
+    /**
+     * 重命名书签
+     * @param bookId 书籍ID
+     * @param bookmarkId 书签ID
+     * @param name 新名称
+     * @returns 是否重命名成功
+     */
+    renameBookmark(bookId: string, bookmarkId: string, name: string): boolean {
+        const bookmark = this.books.find(b => b.id === bookId)?.bookmarks?.find(m => m.id === bookmarkId);
+        if (!bookmark) {
+            return false;
+        }
+        bookmark.name = name;
+        this.saveBooks();
+        return true;
+    }
+
+    /**
+     * 删除书签
+     * @param bookId 书籍ID
+     * @param bookmarkId 书签ID
+     * @returns 是否删除成功
+     */
+    removeBookmark(bookId: string, bookmarkId: string): boolean {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !book.bookmarks) {
+            return false;
+        }
+        const initialLength = book.bookmarks.length;
+        book.bookmarks = book.bookmarks.filter(m => m.id !== bookmarkId);
+        if (book.bookmarks.length < initialLength) {
+            this.saveBooks();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * 获取书籍的标注
+     * @param bookId 书籍ID
+     * @returns 按文本位置排列的标注列表
+     */
+    getAnnotations(bookId: string): Annotation[] {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !book.annotations) {
+            return [];
+        }
+        return [...book.annotations].sort((a, b) => a.start - b.start || a.end - b.end);
+    }
+
+    /**
+     * 添加标注
+     * @param bookId 书籍ID
+     * @param range 标注文本的字节范围
+     * @param color 高亮颜色
+     * @param text 标注的文本
+     * @param note 笔记（可选）
+     * @returns 添加的标注，书籍不存在或范围为空时返回undefined
+     */
+    addAnnotation(bookId: string, range: TextRange, color: AnnotationColor, text: string, note?: string): Annotation | undefined {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || range.end <= range.start) {
+            return undefined;
+        }
+
+        const annotation: Annotation = {
+            id: Date.now().toString(),
+            start: range.start,
+            end: range.end,
+            color: color,
+            text: text,
+            note: note || undefined,
+            createdTime: Date.now()
+        };
+        book.annotations = [...(book.annotations || []), annotation];
+        this.saveBooks();
+        return annotation;
+    }
+
+    /**
+     * 修改标注的颜色或笔记
+     * @param bookId 书籍ID
+     * @param annotationId 标注ID
+     * @param changes 要修改的字段，笔记为空字符串时删除笔记
+     * @returns 修改后的标注，标注不存在时返回undefined
+     */
+    updateAnnotation(bookId: string, annotationId: string, changes: { color?: AnnotationColor; note?: string }): Annotation | undefined {
+        const annotation = this.books.find(b => b.id === bookId)?.annotations?.find(a => a.id === annotationId);
+        if (!annotation) {
+            return undefined;
+        }
+        if (changes.color) {
+            annotation.color = changes.color;
+        }
+        if (changes.note !== undefined) {
+            annotation.note = changes.note || undefined;
+        }
+        this.saveBooks();
+        return annotation;
+    }
+
+    /**
+     * 删除标注
+     * @param bookId 书籍ID
+     * @param annotationId 标注ID
+     * @returns 删除的标注，标注不存在时返回undefined
+     */
+    removeAnnotation(bookId: string, annotationId: string): Annotation | undefined {
+        const book = this.books.find(b => b.id === bookId);
+        if (!book || !book.annotations) {
+            return undefined;
+        }
+        const annotation = book.annotations.find(a => a.id === annotationId);
+        if (!annotation) {
+            return undefined;
+        }
+        book.annotations = book.annotations.filter(a => a.id !== annotationId);
+        this.saveBooks();
+        return annotation;
+    }
+
+    /**
+     * 导入标注和书签
+     * @param bookId 书籍ID
+     * @param annotations 要导入的标注
+     * @param bookmarks 要导入的书签
+     * @returns 实际导入的标注和书签数量，与已有条目或本批中之前的条目ID、范围或位置相同的条目视为已存在并跳过
+     */
+    importAnnotations(bookId: string, annotations: Annotation[], bookmarks: Bookmark[]): { annotations: number; bookmarks: number } {
+        const book = this.books.find(b => b.id === bookId);
+        const result = { annotations: 0, bookmarks: 0 };
+        if (!book) {
+            return result;
+        }
+
+        // 与已有条目以及本批中之前的条目比较，ID或位置相同的条目只保留一个
+        const existingAnnotations = book.annotations || [];
+        const newAnnotations: Annotation[] = [];
+        for (const annotation of annotations) {
+            const duplicate = [...existingAnnotations, ...newAnnotations]
+                .some(a => a.id === annotation.id || (a.start === annotation.start && a.end === annotation.end));
+            if (annotation.end <= book.fileSize && !duplicate) {
+                newAnnotations.push({ ...annotation, text: annotation.text.substring(0, 200) });
+            }
+        }
+
+        const existingBookmarks = book.bookmarks || [];
+        const newBookmarks: Bookmark[] = [];
+        for (const bookmark of bookmarks) {
+            const duplicate = [...existingBookmarks, ...newBookmarks].some(b => b.id === bookmark.id ||
+                (b.offset === bookmark.offset && b.page === bookmark.page && b.pageOffset === bookmark.pageOffset));
+            if (!duplicate) {
+                newBookmarks.push(bookmark);
+            }
+        }
+
+        if (newAnnotations.length > 0 || newBookmarks.length > 0) {
+            book.annotations = [...existingAnnotations, ...newAnnotations];
+            book.bookmarks = [...existingBookmarks, ...newBookmarks];
+            this.saveBooks();
+        }
+        result.annotations = newAnnotations.length;
+        result.bookmarks = newBookmarks.length;
+        return result;
+    }
+
+    /**
+     * 删除书籍
+     * @param bookId 书籍ID
+     * @returns 是否删除成功
+     */
+    removeBook(bookId: string): boolean {
+        const initialLength = this.books.length;
+        this.books = this.books.filter(b => b.id !== bookId);
+
+        if (this.books.length < initialLength) {
+            this.saveBooks();
+            // 取消正在进行的索引任务并删除索引文件
+            this.indexingTasks.get(bookId)?.cancel();
+            this.textIndexes.delete(bookId);
+            try {
+                fs.rmSync(this.getTextIndexPath(bookId), { force: true });
+            } catch (error) {
+                console.error(`Failed to remove text index of ${bookId}:`, error);
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * 获取插件设置
+     * @returns 插件设置对象
+     */
+    getSettings(): PluginSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * 更新插件设置
+     * @param newSettings 新的设置对象（部分更新）
+     */
+    updateSettings(newSettings: Partial<PluginSettings>): void {
+        this.settings = { ...this.settings, ...newSettings };
+        this.writeConfiguration(newSettings);
+        this.saveSettings();
+    }
+
+    /**
+     * 获取字体大小
+     * @returns 字体大小值
+     */
+    getFontSize(): number {
+        return this.settings.fontSize;
+    }
+
+    /**
+     * 设置字体大小
+     * @param size 字体大小
+     * @returns 设置后的字体大小（限制在8-48之间）
+     */
+    setFontSize(size: number): number {
+        this.settings.fontSize = Math.max(8, Math.min(48, Math.round(size)));
+        this.writeConfiguration({ fontSize: this.settings.fontSize });
+        return this.settings.fontSize;
+    }
+
+    /**
+     * 增加字体大小
+     * @returns 增加后的字体大小
+     */
+    increaseFontSize(): number {
+        return this.setFontSize(this.settings.fontSize + 2);
+    }
+
+    /**
+     * 减小字体大小
+     * @returns 减小后的字体大小
+     */
+    decreaseFontSize(): number {
+        return this.setFontSize(this.settings.fontSize - 2);
+    }
+
+    /**
+     * 设置PDF滚动模式
+     * @param mode single表示单页翻页，continuous表示连续滚动
+     */
+    setPdfScrollMode(mode: 'single' | 'continuous'): void {
+        this.settings.pdfScrollMode = mode === 'continuous' ? 'continuous' : 'single';
+        this.writeConfiguration({ pdfScrollMode: this.settings.pdfScrollMode });
+    }
+
+    /**
+     * 释放资源
+     */
+    dispose(): void {
+        this.eventManager.dispose();
+        // 最后一次保存
+        this.saveBooks();
+        this.saveSettings();
+    }
+}
+
+/**
+ * 书籍树项类
+ *
+ * 功能：
+ * 1. 在VS Code树视图中显示书籍项
+ * 2. 根据书籍类型显示不同的图标
+ * 3. 提供书籍的详细信息 tooltip
+ * 4. 设置点击书籍时的打开命令
+ * 5. 可以展开显示书签和文本书籍的章节
+ */
+class BookItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 书籍对象
+     * @param collapsibleState 折叠状态 - 有书签或章节的书籍可以展开
+     */
+    constructor(
+        public readonly book: Book,
+        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None
+    ) {
+        super(book.name, collapsibleState);
+
+        const formattedProgress = Math.round(book.progress * 100) / 100;
+        this.tooltip = this.getTooltipText();
+        this.description = `${formattedProgress}%`;
+        this.contextValue = 'bookItem';
+
+        this.command = {
+            command: 'readplugin.openBook',
+            title: 'Open Book',
+            arguments: [book]
+        };
+
+        // 设置图标
+        if (book.type === 'wechat') {
+            this.iconPath = new vscode.ThemeIcon('book');
+        } else {
+            const ext = path.extname(book.path).toLowerCase();
+            if (ext === '.pdf') {
+                this.iconPath = new vscode.ThemeIcon('file-pdf');
+            } else if (ext === '.epub') {
+                this.iconPath = new vscode.ThemeIcon('book');
+            } else {
+                this.iconPath = new vscode.ThemeIcon('file-text');
+            }
+        }
+    }
+
+    /**
+     * 获取书籍的详细信息 tooltip
      * @returns tooltip 文本
      */
     private getTooltipText(): string {
@@ -514,6 +1453,9 @@ class BookItem extends vscode.TreeItem {
                 lines.push(`Book ID: ${this.book.bookId}`);
             }
         } else {
+            if (this.book.author) {
+                lines.push(`Author: ${this.book.author}`);
+            }
             lines.push(`Size: ${this.formatFileSize(this.book.fileSize)}`);
             if (this.book.encoding) {
                 lines.push(`Encoding: ${this.book.encoding}`);
@@ -543,6 +1485,99 @@ class BookItem extends vscode.TreeItem {
     }
 }
 
+/**
+ * 章节项类
+ *
+ * 功能：
+ * 1. 在书籍项下显示文本书籍的章节
+ * 2. 点击章节时从章节的字节偏移处打开阅读器
+ */
+class ChapterItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 章节所属的书籍
+     * @param chapter 章节对象
+     */
+    constructor(public readonly book: Book, public readonly chapter: Chapter) {
+        super(chapter.title, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = chapter.title;
+        this.contextValue = 'chapterItem';
+        this.iconPath = new vscode.ThemeIcon('list-unordered');
+
+        this.command = {
+            command: 'readplugin.openChapter',
+            title: 'Open Chapter',
+            arguments: [book, chapter]
+        };
+    }
+}
+
+/**
+ * PDF目录项类
+ *
+ * 功能：
+ * 1. 在PDF书籍项下按层级显示文档目录
+ * 2. 点击目录项时跳转到对应页面
+ */
+class OutlineItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 目录所属的PDF书籍
+     * @param item 目录项
+     */
+    constructor(public readonly book: Book, public readonly item: PdfOutlineItem) {
+        super(
+            item.title,
+            item.items.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        this.tooltip = item.page !== undefined ? `${item.title} (Page ${item.page})` : item.title;
+        this.description = item.page !== undefined ? `${item.page}` : undefined;
+        this.contextValue = 'outlineItem';
+        this.iconPath = new vscode.ThemeIcon('list-tree');
+
+        if (item.page !== undefined) {
+            this.command = {
+                command: 'readplugin.openOutlineItem',
+                title: 'Open Outline Item',
+                arguments: [book, item]
+            };
+        }
+    }
+}
+
+/**
+ * 书签项类
+ *
+ * 功能：
+ * 1. 在书籍项下显示书签
+ * 2. 显示书签位置（页码或文本片段）
+ * 3. 点击书签时跳转到书签位置
+ */
+class BookmarkItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 书签所属的书籍
+     * @param bookmark 书签对象
+     */
+    constructor(public readonly book: Book, public readonly bookmark: Bookmark) {
+        super(bookmark.name, vscode.TreeItemCollapsibleState.None);
+        this.description = bookmark.page !== undefined ? `Page ${bookmark.page}` : bookmark.snippet;
+        this.tooltip = [
+            bookmark.name,
+            bookmark.snippet,
+            `Created: ${new Date(bookmark.createdTime).toLocaleString()}`
+        ].join('\n');
+        this.contextValue = 'bookmarkItem';
+        this.iconPath = new vscode.ThemeIcon('bookmark');
+
+        this.command = {
+            command: 'readplugin.jumpToBookmark',
+            title: 'Jump to Bookmark',
+            arguments: [this]
+        };
+    }
+}
+
 /**
  * 添加书籍项类
  *
@@ -624,25 +1659,188 @@ class WechatStatusItem extends vscode.TreeItem {
         super(`📱 WeChat Read: ${status}`, vscode.TreeItemCollapsibleState.None);
         this.tooltip = `WeChat Read status: ${status}`;
         this.iconPath = new vscode.ThemeIcon('info');
-        this.contextValue = 'wechatStatusItem';
+        // 已登录时可以从右键菜单退出登录
+        this.contextValue = status === 'LoggedIn' ? 'wechatLoggedInItem' : 'wechatStatusItem';
     }
 }
 
+/**
+ * 书籍树中所有节点的类型
+ */
+type BookTreeItem = BookItem | BookmarkItem | ChapterItem | OutlineItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem;
+
 /**
  * 书籍树数据提供者类
  *
  * 功能：
- * 1. 为VS Code树视图提供数据
- * 2. 管理树视图的刷新
- * 3. 组织书籍和操作项的显示顺序
- * 4. 根据登录状态显示不同的微信读书操作项
+ * 1. 为VS Code树视图提供数据
+ * 2. 管理树视图的刷新
+ * 3. 组织书籍和操作项的显示顺序
+ * 4. 根据登录状态显示不同的微信读书操作项
+ * 5. 在书籍下显示书签和文本书籍的章节
+ */
+class BooksTreeDataProvider implements vscode.TreeDataProvider<BookTreeItem> {
+    /** 树数据变化事件发射器 */
+    private _onDidChangeTreeData: vscode.EventEmitter<BookTreeItem | undefined | null | void> =
+        new vscode.EventEmitter<BookTreeItem | undefined | null | void>();
+    /** 树数据变化事件 */
+    readonly onDidChangeTreeData: vscode.Event<BookTreeItem | undefined | null | void> =
+        this._onDidChangeTreeData.event;
+
+    /**
+     * 构造函数
+     * @param state 插件状态管理对象
+     */
+    constructor(private state: ReadPluginState) {}
+
+    /**
+     * 刷新树视图
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * 刷新指定书籍项
+     * @param _bookId 书籍ID
+     */
+    refreshBook(_bookId: string): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * 获取树项
+     * @param element 树项元素
+     * @returns 树项对象
+     */
+    getTreeItem(element: BookTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    /**
+     * 获取子项
+     * @param element 父元素
+     * @returns 子项数组
+     */
+    getChildren(element?: BookTreeItem): Thenable<BookTreeItem[]> {
+        if (!element) {
+            const items: BookTreeItem[] = [];
+
+            // 添加添加书籍项
+            items.push(new AddBookItem());
+
+            // 添加书籍列表 - 有书签或PDF目录，或文本书籍在未建立索引或有章节时可以展开
+            const books = this.state.getBooks()
+                .sort((a, b) => (b.lastReadTime || 0) - (a.lastReadTime || 0))
+                .map(book => {
+                    const expandable = (book.bookmarks && book.bookmarks.length > 0) ||
+                        (book.outline && book.outline.length > 0) ||
+                        (this.state.isTextBook(book) && (!book.chapters || book.chapters.length > 0));
+                    return new BookItem(
+                        book,
+                        expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+                    );
+                });
+            items.push(...books);
+
+            // 添加微信读书相关项 - 登录状态需要从SecretStorage中读取
+            return this.state.getWechatCredentials().then(credentials => {
+                const wechatItems = credentials
+                    ? [new WechatStatusItem('LoggedIn'), new WechatSyncItem()]
+                    : [new WechatStatusItem('Not Logged In'), new WechatLoginItem()];
+                items.splice(1, 0, ...wechatItems);
+                return items;
+            });
+        }
+
+        // 书籍的书签、章节和PDF目录
+        if (element instanceof BookItem) {
+            const bookmarks = this.state.getBookmarks(element.book.id)
+                .map(bookmark => new BookmarkItem(element.book, bookmark));
+            const chapters = this.state.getChapters(element.book.id)
+                .map(chapter => new ChapterItem(element.book, chapter));
+            const outline = this.state.getOutline(element.book.id)
+                .map(item => new OutlineItem(element.book, item));
+            return Promise.resolve([...bookmarks, ...chapters, ...outline]);
+        }
+
+        // PDF目录的子目录项
+        if (element instanceof OutlineItem) {
+            return Promise.resolve(element.item.items.map(item => new OutlineItem(element.book, item)));
+        }
+        return Promise.resolve([]);
+    }
+}
+
+/**
+ * 标注书籍项类
+ *
+ * 功能：
+ * 在标注视图中显示有标注的书籍，展开后列出该书的标注
+ */
+class AnnotationBookItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 书籍对象
+     * @param count 标注数量
+     */
+    constructor(public readonly book: Book, count: number) {
+        super(book.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${count}`;
+        this.tooltip = `${book.name}\n${count} annotations`;
+        this.contextValue = 'annotationBookItem';
+        this.iconPath = new vscode.ThemeIcon('book');
+    }
+}
+
+/**
+ * 标注项类
+ *
+ * 功能：
+ * 1. 显示标注的文本和笔记
+ * 2. 使用与高亮颜色一致的图标
+ * 3. 点击标注时跳转到标注位置
+ */
+class AnnotationItem extends vscode.TreeItem {
+    /**
+     * 构造函数
+     * @param book 标注所属的书籍
+     * @param annotation 标注对象
+     */
+    constructor(public readonly book: Book, public readonly annotation: Annotation) {
+        super(annotation.text.replace(/\s+/g, ' ').trim() || '(empty)', vscode.TreeItemCollapsibleState.None);
+        this.description = annotation.note;
+        this.tooltip = [
+            annotation.text,
+            annotation.note ? `Note: ${annotation.note}` : '',
+            `Created: ${new Date(annotation.createdTime).toLocaleString()}`
+        ].filter(line => line).join('\n');
+        this.contextValue = 'annotationItem';
+        this.iconPath = new vscode.ThemeIcon(annotation.note ? 'note' : 'circle-filled', new vscode.ThemeColor(`charts.${annotation.color}`));
+
+        this.command = {
+            command: 'readplugin.openAnnotation',
+            title: 'Open Annotation',
+            arguments: [this]
+        };
+    }
+}
+
+type AnnotationTreeItem = AnnotationBookItem | AnnotationItem;
+
+/**
+ * 标注树数据提供者类
+ *
+ * 功能：
+ * 1. 按书籍分组列出所有标注
+ * 2. 书籍按最后阅读时间排列，标注按文本位置排列
  */
-class BooksTreeDataProvider implements vscode.TreeDataProvider<BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem> {
+class AnnotationsTreeDataProvider implements vscode.TreeDataProvider<AnnotationTreeItem> {
     /** 树数据变化事件发射器 */
-    private _onDidChangeTreeData: vscode.EventEmitter<BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem | undefined | null | void> =
-        new vscode.EventEmitter<BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem | undefined | null | void>();
+    private _onDidChangeTreeData: vscode.EventEmitter<AnnotationTreeItem | undefined | null | void> =
+        new vscode.EventEmitter<AnnotationTreeItem | undefined | null | void>();
     /** 树数据变化事件 */
-    readonly onDidChangeTreeData: vscode.Event<BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem | undefined | null | void> =
+    readonly onDidChangeTreeData: vscode.Event<AnnotationTreeItem | undefined | null | void> =
         this._onDidChangeTreeData.event;
 
     /**
@@ -658,20 +1856,12 @@ class BooksTreeDataProvider implements vscode.TreeDataProvider<BookItem | AddBoo
         this._onDidChangeTreeData.fire();
     }
 
-    /**
-     * 刷新指定书籍项
-     * @param _bookId 书籍ID
-     */
-    refreshBook(_bookId: string): void {
-        this._onDidChangeTreeData.fire();
-    }
-
     /**
      * 获取树项
      * @param element 树项元素
      * @returns 树项对象
      */
-    getTreeItem(element: BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem): vscode.TreeItem {
+    getTreeItem(element: AnnotationTreeItem): vscode.TreeItem {
         return element;
     }
 
@@ -680,30 +1870,18 @@ class BooksTreeDataProvider implements vscode.TreeDataProvider<BookItem | AddBoo
      * @param element 父元素
      * @returns 子项数组
      */
-    getChildren(element?: any): Thenable<(BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem)[]> {
+    getChildren(element?: AnnotationTreeItem): Thenable<AnnotationTreeItem[]> {
         if (!element) {
-            const items: (BookItem | AddBookItem | WechatLoginItem | WechatSyncItem | WechatStatusItem)[] = [];
-
-            // 添加添加书籍项
-            items.push(new AddBookItem());
-
-            // 添加微信读书相关项
-            const settings = this.state.getSettings();
-            if (settings.wechatReadToken && settings.wechatReadUserId) {
-                items.push(new WechatStatusItem('LoggedIn'));
-                items.push(new WechatSyncItem());
-            } else {
-                items.push(new WechatStatusItem('Not Logged In'));
-                items.push(new WechatLoginItem());
-            }
-
-            // 添加书籍列表
             const books = this.state.getBooks()
+                .filter(book => book.annotations && book.annotations.length > 0)
                 .sort((a, b) => (b.lastReadTime || 0) - (a.lastReadTime || 0))
-                .map(book => new BookItem(book));
-            items.push(...books);
+                .map(book => new AnnotationBookItem(book, this.state.getAnnotations(book.id).length));
+            return Promise.resolve(books);
+        }
 
-            return Promise.resolve(items);
+        if (element instanceof AnnotationBookItem) {
+            return Promise.resolve(this.state.getAnnotations(element.book.id)
+                .map(annotation => new AnnotationItem(element.book, annotation)));
         }
         return Promise.resolve([]);
     }
@@ -731,13 +1909,44 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     /** 当前打开的书籍 - 存储当前正在阅读的书籍 */
     private _currentBook?: Book;
+    /** 起始位置 - 从章节或书签打开书籍时使用，undefined表示按阅读进度恢复 */
+    private _startPosition?: ReadingPosition;
+    /** 高亮范围 - 从搜索结果打开文本书籍时标记匹配的文本 */
+    private _startHighlight?: TextRange;
+    /** 是否处于老板键伪装状态 - 伪装时视图显示假界面，不显示书籍内容 */
+    private _disguised = false;
+    /** 等待中的位置上报 - 伪装前请求WebView立即上报阅读位置，收到确认或超时后调用 */
+    private _positionFlush?: () => void;
     /** 插件状态 - 用于访问书籍列表和设置 */
     private _state: ReadPluginState;
     /** 书籍树数据提供者 - 用于刷新树视图 */
     private _treeDataProvider?: BooksTreeDataProvider;
+    /** 标注树数据提供者 - 添加标注后刷新标注视图 */
+    private _annotationsTreeDataProvider?: AnnotationsTreeDataProvider;
+    /** 活动监听器 - 收到WebView消息（滚动、翻页等）时调用，用于空闲检测 */
+    private _activityListener?: () => void;
     /** 事件管理器 - 用于管理事件监听器 */
     private _eventManager: EventManager;
-
+    /** EPUB服务缓存 - 缓存当前EPUB书籍的解析结果，切换章节时无需重新解压 */
+    private _epubCache?: { bookId: string; service: EpubService };
+    /** PDF.js所在目录 - 相对于扩展根目录，是WebView唯一允许加载的本地资源目录 */
+    private static readonly PDFJS_ROOT = ['node_modules', 'pdfjs-dist'];
+    /** 等待WebView上报阅读位置的最长时间（毫秒） */
+    private static readonly POSITION_FLUSH_TIMEOUT = 300;
+    /** PDF分段读取大小 - PDF.js按该大小对齐请求字节范围 */
+    private static readonly PDF_RANGE_CHUNK_SIZE = 64 * 1024;
+    /** 视图标题 - 与package.json中的视图名称一致 */
+    private static readonly VIEW_TITLE = 'Book Content';
+    /** 文本阅读器样式相关的设置项 - 修改后通过消息更新，无需重新生成页面 */
+    private static readonly READING_STYLE_KEYS: (keyof PluginSettings)[] = [
+        'fontFamily', 'lineHeight', 'theme', 'customThemes', 'paragraphSpacing', 'textIndent', 'maxTextWidth', 'letterSpacing'
+    ];
+    /** 伪装视图的标题 */
+    private static readonly DISGUISE_TITLES: { [key in PluginSettings['bossKeyView']]: string } = {
+        testRunner: 'Test Results',
+        logTail: 'Output',
+        outline: 'Outline'
+    };
 
     constructor(
         private readonly _extensionContext: vscode.ExtensionContext,
@@ -751,6 +1960,14 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
         this._treeDataProvider = provider;
     }
 
+    setAnnotationsTreeDataProvider(provider: AnnotationsTreeDataProvider): void {
+        this._annotationsTreeDataProvider = provider;
+    }
+
+    setActivityListener(listener: () => void): void {
+        this._activityListener = listener;
+    }
+
     resolveWebviewView(
         webviewView: vscode.WebviewView,
         _context: vscode.WebviewViewResolveContext,
@@ -760,21 +1977,15 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
 
         webviewView.webview.options = {
             enableScripts: true,
-            localResourceRoots: [this._extensionContext.extensionUri]
+            localResourceRoots: [vscode.Uri.joinPath(this._extensionContext.extensionUri, ...BookContentViewProvider.PDFJS_ROOT)]
         };
 
-        // 监听主题变化
-        this._eventManager.register(ThemeUtils.onThemeChange(() => {
-            if (this._view) {
-                this._view.webview.html = this._getHtmlForWebview(this._view.webview);
-            }
-        }));
-
         // 清理监听器
         webviewView.onDidDispose(() => {
             this._eventManager.dispose();
         });
 
+        this._setDisguised(this._disguised);
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
         this._setupMessageHandlers();
     }
@@ -784,10 +1995,16 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
             return;
         }
 
+        // 不能对消息节流：加载内容、保存书签等消息被丢弃后WebView会一直等待响应，
+        // 高频的位置上报已在WebView中做了防抖
         const messageHandler = this._view.webview.onDidReceiveMessage(
-            throttle((data: WebViewMessage) => {
+            (data: WebViewMessage) => {
+                // 伪装界面不发送消息，伪装期间收到的只有书籍页面卸载前的位置上报，不算用户活动
+                if (!this._disguised) {
+                    this._activityListener?.();
+                }
                 this._handleWebviewMessage(data);
-            }, 100)
+            }
         );
 
         this._eventManager.register(messageHandler);
@@ -809,6 +2026,38 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                 }
                 break;
 
+            case 'updatePosition':
+                if (this._currentBook && data.position) {
+                    this._state.updateBookPosition(this._currentBook.id, data.position, data.progress);
+                    this._treeDataProvider?.refreshBook(this._currentBook.id);
+                }
+                break;
+
+            case 'updatePdfState':
+                if (this._currentBook && data.pdfState) {
+                    this._state.updatePdfState(this._currentBook.id, data.pdfState);
+                }
+                break;
+
+            case 'positionFlushed':
+                this._positionFlush?.();
+                break;
+
+            case 'pdfOutline':
+                if (this._currentBook && Array.isArray(data.outline)) {
+                    if (this._state.setOutline(this._currentBook.id, data.outline)) {
+                        this._treeDataProvider?.refresh();
+                    }
+                }
+                break;
+
+            case 'setPdfScrollMode':
+                if (this._currentBook && data.position) {
+                    this._state.updateBookPosition(this._currentBook.id, data.position, data.progress);
+                }
+                this.setPdfScrollMode(data.mode);
+                break;
+
             case 'increaseFontSize':
                 if (this._currentBook) {
                     console.log('Increasing font size for book:', this._currentBook.id);
@@ -848,22 +2097,28 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                 }
                 break;
 
+            case 'loadPdfRange':
+                if (this._currentBook && data.bookId === this._currentBook.id && data.begin !== undefined && data.end !== undefined) {
+                    this._loadPdfRange(data.bookId, data.begin, data.end);
+                }
+                break;
+
             case 'loadMoreContent':
-                console.log('Loading more content request:', {bookId: this._currentBook?.id, start: data.start, end: data.end, encoding: data.encoding});
                 if (this._currentBook && data.start !== undefined && data.end !== undefined) {
-                    console.log('Loading more content:', { bookId: this._currentBook.id, start: data.start, end: data.end });
+                    console.log('Loading more content:', { bookId: this._currentBook.id, start: data.start, end: data.end, direction: data.direction });
                     try {
-                        const encoding = data.encoding || this._currentBook.encoding || 'utf8';
-                        const content = EncodingUtils.readFileWithEncoding(this._currentBook.path, data.start, data.end, encoding);
-                        const escapedContent = SecurityUtils.escapeHtml(content);
-
-                        console.log(`Sending ${escapedContent.length} characters to webview`)
+                        // 向前加载和跳转时起点对齐到行首，向前加载的终点正好衔接已加载内容；向后加载和跳转时终点延伸到行尾
+                        const start = data.direction === 'after'
+                            ? data.start
+                            : EncodingUtils.findLineStart(this._currentBook.path, data.start, this._currentBook.encoding || 'utf8');
+                        const chunk = this._readTextChunk(this._currentBook, start, data.end, data.direction !== 'before');
 
                         this._view.webview.postMessage({
                             type: 'moreContent',
-                            content: escapedContent,
-                            start: data.start,
-                            end: data.end,
+                            content: chunk.html,
+                            start: chunk.start,
+                            end: chunk.end,
+                            direction: data.direction,
                             bookId: this._currentBook.id
                         });
                     } catch (error) {
@@ -877,6 +2132,52 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                 }
                 break;
 
+            case 'reloadChunk':
+                // 标注变化后重新生成已加载的文本块，块的范围不变
+                if (this._currentBook && data.bookId === this._currentBook.id && data.start !== undefined && data.end !== undefined) {
+                    try {
+                        const chunk = this._readTextChunk(this._currentBook, data.start, data.end, false);
+                        this._view.webview.postMessage({
+                            type: 'chunkContent',
+                            content: chunk.html,
+                            start: chunk.start,
+                            end: chunk.end,
+                            bookId: this._currentBook.id
+                        });
+                    } catch (error) {
+                        console.error('Failed to reload content:', error);
+                    }
+                }
+                break;
+
+            case 'addAnnotation':
+                if (this._currentBook && data.bookId === this._currentBook.id) {
+                    this._addAnnotation(data).catch(error => {
+                        console.error('Failed to add annotation:', error);
+                        vscode.window.showErrorMessage('Failed to add annotation');
+                    });
+                }
+                break;
+
+            case 'loadEpubChapter':
+                if (this._currentBook && data.index !== undefined) {
+                    this._loadEpubChapter(data.index);
+                }
+                break;
+
+            case 'openEpubLink':
+                if (this._currentBook && data.index !== undefined && data.href) {
+                    try {
+                        const target = this._getEpubService(this._currentBook).resolveLink(data.index, data.href);
+                        if (target) {
+                            this._loadEpubChapter(target.index, target.fragment);
+                        }
+                    } catch (error) {
+                        console.error('Failed to resolve EPUB link:', error);
+                    }
+                }
+                break;
+
             case 'saveBookmark':
                 if (this._currentBook) {
                     this._saveBookmark(data.position);
@@ -893,6 +2194,8 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
     /**
      * 打开书籍
      * @param book 要打开的书籍对象
+     * @param position 起始位置（可选），未指定时从书籍保存的阅读位置恢复
+     * @param highlight 需要高亮的字节范围（可选），如搜索匹配
      *
      * 功能：
      * 1. 设置当前书籍 - 更新内存中的当前书籍
@@ -908,12 +2211,15 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
      * 4. 显示视图
      * 5. 更新WebView内容
      */
-    openBook(book: Book): void {
+    openBook(book: Book, position?: ReadingPosition, highlight?: TextRange): void {
         // 记录日志 - 方便调试
-        console.log('Opening book:', { id: book.id, name: book.name, size: book.fileSize });
+        console.log('Opening book:', { id: book.id, name: book.name, size: book.fileSize, position: position });
 
         // 设置当前书籍 - 更新内存中的当前书籍
         this._currentBook = book;
+        this._startPosition = position;
+        this._startHighlight = highlight;
+        this._setDisguised(false);
 
         // 检查视图是否可用 - 确保WebView已创建
         if (this._view) {
@@ -926,88 +2232,569 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                 // 显示视图 - 确保视图可见
                 this._view.show?.(true);
 
-                // 更新WebView内容 - 将生成的HTML设置到WebView
-                this._view.webview.html = html;
-                console.log('Webview HTML updated successfully');
-            } catch (error) {
-                console.error('Error updating webview HTML:', error);
-            }
-        } else {
-            console.log('No view available for book:', book.id);
+                // 更新WebView内容 - 将生成的HTML设置到WebView
+                this._view.webview.html = html;
+                console.log('Webview HTML updated successfully');
+            } catch (error) {
+                console.error('Error updating webview HTML:', error);
+            }
+        } else {
+            console.log('No view available for book:', book.id);
+        }
+    }
+
+    /**
+     * 切换PDF滚动模式
+     * @param mode single表示单页翻页，continuous表示连续滚动
+     *
+     * 功能：
+     * 保存设置后，如果当前正在阅读PDF，从保存的阅读位置重新打开
+     */
+    public setPdfScrollMode(mode: 'single' | 'continuous'): void {
+        this._state.setPdfScrollMode(mode);
+
+        const book = this._currentBook && this._state.getBook(this._currentBook.id);
+        if (book && book.type !== 'wechat' && path.extname(book.path).toLowerCase() === '.pdf') {
+            this.openBook(book);
+        }
+    }
+
+    /**
+     * 切换老板键伪装状态
+     * @returns 切换后是否处于伪装状态
+     */
+    public toggleDisguise(): boolean {
+        this.setDisguised(!this._disguised);
+        return this._disguised;
+    }
+
+    /**
+     * 设置老板键伪装状态
+     * @param disguised 是否伪装
+     *
+     * 功能：
+     * 1. 伪装 - 立即修改视图标题，等待WebView上报当前阅读位置后将视图替换为假界面，书籍内容从WebView中移除
+     * 2. 恢复 - 从保存的阅读位置重新打开当前书籍，因此能回到伪装前的位置
+     */
+    public async setDisguised(disguised: boolean): Promise<void> {
+        if (disguised === this._disguised) {
+            return;
+        }
+        if (disguised) {
+            this._setDisguised(true);
+            // WebView在滚动停止后才上报位置，替换页面前先取得最新的位置
+            await this._flushPosition();
+            if (!this._disguised) {
+                // 等待期间已恢复或打开了其他书籍
+                return;
+            }
+        } else {
+            if (this._currentBook) {
+                // 恢复时使用保存的阅读位置，而不是最初打开书籍时的章节或书签位置
+                this._currentBook = this._state.getBook(this._currentBook.id) || this._currentBook;
+                this._startPosition = undefined;
+                this._startHighlight = undefined;
+            }
+            this._setDisguised(false);
+        }
+
+        if (this._view) {
+            this._view.webview.html = this._getHtmlForWebview(this._view.webview);
+        }
+    }
+
+    /**
+     * 请求WebView立即上报阅读位置
+     * @returns WebView确认已上报或等待超时后完成
+     *
+     * 功能：
+     * WebView收到flushPosition消息后同步发送位置消息，再发送positionFlushed确认；
+     * 消息按发送顺序处理，收到确认时位置已经保存
+     */
+    private _flushPosition(): Promise<void> {
+        const view = this._view;
+        if (!view || !this._currentBook || this._currentBook.type === 'wechat') {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            const finish = () => {
+                clearTimeout(timeout);
+                if (this._positionFlush === finish) {
+                    this._positionFlush = undefined;
+                }
+                resolve();
+            };
+            const timeout = setTimeout(finish, BookContentViewProvider.POSITION_FLUSH_TIMEOUT);
+            // 同时只等待一次上报，之前的等待直接结束
+            this._positionFlush?.();
+            this._positionFlush = finish;
+            view.webview.postMessage({ type: 'flushPosition' }).then(undefined, finish);
+        });
+    }
+
+    /**
+     * 是否处于老板键伪装状态
+     */
+    public isDisguised(): boolean {
+        return this._disguised;
+    }
+
+    /**
+     * 设置伪装状态并更新视图标题
+     * @param disguised 是否伪装
+     */
+    private _setDisguised(disguised: boolean): void {
+        this._disguised = disguised;
+        if (this._view) {
+            this._view.title = disguised
+                ? BookContentViewProvider.DISGUISE_TITLES[this._state.getSettings().bossKeyView] || BookContentViewProvider.DISGUISE_TITLES.testRunner
+                : BookContentViewProvider.VIEW_TITLE;
+        }
+    }
+
+    /**
+     * 获取当前打开的书籍
+     * @returns 当前书籍，未打开书籍时返回undefined
+     */
+    public getCurrentBook(): Book | undefined {
+        return this._currentBook;
+    }
+
+    /**
+     * 从保存的阅读位置重新显示当前书籍
+     * @param bookId 书籍ID - 只有当前打开的是该书籍时才重新显示
+     *
+     * 功能：
+     * 阅读位置在WebView之外（如状态栏阅读）改变后调用，不会切换到阅读视图，也不会解除老板键伪装
+     */
+    public reloadBook(bookId: string): void {
+        const book = this._state.getBook(bookId);
+        if (!book || this._currentBook?.id !== bookId || !this._view || this._disguised) {
+            return;
+        }
+        this._currentBook = book;
+        this._startPosition = undefined;
+        this._startHighlight = undefined;
+        this._view.webview.html = this._getHtmlForWebview(this._view.webview);
+    }
+
+    /**
+     * 文本索引建立完成后更新阅读器的滚动映射
+     * @param bookId 书籍ID - 只有当前打开的是该书籍时才更新
+     *
+     * 功能：
+     * 滚动条按行数而不是字节数估算位置，页面不重新生成，阅读位置不变
+     */
+    public updateTextIndex(bookId: string): void {
+        const book = this._state.getBook(bookId);
+        if (!book || this._currentBook?.id !== bookId || !this._view || !this._state.isTextBook(book)) {
+            return;
+        }
+        this._view.webview.postMessage({
+            type: 'updateScrollMap',
+            scrollMap: this._getScrollMap(book),
+            bookId: bookId
+        });
+    }
+
+    public refreshFontSize(): void {
+        this._updateFontSize();
+    }
+
+    /**
+     * 应用在设置界面中修改的设置
+     * @param changed 变化的设置项
+     *
+     * 功能：
+     * 字体大小通过消息更新；字体、行高、主题和PDF滚动模式需要从保存的阅读位置重新生成页面；
+     * 伪装时修改伪装视图会立即切换假界面
+     */
+    public applySettings(changed: (keyof PluginSettings)[]): void {
+        if (!this._view) {
+            return;
+        }
+
+        // 文本阅读器的主题和排版通过消息更新，其他阅读器需要重新生成页面
+        const isTextReader = !this._disguised && !!this._currentBook && this._state.isTextBook(this._currentBook);
+        const styleChanged = changed.some(key => BookContentViewProvider.READING_STYLE_KEYS.includes(key));
+        const rebuild = (styleChanged && !isTextReader) || changed.includes('pdfScrollMode')
+            || (this._disguised && changed.includes('bossKeyView'));
+        if (styleChanged && isTextReader) {
+            this.updateReadingStyle();
+        }
+        if (rebuild) {
+            if (this._currentBook) {
+                this._currentBook = this._state.getBook(this._currentBook.id) || this._currentBook;
+                this._startPosition = undefined;
+                this._startHighlight = undefined;
+            }
+            this._setDisguised(this._disguised);
+            this._view.webview.html = this._getHtmlForWebview(this._view.webview);
+        } else if (changed.includes('fontSize')) {
+            this._updateFontSize();
+        }
+    }
+
+    /**
+     * 更新文本阅读器的主题和排版
+     * @param settings 使用的设置，默认为当前设置；选择主题时用于预览
+     */
+    public updateReadingStyle(settings: PluginSettings = this._state.getSettings()): void {
+        if (!this._view || !this._currentBook || this._disguised || !this._state.isTextBook(this._currentBook)) {
+            return;
+        }
+        this._view.webview.postMessage({
+            type: 'updateReadingStyle',
+            style: this._getReadingStyle(settings, ThemeUtils.getThemeColors()),
+            bookId: this._currentBook.id
+        });
+    }
+
+    /**
+     * 查找阅读主题
+     * @param settings 插件设置
+     * @param themeColors 当前VS Code主题的颜色 - auto主题和找不到主题时使用
+     * @returns 阅读主题，自定义主题优先于同名的内置主题
+     */
+    private _resolveReadingTheme(settings: PluginSettings, themeColors: ThemeColors): ReadingTheme {
+        const legacyNames: { [key: string]: string } = { light: 'paper', dark: 'night' };
+        const name = legacyNames[settings.theme] || settings.theme;
+        const theme = (settings.customThemes || []).find(candidate => candidate && candidate.name === name)
+            || BUILTIN_READING_THEMES.find(candidate => candidate.name === name);
+        const fallback: ReadingTheme = {
+            name: 'auto',
+            background: themeColors.backgroundColor,
+            text: themeColors.textColor,
+            link: themeColors.linkColor,
+            selection: themeColors.selectionColor
+        };
+        // 自定义主题可以只设置部分颜色，缺少的颜色使用VS Code主题的颜色
+        return { ...fallback, ...theme };
+    }
+
+    /**
+     * 生成文本阅读器的CSS变量
+     * @param settings 插件设置
+     * @param themeColors 当前VS Code主题的颜色
+     * @returns CSS变量名到值的映射
+     *
+     * 技术要点：
+     * 设置中的值会被写入style标签，移除其中可能结束CSS声明或HTML标签的字符
+     */
+    private _getReadingStyle(settings: PluginSettings, themeColors: ThemeColors): { [name: string]: string } {
+        const theme = this._resolveReadingTheme(settings, themeColors);
+        const clean = (value: unknown) => String(value ?? '').replace(/[<>{};]/g, '');
+        const number = (value: unknown, fallback: number) => Number.isFinite(Number(value)) ? Number(value) : fallback;
+        const maxWidth = number(settings.maxTextWidth, 0);
+
+        return {
+            '--reader-background': clean(theme.background),
+            '--reader-text': clean(theme.text),
+            '--reader-link': clean(theme.link),
+            '--reader-selection': clean(theme.selection),
+            '--reader-font-family': clean(settings.fontFamily),
+            '--reader-line-height': String(number(settings.lineHeight, 1.8)),
+            '--reader-paragraph-spacing': `${number(settings.paragraphSpacing, 0)}em`,
+            '--reader-text-indent': `${number(settings.textIndent, 0)}em`,
+            '--reader-max-width': maxWidth > 0 ? `${maxWidth}px` : 'none',
+            '--reader-letter-spacing': `${number(settings.letterSpacing, 0)}px`
+        };
+    }
+
+    private _updateFontSize(scrollPosition?: number): void {
+        if (!this._view || !this._currentBook) {
+            console.log('Cannot update font size:', { hasView: !!this._view, hasCurrentBook: !!this._currentBook });
+            return;
+        }
+
+        const fontSize = this._state.getFontSize();
+        console.log('Sending updateFontSize message:', { fontSize: fontSize, bookId: this._currentBook.id });
+
+        this._view.webview.postMessage({
+            type: 'updateFontSize',
+            fontSize: fontSize,
+            bookId: this._currentBook.id
+        });
+
+        if (scrollPosition !== undefined && this._currentBook) {
+            const bookId = this._currentBook.id;
+            console.log('Scheduling scroll position restore:', { scrollPosition: scrollPosition, bookId: bookId });
+            setTimeout(() => {
+                if (this._view) {
+                    console.log('Sending restoreScrollPosition message:', { scrollPosition: scrollPosition, bookId: bookId });
+                    this._view.webview.postMessage({
+                        type: 'restoreScrollPosition',
+                        scrollPosition: scrollPosition,
+                        bookId: bookId
+                    });
+                } else {
+                    console.log('View no longer available for restoreScrollPosition');
+                }
+            }, 100);
+        }
+    }
+
+
+
+    /**
+     * 开始加载PDF文件
+     * @param bookId 书籍ID
+     *
+     * 功能：
+     * 只发送文件长度和开头的一段数据，PDF.js之后通过loadPdfRange消息按需请求其余字节范围，
+     * 大文件无需整体读入内存即可渲染首屏页面
+     */
+    private _loadPdfFile(bookId: string): void {
+        if (!this._view || !this._currentBook || this._currentBook.id !== bookId) {
+            return;
+        }
+
+        try {
+            const length = FileUtils.getFileSize(this._currentBook.path);
+            if (length <= 0) {
+                throw new Error('PDF file is empty or cannot be read');
+            }
+            const initialData = FileUtils.readFilePart(this._currentBook.path, 0, Math.min(length, BookContentViewProvider.PDF_RANGE_CHUNK_SIZE));
+
+            this._view.webview.postMessage({
+                type: 'pdfInfo',
+                length: length,
+                chunkSize: BookContentViewProvider.PDF_RANGE_CHUNK_SIZE,
+                initialData: new Uint8Array(initialData.buffer, initialData.byteOffset, initialData.byteLength),
+                bookId: this._currentBook.id
+            });
+        } catch (error) {
+            console.error('Failed to load PDF file:', error);
+            this._view.webview.postMessage({
+                type: 'pdfError',
+                error: (error as Error).message || 'Failed to load PDF',
+                bookId: this._currentBook.id
+            });
+        }
+    }
+
+    /**
+     * 读取PDF.js请求的字节范围
+     * @param bookId 书籍ID
+     * @param begin 起始字节偏移
+     * @param end 结束字节偏移（不包含）
+     */
+    private _loadPdfRange(bookId: string, begin: number, end: number): void {
+        if (!this._view || !this._currentBook || this._currentBook.id !== bookId) {
+            return;
+        }
+
+        try {
+            const length = FileUtils.getFileSize(this._currentBook.path);
+            const start = Math.max(0, Math.min(begin, length));
+            const data = FileUtils.readFilePart(this._currentBook.path, start, Math.max(start, Math.min(end, length)));
+
+            this._view.webview.postMessage({
+                type: 'pdfRange',
+                begin: start,
+                data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+                bookId: this._currentBook.id
+            });
+        } catch (error) {
+            console.error('Failed to read PDF range:', error);
+            this._view.webview.postMessage({
+                type: 'pdfError',
+                error: (error as Error).message || 'Failed to load PDF',
+                bookId: this._currentBook.id
+            });
+        }
+    }
+
+    /**
+     * 获取当前EPUB书籍的服务实例
+     * @param book EPUB书籍
+     * @returns 已解析的EPUB服务
+     * @throws 当文件不是有效的EPUB时抛出错误
+     */
+    private _getEpubService(book: Book): EpubService {
+        if (!this._epubCache || this._epubCache.bookId !== book.id) {
+            this._epubCache = { bookId: book.id, service: new EpubService(book.path, this._state.getSettings().maxFileSize) };
         }
+        return this._epubCache.service;
     }
 
-    public refreshFontSize(): void {
-        this._updateFontSize();
+    /**
+     * 加载EPUB章节并发送到WebView
+     * @param index 章节序号
+     * @param fragment 章节内的锚点，用于跳转到链接目标
+     */
+    private _loadEpubChapter(index: number, fragment?: string): void {
+        if (!this._view || !this._currentBook) {
+            return;
+        }
+
+        try {
+            const html = this._getEpubService(this._currentBook).getChapterHtml(index);
+            this._view.webview.postMessage({
+                type: 'epubChapter',
+                index: index,
+                html: html,
+                fragment: fragment,
+                bookId: this._currentBook.id
+            });
+        } catch (error) {
+            console.error('Failed to load EPUB chapter:', error);
+            this._view.webview.postMessage({
+                type: 'contentError',
+                error: (error as Error).message || 'Failed to load chapter',
+                bookId: this._currentBook.id
+            });
+        }
     }
 
-    private _updateFontSize(scrollPosition?: number): void {
+    /**
+     * 请求在当前位置添加书签
+     *
+     * 功能：
+     * 向WebView请求当前阅读位置，WebView通过saveBookmark消息返回位置后保存书签
+     */
+    public requestBookmark(): void {
         if (!this._view || !this._currentBook) {
-            console.log('Cannot update font size:', { hasView: !!this._view, hasCurrentBook: !!this._currentBook });
+            vscode.window.showInformationMessage('Open a book before adding a bookmark');
             return;
         }
 
-        const fontSize = this._state.getFontSize();
-        console.log('Sending updateFontSize message:', { fontSize: fontSize, bookId: this._currentBook.id });
+        const ext = path.extname(this._currentBook.path).toLowerCase();
+        if (this._currentBook.type === 'wechat' || ext === '.epub') {
+            vscode.window.showInformationMessage('Bookmarks are only supported for text and PDF books');
+            return;
+        }
 
+        this._view.show?.(true);
         this._view.webview.postMessage({
-            type: 'updateFontSize',
-            fontSize: fontSize,
+            type: 'requestPosition',
             bookId: this._currentBook.id
         });
+    }
 
-        if (scrollPosition !== undefined && this._currentBook) {
-            const bookId = this._currentBook.id;
-            console.log('Scheduling scroll position restore:', { scrollPosition: scrollPosition, bookId: bookId });
-            setTimeout(() => {
-                if (this._view) {
-                    console.log('Sending restoreScrollPosition message:', { scrollPosition: scrollPosition, bookId: bookId });
-                    this._view.webview.postMessage({
-                        type: 'restoreScrollPosition',
-                        scrollPosition: scrollPosition,
-                        bookId: bookId
-                    });
-                } else {
-                    console.log('View no longer available for restoreScrollPosition');
-                }
-            }, 100);
+    /**
+     * 保存书签
+     * @param position WebView报告的位置 - PDF包含page，文本包含所在段落的起止偏移和段落内字符序号
+     *
+     * 功能：
+     * 1. 将WebView报告的位置换算为字节偏移或页码
+     * 2. 询问书签名称，默认使用位置处的文本片段
+     * 3. 保存书签并刷新树视图
+     */
+    private async _saveBookmark(position: BookmarkPositionReport | undefined): Promise<void> {
+        const book = this._currentBook;
+        if (!book || !position) {
+            return;
+        }
+
+        let bookmarkPosition: ReadingPosition;
+        let defaultName: string;
+        const snippet = (typeof position.snippet === 'string' ? position.snippet : '').replace(/\s+/g, ' ').trim();
+
+        try {
+            if (typeof position.page === 'number') {
+                bookmarkPosition = { page: position.page, pageOffset: typeof position.pageOffset === 'number' ? position.pageOffset : 0 };
+                defaultName = `Page ${position.page}`;
+            } else if (typeof position.start === 'number' && typeof position.end === 'number') {
+                const offset = EncodingUtils.getByteOffset(
+                    book.path,
+                    position.start,
+                    position.end,
+                    typeof position.charIndex === 'number' ? position.charIndex : 0,
+                    book.encoding || 'utf8'
+                );
+                bookmarkPosition = { offset: offset };
+                defaultName = snippet.substring(0, 30) || `Offset ${offset}`;
+            } else {
+                return;
+            }
+        } catch (error) {
+            console.error('Failed to resolve bookmark position:', error);
+            vscode.window.showErrorMessage('Failed to add bookmark');
+            return;
         }
-    }
 
+        const name = await vscode.window.showInputBox({
+            prompt: 'Bookmark name',
+            value: defaultName
+        });
+        if (name === undefined) {
+            return;
+        }
 
+        const bookmark = this._state.addBookmark(book.id, name.trim() || defaultName, bookmarkPosition, snippet);
+        if (bookmark) {
+            this._treeDataProvider?.refresh();
+            vscode.window.showInformationMessage(`Bookmark added: ${bookmark.name}`);
+        }
+    }
 
-    private async _loadPdfFile(bookId: string): Promise<void> {
-        if (!this._currentBook || this._currentBook.id !== bookId) {
+    /**
+     * 添加标注
+     * @param data WebView报告的选区 - 起点和终点分别包含所在段落的起止偏移和段落内字符序号
+     *
+     * 功能：
+     * 1. 将选区换算为字节范围
+     * 2. 需要笔记时询问笔记内容
+     * 3. 保存标注，刷新标注视图并重新渲染阅读器中的文本块
+     */
+    private async _addAnnotation(data: WebViewMessage): Promise<void> {
+        const book = this._currentBook;
+        if (!book || !data.selectionStart || !data.selectionEnd) {
             return;
         }
 
+        let range: TextRange;
         try {
-            const pdfData = fs.readFileSync(this._currentBook.path);
-            const base64Data = pdfData.toString('base64');
-
-            if (this._view && this._currentBook) {
-                this._view.webview.postMessage({
-                    type: 'pdfData',
-                    data: base64Data,
-                    bookId: this._currentBook.id
-                });
-            }
+            const encoding = book.encoding || 'utf8';
+            const toOffset = (point: TextSelectionPoint) => EncodingUtils.getByteOffset(book.path, point.start, point.end, point.charIndex || 0, encoding);
+            range = { start: toOffset(data.selectionStart), end: toOffset(data.selectionEnd) };
         } catch (error) {
-            console.error('Failed to load PDF file:', error);
+            console.error('Failed to resolve annotation range:', error);
+            vscode.window.showErrorMessage('Failed to add annotation');
+            return;
+        }
+        if (range.end <= range.start) {
+            return;
+        }
 
-            if (this._view && this._currentBook) {
-                this._view.webview.postMessage({
-                    type: 'pdfError',
-                    error: (error as Error).message || 'Failed to load PDF',
-                    bookId: this._currentBook.id
-                });
+        let note: string | undefined;
+        if (data.withNote) {
+            note = await vscode.window.showInputBox({ prompt: 'Note for the highlighted text' });
+            if (note === undefined) {
+                return;
             }
         }
+
+        const color: AnnotationColor = ANNOTATION_COLORS.includes(data.color) ? data.color : ANNOTATION_COLORS[0];
+        // 只保存开头的一段文本用于识别标注，完整内容可以从字节范围读取
+        const text = String(data.text || '').substring(0, 200);
+        const annotation = this._state.addAnnotation(book.id, range, color, text, note?.trim());
+        if (annotation) {
+            this._annotationsTreeDataProvider?.refresh();
+            this.refreshAnnotations(book.id, annotation);
+        }
     }
 
-    private _saveBookmark(position: any): void {
-        // TODO: 实现书签保存逻辑
-        console.log('Save bookmark:', position);
+    /**
+     * 通知阅读器重新渲染标注
+     * @param bookId 标注所属的书籍ID
+     * @param range 发生变化的字节范围
+     *
+     * 功能：
+     * WebView重新请求与该范围相交的文本块，文本块HTML中包含最新的标注
+     */
+    public refreshAnnotations(bookId: string, range: TextRange): void {
+        if (!this._view || !this._currentBook || this._currentBook.id !== bookId) {
+            return;
+        }
+        this._view.webview.postMessage({
+            type: 'annotationsChanged',
+            start: range.start,
+            end: range.end,
+            bookId: bookId
+        });
     }
 
     private async _syncWechatProgress(bookId: string, _wechatBookId: string): Promise<void> {
@@ -1052,22 +2839,28 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
      * 1. 如果没有当前书籍，返回空状态HTML
      * 2. 如果是微信读书书籍，返回微信读书HTML
      * 3. 如果是PDF文件，返回PDF阅读HTML
-     * 4. 否则，返回文本阅读HTML
+     * 4. 如果是EPUB文件，返回EPUB阅读HTML
+     * 5. 否则，返回文本阅读HTML
      */
-    private _getHtmlForWebview(_webview: vscode.Webview): string {
+    private _getHtmlForWebview(webview: vscode.Webview): string {
         // 获取主题颜色 - 用于适配不同主题
         const themeColors = ThemeUtils.getThemeColors();
         // 获取插件设置 - 用于应用字体大小等设置
         const settings = this._state.getSettings();
 
+        // 老板键伪装状态下只显示假界面
+        if (this._disguised) {
+            return this._getDisguiseHtml(webview, settings);
+        }
+
         // 如果没有当前书籍，返回空状态HTML
         if (!this._currentBook) {
-            return this._getEmptyStateHtml(themeColors);
+            return this._getEmptyStateHtml(webview, themeColors);
         }
 
         // 如果是微信读书书籍，返回微信读书HTML
         if (this._currentBook.type === 'wechat') {
-            return this._getWechatHtml(this._currentBook, themeColors, settings);
+            return this._getWechatHtml(webview, this._currentBook, themeColors, settings);
         }
 
         // 获取文件扩展名 - 用于判断文件类型
@@ -1075,19 +2868,213 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
 
         // 如果是PDF文件，返回PDF阅读HTML
         if (ext === '.pdf') {
-            return this._getPdfHtml(this._currentBook, themeColors, settings);
+            return this._getPdfHtml(webview, this._currentBook, themeColors, settings, this._startPosition || this._currentBook.position);
+        } else if (ext === '.epub') {
+            // 如果是EPUB文件，返回EPUB阅读HTML
+            return this._getEpubHtml(webview, this._currentBook, themeColors, settings);
         } else {
             // 否则，返回文本阅读HTML
-            return this._getTextHtml(this._currentBook, themeColors, settings);
+            return this._getTextHtml(webview, this._currentBook, themeColors, settings, this._startPosition?.offset, this._startHighlight);
+        }
+    }
+
+    /**
+     * 生成WebView的内容安全策略
+     *
+     * 功能：
+     * 默认禁止所有资源，只允许带nonce的脚本、内联样式和data:图片。
+     * PDF阅读器额外允许加载随扩展发布的PDF.js资源，并通过blob: URL创建Worker
+     *
+     * @param webview WebView实例
+     * @param nonce 本次生成HTML使用的nonce
+     * @param allowPdfJs 是否允许加载PDF.js资源
+     * @returns Content-Security-Policy内容
+     */
+    private _getContentSecurityPolicy(webview: vscode.Webview, nonce: string, allowPdfJs: boolean = false): string {
+        const directives = [
+            `default-src 'none'`,
+            `style-src ${webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`
+        ];
+        if (allowPdfJs) {
+            directives.push(
+                `img-src ${webview.cspSource} data: blob:`,
+                `font-src ${webview.cspSource} data:`,
+                `connect-src ${webview.cspSource}`,
+                `worker-src blob:`
+            );
+        } else {
+            directives.push(`img-src data:`);
+        }
+        return directives.join('; ');
+    }
+
+    /**
+     * 生成老板键伪装视图的HTML
+     * @param settings 插件设置 - bossKeyView决定显示的假界面
+     *
+     * 功能：
+     * 使用VS Code主题变量和编辑器字体，使假界面与测试面板、输出面板或大纲视图的外观一致
+     */
+    private _getDisguiseHtml(webview: vscode.Webview, settings: PluginSettings): string {
+        const nonce = SecurityUtils.getNonce();
+        let body: string;
+        let script = '';
+
+        switch (settings.bossKeyView) {
+            case 'logTail':
+                body = '<div id="log"></div>';
+                script = `
+                    const log = document.getElementById('log');
+                    const levels = ['INFO', 'INFO', 'INFO', 'DEBUG', 'DEBUG', 'WARN'];
+                    const messages = [
+                        () => 'http GET /api/v1/orders/' + random(1000, 9999) + ' 200 ' + random(3, 80) + 'ms',
+                        () => 'http POST /api/v1/sessions 201 ' + random(20, 150) + 'ms',
+                        () => 'cache hit key=user:' + random(100, 999) + ' ttl=' + random(10, 300) + 's',
+                        () => 'worker-' + random(1, 8) + ' job completed id=' + Math.random().toString(16).slice(2, 10) + ' duration=' + random(50, 900) + 'ms',
+                        () => 'db pool active=' + random(2, 12) + ' idle=' + random(0, 8) + ' waiting=0',
+                        () => 'scheduler tick queue=' + random(0, 40),
+                        () => 'http GET /healthz 200 1ms'
+                    ];
+
+                    function random(min, max) {
+                        return min + Math.floor(Math.random() * (max - min + 1));
+                    }
+
+                    function appendLine() {
+                        const level = levels[random(0, levels.length - 1)];
+                        const line = document.createElement('div');
+                        line.className = 'line ' + level.toLowerCase();
+                        line.textContent = new Date().toISOString() + ' ' + level.padEnd(5) + ' ' + messages[random(0, messages.length - 1)]();
+                        log.appendChild(line);
+                        while (log.childElementCount > 300) {
+                            log.removeChild(log.firstChild);
+                        }
+                        window.scrollTo(0, document.body.scrollHeight);
+                        setTimeout(appendLine, random(300, 2500));
+                    }
+
+                    for (let i = 0; i < 40; i++) {
+                        appendLine();
+                    }
+                `;
+                break;
+
+            case 'outline': {
+                const symbols: [number, string, string][] = [
+                    [0, 'class', 'RequestRouter'],
+                    [1, 'field', 'routes'],
+                    [1, 'field', 'middlewares'],
+                    [1, 'method', 'constructor'],
+                    [1, 'method', 'register'],
+                    [1, 'method', 'use'],
+                    [1, 'method', 'match'],
+                    [1, 'method', 'dispatch'],
+                    [1, 'method', 'handleError'],
+                    [0, 'interface', 'RouteDefinition'],
+                    [1, 'field', 'method'],
+                    [1, 'field', 'path'],
+                    [1, 'field', 'handler'],
+                    [0, 'function', 'compilePath'],
+                    [0, 'function', 'normalizeHeaders'],
+                    [0, 'constant', 'DEFAULT_TIMEOUT']
+                ];
+                const icons: { [kind: string]: string } = { class: '◆', interface: '◇', method: '⬡', field: '▪', function: '⬡', constant: '▫' };
+                body = symbols.map(([depth, kind, name]) =>
+                    `<div class="symbol" style="padding-left: ${8 + depth * 16}px"><span class="icon ${kind}">${icons[kind]}</span>${name}</div>`
+                ).join('');
+                break;
+            }
+
+            default: {
+                const suites: [string, [string, number][]][] = [
+                    ['ConfigLoader', [['loads defaults when no file exists', 2], ['merges user settings over defaults', 4], ['rejects unknown keys', 1]]],
+                    ['RequestRouter', [['matches static routes', 1], ['extracts path parameters', 2], ['runs middlewares in order', 6], ['returns 404 for unknown routes', 1]]],
+                    ['SessionStore', [['creates a session with expiry', 12], ['refreshes sliding expiration', 8], ['evicts expired sessions', 31]]],
+                    ['RetryPolicy', [['retries transient failures', 103], ['gives up after max attempts', 87], ['does not retry client errors', 2]]]
+                ];
+                const total = suites.reduce((count, [, tests]) => count + tests.length, 0);
+                body = '<div class="line muted">&gt; npm test</div><br>' + suites.map(([suite, tests]) =>
+                    `<div class="line">  ${suite}</div>` + tests.map(([test, duration]) =>
+                        `<div class="line">    <span class="passed">✓</span> ${test}${duration > 75 ? ` <span class="slow">(${duration}ms)</span>` : ''}</div>`
+                    ).join('') + '<br>'
+                ).join('') + `<div class="line"><span class="passed">  ${total} passing</span> <span class="muted">(1s)</span></div>`;
+                break;
+            }
         }
+
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${BookContentViewProvider.DISGUISE_TITLES[settings.bossKeyView] || BookContentViewProvider.DISGUISE_TITLES.testRunner}</title>
+                <style>
+                    body {
+                        margin: 0;
+                        padding: 8px 12px;
+                        font-family: var(--vscode-editor-font-family, monospace);
+                        font-size: var(--vscode-editor-font-size, 13px);
+                        line-height: 1.5;
+                        color: var(--vscode-foreground);
+                        background-color: var(--vscode-sideBar-background, transparent);
+                    }
+                    .line {
+                        white-space: pre;
+                    }
+                    .muted {
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    .passed {
+                        color: var(--vscode-testing-iconPassed, #73c991);
+                    }
+                    .slow, .warn {
+                        color: var(--vscode-editorWarning-foreground, #cca700);
+                    }
+                    .debug {
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    .symbol {
+                        font-family: var(--vscode-font-family);
+                        font-size: var(--vscode-font-size);
+                        line-height: 22px;
+                    }
+                    .symbol .icon {
+                        display: inline-block;
+                        width: 16px;
+                        margin-right: 6px;
+                        text-align: center;
+                    }
+                    .icon.class, .icon.interface {
+                        color: var(--vscode-symbolIcon-classForeground, #ee9d28);
+                    }
+                    .icon.method, .icon.function {
+                        color: var(--vscode-symbolIcon-methodForeground, #b180d7);
+                    }
+                    .icon.field, .icon.constant {
+                        color: var(--vscode-symbolIcon-fieldForeground, #75beff);
+                    }
+                </style>
+            </head>
+            <body>
+                ${body}
+                <script nonce="${nonce}">${script}</script>
+            </body>
+            </html>
+        `;
     }
 
-    private _getEmptyStateHtml(themeColors: any): string {
+    private _getEmptyStateHtml(webview: vscode.Webview, themeColors: ThemeColors): string {
+        const nonce = SecurityUtils.getNonce();
+
         return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce)}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>Book Reader</title>
                 <style>
@@ -1129,7 +3116,7 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                         color: ${themeColors.mutedColor};
                         margin-top: 24px;
                         padding: 12px;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)'};
+                        background-color: ${themeColors.hintBackground};
                         border-radius: 6px;
                     }
                 </style>
@@ -1141,7 +3128,7 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     <p>Select a book from the sidebar to start reading</p>
                     <p>Or add a new book using the "+ Add Book" button</p>
                     <div class="hint">
-                        Supported formats: .txt, .pdf
+                        Supported formats: .txt, .pdf, .epub
                     </div>
                 </div>
             </body>
@@ -1149,14 +3136,30 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
         `;
     }
 
-    private _getPdfHtml(book: Book, themeColors: any, settings: PluginSettings): string {
+    private _getPdfHtml(webview: vscode.Webview, book: Book, themeColors: ThemeColors, settings: PluginSettings, position?: ReadingPosition): string {
         const fontSize = settings.fontSize;
+        // 页码优先使用阅读位置，其次使用保存的PDF状态
+        const pdfState = book.pdfState;
+        const initialPage = Math.max(1, Math.floor(position?.page || pdfState?.currentPage || 1));
+        const initialPageOffset = Math.max(0, Math.min(1, position?.pageOffset || 0));
+        const initialZoom = Math.max(0.25, Math.min(5, pdfState?.zoom || 1.5));
+        const initialRotation = pdfState?.rotation || 0;
+        const initialFitWidth = !!pdfState?.fitWidth;
+        const continuous = settings.pdfScrollMode === 'continuous';
+        const nonce = SecurityUtils.getNonce();
+        // PDF.js随扩展一起发布，通过WebView资源URI加载，无需访问外网
+        const pdfjsRoot = vscode.Uri.joinPath(this._extensionContext.extensionUri, ...BookContentViewProvider.PDFJS_ROOT);
+        const pdfjsUri = webview.asWebviewUri(vscode.Uri.joinPath(pdfjsRoot, 'build', 'pdf.min.js'));
+        const workerUri = webview.asWebviewUri(vscode.Uri.joinPath(pdfjsRoot, 'build', 'pdf.worker.min.js'));
+        const cMapUri = webview.asWebviewUri(vscode.Uri.joinPath(pdfjsRoot, 'cmaps'));
+        const standardFontUri = webview.asWebviewUri(vscode.Uri.joinPath(pdfjsRoot, 'standard_fonts'));
 
         return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce, true)}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>${SecurityUtils.escapeHtml(book.name)}</title>
                 <style>
@@ -1173,6 +3176,12 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                         transition: background-color 0.3s, color 0.3s;
                         font-size: ${fontSize}px;
                         overflow-x: hidden;
+                        /* 页面底色与反色处理一致，暗色主题下页面反色为黑底 */
+                        --pdf-page-background: #fff;
+                    }
+
+                    body.vscode-dark, body.vscode-high-contrast:not(.vscode-high-contrast-light) {
+                        --pdf-page-background: #000;
                     }
 
                     #pdf-container {
@@ -1212,8 +3221,8 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     }
 
                     .control-btn {
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#333' : '#f0f0f0'};
-                        color: ${themeColors.textColor};
+                        background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground};
                         border: 1px solid ${themeColors.borderColor};
                         border-radius: 4px;
                         padding: 8px 16px;
@@ -1226,10 +3235,14 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     }
 
                     .control-btn:hover {
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#444' : '#e0e0e0'};
+                        background-color: ${themeColors.buttonHoverBackground};
                         transform: translateY(-1px);
                     }
 
+                    .control-btn.active {
+                        border-color: ${themeColors.focusBorderColor};
+                    }
+
                     .control-btn:active {
                         transform: translateY(0);
                     }
@@ -1244,16 +3257,177 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                         width: 100%;
                         max-width: 1200px;
                         overflow: auto;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#000' : '#fff'};
+                        background-color: var(--pdf-page-background);
                         border-radius: 8px;
-                        box-shadow: 0 4px 12px ${themeColors.backgroundColor === '#1e1e1e' ? 'rgba(0,0,0,0.3)' : 'rgba(0,0,0,0.1)'};
+                        box-shadow: 0 4px 12px ${themeColors.shadowColor};
                         margin-bottom: 20px;
                     }
 
-                    #pdf-canvas {
-                        display: block;
+                    .pdf-page {
+                        position: relative;
                         margin: 0 auto;
-                        max-width: 100%;
+                        background-color: var(--pdf-page-background);
+                    }
+
+                    .pdf-page canvas {
+                        display: block;
+                    }
+
+                    /* PDF.js文本层 - 透明文字覆盖在画布上，用于选择、复制和查找高亮 */
+                    .textLayer {
+                        position: absolute;
+                        text-align: initial;
+                        inset: 0;
+                        overflow: hidden;
+                        opacity: 0.25;
+                        line-height: 1;
+                        text-size-adjust: none;
+                        forced-color-adjust: none;
+                        transform-origin: 0 0;
+                        z-index: 2;
+                    }
+
+                    .textLayer :is(span, br) {
+                        color: transparent;
+                        position: absolute;
+                        white-space: pre;
+                        cursor: text;
+                        transform-origin: 0% 0%;
+                    }
+
+                    .textLayer span.markedContent {
+                        top: 0;
+                        height: 0;
+                    }
+
+                    .textLayer .highlight {
+                        margin: -1px;
+                        padding: 1px;
+                        background-color: rgba(180, 0, 170, 1);
+                        border-radius: 4px;
+                    }
+
+                    .textLayer .highlight.appended {
+                        position: initial;
+                    }
+
+                    .textLayer .highlight.selected {
+                        background-color: rgba(0, 100, 0, 1);
+                    }
+
+                    .textLayer ::selection {
+                        background: AccentColor;
+                    }
+
+                    .textLayer br::selection {
+                        background: transparent;
+                    }
+
+                    .textLayer .endOfContent {
+                        display: block;
+                        position: absolute;
+                        inset: 100% 0 0;
+                        z-index: -1;
+                        cursor: default;
+                        user-select: none;
+                    }
+
+                    .textLayer[data-main-rotation="90"] {
+                        transform: rotate(90deg) translateY(-100%);
+                    }
+
+                    .textLayer[data-main-rotation="180"] {
+                        transform: rotate(180deg) translate(-100%, -100%);
+                    }
+
+                    .textLayer[data-main-rotation="270"] {
+                        transform: rotate(270deg) translateX(-100%);
+                    }
+
+                    .find-bar {
+                        position: fixed;
+                        top: 8px;
+                        right: 20px;
+                        z-index: 1002;
+                        display: flex;
+                        align-items: center;
+                        gap: 6px;
+                        padding: 6px 8px;
+                        border: 1px solid ${themeColors.borderColor};
+                        border-radius: 6px;
+                        background-color: ${themeColors.surfaceColor};
+                        box-shadow: 0 2px 8px ${themeColors.shadowColor};
+                    }
+
+                    .find-bar[hidden] {
+                        display: none;
+                    }
+
+                    .find-bar input {
+                        width: 160px;
+                        padding: 4px 6px;
+                        border: 1px solid ${themeColors.borderColor};
+                        border-radius: 4px;
+                        background-color: ${themeColors.inputBackground};
+                        color: ${themeColors.inputForeground};
+                    }
+
+                    .find-bar .control-btn {
+                        padding: 4px 8px;
+                    }
+
+                    .find-count {
+                        min-width: 48px;
+                        font-size: 12px;
+                        text-align: center;
+                        color: ${themeColors.mutedColor};
+                    }
+
+                    #pdf-pages.continuous .pdf-page {
+                        margin-bottom: 12px;
+                    }
+
+                    .outline-panel {
+                        position: fixed;
+                        top: 0;
+                        left: 0;
+                        bottom: 0;
+                        width: min(320px, 80vw);
+                        overflow-y: auto;
+                        padding: 16px;
+                        z-index: 1001;
+                        background-color: ${themeColors.surfaceColor};
+                        border-right: 1px solid ${themeColors.borderColor};
+                        box-shadow: 2px 0 12px ${themeColors.shadowColor};
+                    }
+
+                    .outline-panel[hidden] {
+                        display: none;
+                    }
+
+                    .outline-title {
+                        font-weight: 600;
+                        margin-bottom: 12px;
+                    }
+
+                    .outline-panel ul {
+                        list-style: none;
+                        padding-left: 12px;
+                    }
+
+                    #outline-list > ul {
+                        padding-left: 0;
+                    }
+
+                    .outline-item {
+                        display: inline-block;
+                        padding: 4px 0;
+                        cursor: pointer;
+                        color: ${themeColors.textColor};
+                    }
+
+                    .outline-item:hover {
+                        text-decoration: underline;
                     }
 
                     .page-navigation {
@@ -1269,14 +3443,14 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                         text-align: center;
                         border: 1px solid ${themeColors.borderColor};
                         border-radius: 4px;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#333' : '#fff'};
-                        color: ${themeColors.textColor};
+                        background-color: ${themeColors.inputBackground};
+                        color: ${themeColors.inputForeground};
                         font-size: 14px;
                     }
 
                     .page-input:focus {
                         outline: none;
-                        border-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#666' : '#999'};
+                        border-color: ${themeColors.focusBorderColor};
                     }
 
                     .page-info {
@@ -1330,50 +3504,152 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                             justify-content: center;
                         }
                     }
+                    ${ThemeUtils.getHighContrastCss('button')}
                 </style>
                 <!-- PDF.js -->
-                <script src="https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js"></script>
+                <script nonce="${nonce}" src="${pdfjsUri}"></script>
             </head>
             <body>
                 <div id="pdf-container">
                     <div class="pdf-header">
                         <div class="book-title">${SecurityUtils.escapeHtml(book.name)}</div>
+                        <div class="pdf-controls">
+                            <button id="toggle-outline" class="control-btn" title="Outline" disabled>☰</button>
+                            <button id="open-find" class="control-btn" title="Find (Ctrl+F)">🔍</button>
+                            <div class="zoom-controls">
+                                <button id="zoom-out" class="control-btn" title="Zoom Out">−</button>
+                                <span id="zoom-value" class="zoom-value">${Math.round(initialZoom * 100)}%</span>
+                                <button id="zoom-in" class="control-btn" title="Zoom In">+</button>
+                            </div>
+                            <button id="fit-width" class="control-btn" title="Fit Width">↔</button>
+                            <button id="rotate" class="control-btn" title="Rotate Clockwise">⟳</button>
+                            <button id="scroll-mode" class="control-btn" title="${continuous ? 'Single Page Mode' : 'Continuous Scroll Mode'}">${continuous ? '▭' : '☷'}</button>
+                        </div>
                     </div>
 
                     <div id="pdf-canvas-container">
                         <div id="loading" class="loading">Loading PDF...</div>
-                        <canvas id="pdf-canvas"></canvas>
+                        <div id="pdf-pages" class="${continuous ? 'continuous' : 'single'}"></div>
                     </div>
                 </div>
 
+                <!-- 查找栏 -->
+                <div id="find-bar" class="find-bar" hidden>
+                    <input id="find-input" type="text" placeholder="Find in document">
+                    <span id="find-count" class="find-count"></span>
+                    <button id="find-prev" class="control-btn" title="Previous Match (Shift+Enter)">↑</button>
+                    <button id="find-next" class="control-btn" title="Next Match (Enter)">↓</button>
+                    <button id="find-close" class="control-btn" title="Close (Escape)">×</button>
+                </div>
+
+                <!-- 目录面板 -->
+                <div id="outline-panel" class="outline-panel" hidden>
+                    <div class="outline-title">Outline</div>
+                    <div id="outline-list"></div>
+                </div>
+
                 <!-- 右侧控制按钮 -->
                 <div style="position: fixed; right: 20px; top: 50%; transform: translateY(-50%); z-index: 1000; display: flex; flex-direction: column; gap: 10px; opacity: 0.5; transition: opacity 0.2s;">
-                    <div style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.backgroundColor === '#1e1e1e' ? 'rgba(51, 51, 51, 0.8)' : 'rgba(240, 240, 240, 0.8)'};
-                        color: ${themeColors.textColor}; font-size: 14px; text-align: center; min-width: 60px;">Page <span id="current-page-display">1</span>/<span id="total-pages-display">?</span></div>
-                    <button id="prev-page" style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.backgroundColor === '#1e1e1e' ? 'rgba(51, 51, 51, 0.8)' : 'rgba(240, 240, 240, 0.8)'};
-                        color: ${themeColors.textColor}; cursor: pointer; font-size: 14px;">←</button>
-                    <button id="next-page" style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.backgroundColor === '#1e1e1e' ? 'rgba(51, 51, 51, 0.8)' : 'rgba(240, 240, 240, 0.8)'};
-                        color: ${themeColors.textColor}; cursor: pointer; font-size: 14px;">→</button>
+                    <div style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground}; font-size: 14px; text-align: center; min-width: 60px;">Page <span id="current-page-display">1</span>/<span id="total-pages-display">?</span></div>
+                    <button id="prev-page" style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground}; cursor: pointer; font-size: 14px;">←</button>
+                    <button id="next-page" style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground}; cursor: pointer; font-size: 14px;">→</button>
+                    <button id="add-bookmark" title="Add Bookmark" style="padding: 10px; border: 1px solid ${themeColors.borderColor}; border-radius: 5px; background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground}; cursor: pointer; font-size: 14px;">🔖</button>
                 </div>
 
-                <script>
+                <script nonce="${nonce}">
                     const vscode = acquireVsCodeApi();
-                    const isDarkTheme = ${themeColors.backgroundColor === '#1e1e1e'};
                     const currentBookId = '${book.id}';
+                    // 连续滚动模式 - 所有页面纵向排列，只渲染可见附近的页面
+                    const continuous = ${continuous};
 
                     // PDF状态
                     let pdfDoc = null;
-                    let currentPage = 1;
+                    let currentPage = ${initialPage};
+                    // 页内偏移 - 页面顶部滚出视口的比例，与页码一起构成精确的阅读位置
+                    const initialPageOffset = ${initialPageOffset};
                     let totalPages = 0;
-                    let zoom = 1.5;
+                    let zoom = ${initialZoom};
+                    let rotation = ${initialRotation};
+                    // 适应宽度 - 开启时每次渲染按容器宽度重新计算缩放比例
+                    let fitWidth = ${initialFitWidth};
                     let isRendering = false;
+                    // 单页模式下渲染过程中收到的页码，当前渲染结束后再渲染
+                    let pendingPage = null;
+
+                    const MIN_ZOOM = 0.25;
+                    const MAX_ZOOM = 5;
+                    const ZOOM_STEP = 1.25;
+                    // 连续滚动模式下最多保留的已渲染页面数，超出后释放离当前页最远的页面
+                    const MAX_RENDERED_PAGES = 10;
 
                     // 元素
-                    const canvas = document.getElementById('pdf-canvas');
-                    const ctx = canvas.getContext('2d');
                     const loadingEl = document.getElementById('loading');
                     const currentPageDisplay = document.getElementById('current-page-display');
                     const totalPagesDisplay = document.getElementById('total-pages-display');
+                    const canvasContainer = document.getElementById('pdf-canvas-container');
+                    const pagesContainer = document.getElementById('pdf-pages');
+                    const zoomValue = document.getElementById('zoom-value');
+                    const fitWidthButton = document.getElementById('fit-width');
+                    const outlineButton = document.getElementById('toggle-outline');
+                    const outlinePanel = document.getElementById('outline-panel');
+                    const outlineList = document.getElementById('outline-list');
+                    const findBar = document.getElementById('find-bar');
+                    const findInput = document.getElementById('find-input');
+                    const findCount = document.getElementById('find-count');
+                    fitWidthButton.classList.toggle('active', fitWidth);
+
+                    // 页面元素 - 单页模式只有一个，连续模式每页一个
+                    let pageElements = [];
+                    // 页面在缩放比例为1时的尺寸（已包含页面自身的旋转），未读取的页面使用第1页的尺寸
+                    const baseSizes = {};
+                    // 连续模式下已渲染和处于可见区域的页码
+                    const renderedPages = new Set();
+                    const visiblePages = new Set();
+                    // 页面文本缓存 - 文本层和查找使用同一份文本内容，保证匹配位置与文本层元素一一对应
+                    const pageTexts = new Map();
+                    // 已渲染的文本层 - 页码到文本层元素和对应文本的映射
+                    const textLayers = new Map();
+                    // 查找结果 - 每个匹配记录页码和在页面文本中的起止位置
+                    let findQuery = '';
+                    let findMatches = [];
+                    let selectedMatch = -1;
+                    // 查找序号 - 输入变化后丢弃旧的查找
+                    let findToken = 0;
+                    // 选中的匹配所在页面渲染完成后，将其滚动到可见区域
+                    let scrollToSelectedMatch = false;
+                    // 连续模式下页面进入可见区域附近时才渲染
+                    const pageObserver = continuous ? new IntersectionObserver(handlePageIntersection, { rootMargin: '100% 0px' }) : null;
+
+                    // WebView不能直接从资源URI创建Worker，先读取Worker脚本再通过blob: URL创建
+                    const workerReady = fetch('${workerUri}')
+                        .then(response => response.text())
+                        .then(source => {
+                            const blob = new Blob([source], { type: 'text/javascript' });
+                            pdfjsLib.GlobalWorkerOptions.workerSrc = URL.createObjectURL(blob);
+                        });
+
+                    // 通过扩展按需读取PDF字节范围的传输层
+                    class ExtensionRangeTransport extends pdfjsLib.PDFDataRangeTransport {
+                        requestDataRange(begin, end) {
+                            vscode.postMessage({ type: 'loadPdfRange', begin: begin, end: end, bookId: currentBookId });
+                        }
+                    }
+                    let rangeTransport = null;
+
+                    // VS Code在body上设置主题类名，主题切换时类名随之更新
+                    function isDarkTheme() {
+                        const classes = document.body.classList;
+                        return classes.contains('vscode-dark') ||
+                            (classes.contains('vscode-high-contrast') && !classes.contains('vscode-high-contrast-light'));
+                    }
+
+                    function toBytes(data) {
+                        return data instanceof Uint8Array ? data : new Uint8Array(data);
+                    }
 
                     // 初始化
                     loadPDF();
@@ -1399,96 +3675,646 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                             return;
                         }
 
-                        if (message.type === 'pdfData') {
+                        if (message.type === 'pdfInfo') {
                             try {
-                                const binaryString = atob(message.data);
-                                const len = binaryString.length;
-                                const bytes = new Uint8Array(len);
-                                for (let i = 0; i < len; i++) {
-                                    bytes[i] = binaryString.charCodeAt(i);
-                                }
-                                const arrayBuffer = bytes.buffer;
-
+                                await workerReady;
+                                rangeTransport = new ExtensionRangeTransport(message.length, toBytes(message.initialData));
                                 const loadingTask = pdfjsLib.getDocument({
-                                    data: arrayBuffer,
-                                    cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/cmaps/',
-                                    cMapPacked: true
+                                    range: rangeTransport,
+                                    length: message.length,
+                                    rangeChunkSize: message.chunkSize,
+                                    // 只请求渲染当前页面需要的数据，不在后台读取整个文件
+                                    disableAutoFetch: true,
+                                    disableStream: true,
+                                    cMapUrl: '${cMapUri}/',
+                                    cMapPacked: true,
+                                    standardFontDataUrl: '${standardFontUri}/',
+                                    // 由页面而不是Worker读取cMap和字体，Worker运行在blob: URL中
+                                    useWorkerFetch: false,
+                                    // 内容安全策略禁止eval
+                                    isEvalSupported: false
                                 });
 
                                 pdfDoc = await loadingTask.promise;
                                 totalPages = pdfDoc.numPages;
+                                currentPage = Math.min(currentPage, totalPages);
                                 currentPageDisplay.textContent = currentPage;
                                 totalPagesDisplay.textContent = totalPages;
                                 loadingEl.style.display = 'none';
 
-                                await renderPage(currentPage);
-                                updateProgress();
+                                await loadBaseSize(currentPage);
+                                await updateFitZoom();
+                                buildPages();
+                                if (continuous) {
+                                    scrollToPageOffset(currentPage, initialPageOffset);
+                                } else {
+                                    await renderPage(currentPage);
+                                    scrollToPageOffset(currentPage, initialPageOffset);
+                                }
+                                reportPosition();
+                                savePdfState();
+                                loadOutline();
 
                             } catch (error) {
                                 showError('Failed to process PDF: ' + error.message);
                             }
 
+                        } else if (message.type === 'pdfRange') {
+                            if (rangeTransport) {
+                                rangeTransport.onDataRange(message.begin, toBytes(message.data));
+                            }
                         } else if (message.type === 'pdfError') {
                             showError(message.error || 'Failed to load PDF');
+                        } else if (message.type === 'requestPosition') {
+                            saveBookmark();
+                        } else if (message.type === 'flushPosition') {
+                            // 老板键伪装前立即上报位置，不等待滚动防抖
+                            clearTimeout(scrollTimeout);
+                            reportPosition();
+                            savePdfState();
+                            vscode.postMessage({ type: 'positionFlushed' });
                         }
                     });
 
+                    // 读取页面在缩放比例为1时的尺寸
+                    async function loadBaseSize(pageNum) {
+                        if (baseSizes[pageNum]) return baseSizes[pageNum];
+                        const page = await pdfDoc.getPage(pageNum);
+                        const viewport = page.getViewport({ scale: 1 });
+                        baseSizes[pageNum] = { width: viewport.width, height: viewport.height };
+                        return baseSizes[pageNum];
+                    }
+
+                    // 页面按当前缩放和旋转显示时的尺寸
+                    function getPageSize(pageNum) {
+                        const base = baseSizes[pageNum] || baseSizes[currentPage] || { width: 612, height: 792 };
+                        const swapped = rotation % 180 !== 0;
+                        return {
+                            width: Math.floor((swapped ? base.height : base.width) * zoom),
+                            height: Math.floor((swapped ? base.width : base.height) * zoom)
+                        };
+                    }
+
+                    function applyPageSize(element, pageNum) {
+                        const size = getPageSize(pageNum);
+                        element.style.width = size.width + 'px';
+                        element.style.height = size.height + 'px';
+                    }
+
+                    // 创建页面元素 - 连续模式下为每页创建占位元素，进入可见区域时再渲染
+                    function buildPages() {
+                        if (pageObserver) {
+                            pageObserver.disconnect();
+                        }
+                        renderedPages.clear();
+                        visiblePages.clear();
+                        textLayers.clear();
+                        pagesContainer.replaceChildren();
+
+                        const count = continuous ? totalPages : 1;
+                        pageElements = [];
+                        for (let i = 1; i <= count; i++) {
+                            const element = document.createElement('div');
+                            element.className = 'pdf-page';
+                            element.dataset.page = String(i);
+                            applyPageSize(element, continuous ? i : currentPage);
+                            pagesContainer.appendChild(element);
+                            pageElements.push(element);
+                            if (pageObserver) {
+                                pageObserver.observe(element);
+                            }
+                        }
+                    }
+
+                    function getPageElement(pageNum) {
+                        return continuous ? pageElements[pageNum - 1] : pageElements[0];
+                    }
+
+                    // 将页面渲染到页面元素中 - 新画布渲染完成后再替换旧画布，避免闪烁
+                    async function drawPage(element, pageNum) {
+                        const page = await pdfDoc.getPage(pageNum);
+                        if (!baseSizes[pageNum]) {
+                            const unscaled = page.getViewport({ scale: 1 });
+                            baseSizes[pageNum] = { width: unscaled.width, height: unscaled.height };
+                        }
+                        const viewport = page.getViewport({ scale: zoom, rotation: (page.rotate + rotation) % 360 });
+
+                        // 按设备像素比绘制，高分屏下保持清晰
+                        const outputScale = window.devicePixelRatio || 1;
+                        const canvas = document.createElement('canvas');
+                        canvas.width = Math.floor(viewport.width * outputScale);
+                        canvas.height = Math.floor(viewport.height * outputScale);
+                        canvas.style.width = Math.floor(viewport.width) + 'px';
+                        canvas.style.height = Math.floor(viewport.height) + 'px';
+                        const ctx = canvas.getContext('2d');
+
+                        // 设置背景
+                        const invertColors = isDarkTheme();
+                        ctx.fillStyle = invertColors ? '#000000' : '#ffffff';
+                        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+                        const renderContext = {
+                            canvasContext: ctx,
+                            viewport: viewport,
+                            transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : null
+                        };
+
+                        await page.render(renderContext).promise;
+
+                        // 暗色主题反色处理
+                        if (invertColors) {
+                            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                            const data = imageData.data;
+
+                            for (let i = 0; i < data.length; i += 4) {
+                                // 反转RGB颜色
+                                data[i] = 255 - data[i];     // R
+                                data[i + 1] = 255 - data[i + 1]; // G
+                                data[i + 2] = 255 - data[i + 2]; // B
+                                // 保持透明度不变
+                            }
+
+                            ctx.putImageData(imageData, 0, 0);
+                        }
+
+                        // 文本层 - 用于选择、复制文字和显示查找高亮
+                        const pageText = await getPageText(pageNum, page);
+                        const textLayer = document.createElement('div');
+                        textLayer.className = 'textLayer';
+                        const textDivs = [];
+                        await pdfjsLib.renderTextLayer({
+                            textContentSource: pageText.textContent,
+                            container: textLayer,
+                            viewport: viewport,
+                            textDivs: textDivs
+                        }).promise;
+
+                        // 实际尺寸与占位尺寸不同时，补偿视口上方页面的高度变化，保持当前内容不动
+                        const rect = element.getBoundingClientRect();
+                        const previousHeight = rect.height;
+                        element.style.setProperty('--scale-factor', String(viewport.scale));
+                        element.replaceChildren(canvas, textLayer);
+                        applyPageSize(element, pageNum);
+                        if (rect.bottom < 0) {
+                            window.scrollBy(0, element.getBoundingClientRect().height - previousHeight);
+                        }
+
+                        if (!continuous) {
+                            textLayers.clear();
+                        }
+                        textLayers.set(pageNum, { textDivs: textDivs, pageText: pageText });
+                        highlightPage(pageNum);
+                        if (scrollToSelectedMatch && findMatches[selectedMatch] && findMatches[selectedMatch].page === pageNum) {
+                            scrollToSelectedMatch = false;
+                            scrollSelectedMatchIntoView();
+                        }
+                    }
+
+                    // 读取页面文本 - 文本项依次拼接，行尾补一个空格，使跨行的词组也能被查找到
+                    async function getPageText(pageNum, page) {
+                        if (pageTexts.has(pageNum)) return pageTexts.get(pageNum);
+                        const pdfPage = page || await pdfDoc.getPage(pageNum);
+                        const textContent = await pdfPage.getTextContent();
+                        const itemStrs = [];
+                        const itemStarts = [];
+                        let text = '';
+                        for (const item of textContent.items) {
+                            if (item.str === undefined) continue;
+                            itemStrs.push(item.str);
+                            itemStarts.push(text.length);
+                            text += item.str;
+                            if (item.hasEOL) {
+                                text += ' ';
+                            }
+                        }
+                        const pageText = { textContent: textContent, itemStrs: itemStrs, itemStarts: itemStarts, text: text.toLowerCase() };
+                        pageTexts.set(pageNum, pageText);
+                        return pageText;
+                    }
+
+                    // 单页模式下渲染指定页面
                     async function renderPage(pageNum) {
-                        if (!pdfDoc || isRendering) return;
+                        if (!pdfDoc) return;
 
-                        isRendering = true;
                         currentPage = pageNum;
                         currentPageDisplay.textContent = currentPage;
+                        if (isRendering) {
+                            pendingPage = pageNum;
+                            return;
+                        }
+                        isRendering = true;
 
                         try {
-                            const page = await pdfDoc.getPage(pageNum);
-                            const viewport = page.getViewport({ scale: zoom });
-
-                            canvas.width = viewport.width;
-                            canvas.height = viewport.height;
-
-                            // 设置背景
-                            ctx.fillStyle = isDarkTheme ? '#000000' : '#ffffff';
-                            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-                            const renderContext = {
-                                canvasContext: ctx,
-                                viewport: viewport
-                            };
-
-                            await page.render(renderContext).promise;
-
-                            // 暗色主题反色处理
-                            if (isDarkTheme) {
-                                const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                                const data = imageData.data;
-
-                                for (let i = 0; i < data.length; i += 4) {
-                                    // 反转RGB颜色
-                                    data[i] = 255 - data[i];     // R
-                                    data[i + 1] = 255 - data[i + 1]; // G
-                                    data[i + 2] = 255 - data[i + 2]; // B
-                                    // 保持透明度不变
-                                }
-
-                                ctx.putImageData(imageData, 0, 0);
-                            }
+                            await updateFitZoom();
+                            updateZoomDisplay();
+                            await drawPage(pageElements[0], pageNum);
                         } catch (error) {
                             console.error('Error rendering page:', error);
                             showError('Failed to render page ' + pageNum);
                         } finally {
                             isRendering = false;
                         }
+
+                        if (pendingPage !== null) {
+                            const nextPage = pendingPage;
+                            pendingPage = null;
+                            await renderPage(nextPage);
+                        }
+                    }
+
+                    // 连续模式下页面进入或离开可见区域
+                    function handlePageIntersection(entries) {
+                        for (const entry of entries) {
+                            const pageNum = Number(entry.target.dataset.page);
+                            if (entry.isIntersecting) {
+                                visiblePages.add(pageNum);
+                                renderVisiblePage(pageNum);
+                            } else {
+                                visiblePages.delete(pageNum);
+                            }
+                        }
+                    }
+
+                    function renderVisiblePage(pageNum) {
+                        if (!pdfDoc || renderedPages.has(pageNum)) return;
+                        renderedPages.add(pageNum);
+                        drawPage(pageElements[pageNum - 1], pageNum)
+                            .then(evictPages)
+                            .catch(error => {
+                                console.error('Error rendering page:', error);
+                                renderedPages.delete(pageNum);
+                            });
+                    }
+
+                    // 释放离当前页最远且不在可见区域的页面画布，控制内存占用
+                    function evictPages() {
+                        if (renderedPages.size <= MAX_RENDERED_PAGES) return;
+                        const candidates = Array.from(renderedPages)
+                            .filter(pageNum => !visiblePages.has(pageNum))
+                            .sort((a, b) => Math.abs(b - currentPage) - Math.abs(a - currentPage));
+                        while (renderedPages.size > MAX_RENDERED_PAGES && candidates.length > 0) {
+                            const pageNum = candidates.shift();
+                            pageElements[pageNum - 1].replaceChildren();
+                            renderedPages.delete(pageNum);
+                            textLayers.delete(pageNum);
+                        }
+                    }
+
+                    // 连续模式下视口顶部所在的页面
+                    function findPageAtTop() {
+                        let low = 0;
+                        let high = pageElements.length - 1;
+                        let result = 1;
+                        while (low <= high) {
+                            const mid = (low + high) >> 1;
+                            if (pageElements[mid].getBoundingClientRect().bottom > 0) {
+                                result = mid + 1;
+                                high = mid - 1;
+                            } else {
+                                low = mid + 1;
+                            }
+                        }
+                        return result;
+                    }
+
+                    function clampZoom(value) {
+                        return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, value));
+                    }
+
+                    // 适应宽度时按当前页面和容器宽度计算缩放比例
+                    async function updateFitZoom() {
+                        if (!fitWidth) return;
+                        const base = await loadBaseSize(currentPage);
+                        const width = rotation % 180 !== 0 ? base.height : base.width;
+                        zoom = clampZoom(canvasContainer.clientWidth / width);
+                    }
+
+                    function updateZoomDisplay() {
+                        zoomValue.textContent = Math.round(zoom * 100) + '%';
+                        fitWidthButton.classList.toggle('active', fitWidth);
+                    }
+
+                    // 保存页码、缩放比例和旋转角度，下次打开时恢复
+                    function savePdfState() {
+                        if (totalPages <= 0) return;
+                        vscode.postMessage({
+                            type: 'updatePdfState',
+                            pdfState: {
+                                currentPage: currentPage,
+                                totalPages: totalPages,
+                                zoom: zoom,
+                                rotation: rotation,
+                                fitWidth: fitWidth
+                            },
+                            bookId: currentBookId
+                        });
+                    }
+
+                    // 缩放或旋转后重新渲染，并保持页内阅读位置
+                    async function rerender() {
+                        if (!pdfDoc) return;
+                        const pageNum = currentPage;
+                        const pageOffset = getPageOffset();
+                        if (continuous) {
+                            await updateFitZoom();
+                            updateZoomDisplay();
+                            buildPages();
+                            scrollToPageOffset(pageNum, pageOffset);
+                        } else {
+                            await renderPage(pageNum);
+                            scrollToPageOffset(pageNum, pageOffset);
+                        }
+                        savePdfState();
+                    }
+
+                    function setZoom(value) {
+                        fitWidth = false;
+                        zoom = clampZoom(value);
+                        rerender();
+                    }
+
+                    // 当前页面顶部滚出视口的比例（0-1）
+                    function getPageOffset() {
+                        const element = getPageElement(currentPage);
+                        if (!element) return 0;
+                        const rect = element.getBoundingClientRect();
+                        if (rect.height <= 0) return 0;
+                        return Math.max(0, Math.min(1, -rect.top / rect.height));
+                    }
+
+                    function scrollToPageOffset(pageNum, pageOffset) {
+                        const element = getPageElement(pageNum);
+                        // 从页面顶部开始阅读时，单页模式和第1页保留标题栏可见
+                        if (!element || (pageOffset <= 0 && (!continuous || pageNum === 1))) {
+                            window.scrollTo(0, 0);
+                            return;
+                        }
+                        const rect = element.getBoundingClientRect();
+                        window.scrollTo(0, rect.top + window.scrollY + pageOffset * rect.height);
+                    }
+
+                    // 上报阅读位置 - 页码和页内偏移，进度按已读页数推算
+                    function getPosition() {
+                        const pageOffset = Math.round(getPageOffset() * 10000) / 10000;
+                        return {
+                            position: { page: currentPage, pageOffset: pageOffset },
+                            progress: totalPages > 0 ? ((currentPage - 1 + pageOffset) / totalPages) * 100 : 0
+                        };
+                    }
+
+                    function reportPosition() {
+                        if (totalPages <= 0) return;
+                        const current = getPosition();
+                        vscode.postMessage({
+                            type: 'updatePosition',
+                            position: current.position,
+                            progress: current.progress,
+                            bookId: currentBookId
+                        });
+                    }
+
+                    // 跳转到指定页面的顶部
+                    async function goToPage(pageNum) {
+                        if (!pdfDoc) return;
+                        pageNum = Math.max(1, Math.min(totalPages, pageNum));
+                        if (continuous) {
+                            currentPage = pageNum;
+                            currentPageDisplay.textContent = currentPage;
+                            scrollToPageOffset(pageNum, 0);
+                        } else {
+                            await renderPage(pageNum);
+                            scrollToPageOffset(pageNum, 0);
+                        }
+                        reportPosition();
+                        savePdfState();
+                    }
+
+                    function saveBookmark() {
+                        if (!pdfDoc) return;
+                        vscode.postMessage({
+                            type: 'saveBookmark',
+                            position: { page: currentPage, pageOffset: getPageOffset(), snippet: 'Page ' + currentPage },
+                            bookId: currentBookId
+                        });
+                    }
+
+                    // 读取文档目录，显示在目录面板中并发送给扩展显示在书籍列表中
+                    async function loadOutline() {
+                        try {
+                            const outline = await resolveOutline(await pdfDoc.getOutline() || []);
+                            outlineButton.disabled = outline.length === 0;
+                            renderOutline(outline, outlineList);
+                            vscode.postMessage({ type: 'pdfOutline', outline: outline, bookId: currentBookId });
+                        } catch (error) {
+                            console.error('Failed to load outline:', error);
+                        }
+                    }
+
+                    async function resolveOutline(items) {
+                        const result = [];
+                        for (const item of items) {
+                            let page;
+                            try {
+                                page = await resolveDestination(item.dest);
+                            } catch (error) {
+                                page = undefined;
+                            }
+                            result.push({ title: item.title, page: page, items: await resolveOutline(item.items || []) });
+                        }
+                        return result;
+                    }
+
+                    // 将目录项的目标（命名目标或显式目标）解析为页码
+                    async function resolveDestination(dest) {
+                        const explicit = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest;
+                        if (!Array.isArray(explicit) || explicit[0] === null || explicit[0] === undefined) {
+                            return undefined;
+                        }
+                        const target = explicit[0];
+                        const index = typeof target === 'object' ? await pdfDoc.getPageIndex(target) : target;
+                        return Number.isInteger(index) ? index + 1 : undefined;
+                    }
+
+                    function renderOutline(items, container) {
+                        const list = document.createElement('ul');
+                        for (const item of items) {
+                            const entry = document.createElement('li');
+                            const link = document.createElement('a');
+                            link.className = 'outline-item';
+                            link.textContent = item.title;
+                            if (item.page !== undefined) {
+                                link.title = 'Page ' + item.page;
+                                link.addEventListener('click', () => {
+                                    outlinePanel.hidden = true;
+                                    goToPage(item.page);
+                                });
+                            }
+
+                            if (item.items.length > 0) {
+                                const details = document.createElement('details');
+                                const summary = document.createElement('summary');
+                                summary.appendChild(link);
+                                details.appendChild(summary);
+                                renderOutline(item.items, details);
+                                entry.appendChild(details);
+                            } else {
+                                entry.appendChild(link);
+                            }
+                            list.appendChild(entry);
+                        }
+                        container.appendChild(list);
+                    }
+
+                    // 在页面文本层中高亮查找结果，选中的匹配使用不同颜色
+                    function highlightPage(pageNum) {
+                        const layer = textLayers.get(pageNum);
+                        if (!layer) return;
+                        const { textDivs, pageText } = layer;
+
+                        // 还原上次高亮过的文本元素
+                        textDivs.forEach((div, index) => {
+                            if (div.dataset.highlighted) {
+                                div.textContent = pageText.itemStrs[index];
+                                delete div.dataset.highlighted;
+                            }
+                        });
+
+                        // 将匹配范围拆分到各个文本项
+                        const ranges = new Map();
+                        findMatches.forEach((match, matchIndex) => {
+                            if (match.page !== pageNum) return;
+                            for (let i = 0; i < pageText.itemStrs.length; i++) {
+                                const itemStart = pageText.itemStarts[i];
+                                const itemEnd = itemStart + pageText.itemStrs[i].length;
+                                if (itemEnd <= match.start) continue;
+                                if (itemStart >= match.end) break;
+                                if (!ranges.has(i)) ranges.set(i, []);
+                                ranges.get(i).push({
+                                    start: Math.max(match.start, itemStart) - itemStart,
+                                    end: Math.min(match.end, itemEnd) - itemStart,
+                                    selected: matchIndex === selectedMatch
+                                });
+                            }
+                        });
+
+                        for (const [index, itemRanges] of ranges) {
+                            const div = textDivs[index];
+                            const text = pageText.itemStrs[index];
+                            if (!div) continue;
+                            div.textContent = '';
+                            let position = 0;
+                            for (const range of itemRanges) {
+                                div.appendChild(document.createTextNode(text.substring(position, range.start)));
+                                const span = document.createElement('span');
+                                span.className = 'highlight appended' + (range.selected ? ' selected' : '');
+                                span.textContent = text.substring(range.start, range.end);
+                                div.appendChild(span);
+                                position = range.end;
+                            }
+                            div.appendChild(document.createTextNode(text.substring(position)));
+                            div.dataset.highlighted = 'true';
+                        }
+                    }
+
+                    function highlightAllPages() {
+                        for (const pageNum of textLayers.keys()) {
+                            highlightPage(pageNum);
+                        }
+                    }
+
+                    function scrollSelectedMatchIntoView() {
+                        const selected = pagesContainer.querySelector('.highlight.selected');
+                        if (selected) {
+                            selected.scrollIntoView({ block: 'center', inline: 'nearest' });
+                        }
+                    }
+
+                    function updateFindCount() {
+                        if (!findQuery) {
+                            findCount.textContent = '';
+                        } else if (findMatches.length === 0) {
+                            findCount.textContent = 'No results';
+                        } else {
+                            findCount.textContent = (selectedMatch + 1) + '/' + findMatches.length;
+                        }
+                    }
+
+                    // 逐页查找 - 页面文本按需读取，输入变化后旧的查找会被丢弃
+                    async function runFind(query) {
+                        const token = ++findToken;
+                        findQuery = query.toLowerCase();
+                        findMatches = [];
+                        selectedMatch = -1;
+                        highlightAllPages();
+                        if (!findQuery || !pdfDoc) {
+                            updateFindCount();
+                            return;
+                        }
+
+                        const matches = [];
+                        for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+                            const pageText = await getPageText(pageNum);
+                            if (token !== findToken) return;
+                            let index = pageText.text.indexOf(findQuery);
+                            while (index >= 0) {
+                                matches.push({ page: pageNum, start: index, end: index + findQuery.length });
+                                index = pageText.text.indexOf(findQuery, index + findQuery.length);
+                            }
+                            if (pageNum % 20 === 0) {
+                                findCount.textContent = 'Searching ' + pageNum + '/' + totalPages;
+                            }
+                        }
+
+                        findMatches = matches;
+                        if (matches.length === 0) {
+                            updateFindCount();
+                            return;
+                        }
+                        // 从当前页开始的第一个匹配
+                        const next = matches.findIndex(match => match.page >= currentPage);
+                        selectMatch(next >= 0 ? next : 0);
                     }
 
-                    function updateProgress() {
-                        if (totalPages > 0) {
-                            const progress = (currentPage / totalPages) * 100;
-                            vscode.postMessage({ type: 'updateProgress', progress: progress, bookId: currentBookId });
+                    // 选中匹配并跳转到所在页面
+                    async function selectMatch(index) {
+                        if (findMatches.length === 0) return;
+                        selectedMatch = (index + findMatches.length) % findMatches.length;
+                        updateFindCount();
+                        const match = findMatches[selectedMatch];
+
+                        if (textLayers.has(match.page)) {
+                            highlightAllPages();
+                            scrollSelectedMatchIntoView();
+                        } else {
+                            highlightAllPages();
+                            scrollToSelectedMatch = true;
+                            if (continuous) {
+                                currentPage = match.page;
+                                currentPageDisplay.textContent = currentPage;
+                                scrollToPageOffset(match.page, 0);
+                                renderVisiblePage(match.page);
+                            } else {
+                                await renderPage(match.page);
+                            }
                         }
+                        reportPosition();
+                        savePdfState();
+                    }
+
+                    function openFindBar() {
+                        findBar.hidden = false;
+                        findInput.focus();
+                        findInput.select();
+                    }
+
+                    function closeFindBar() {
+                        findBar.hidden = true;
+                        findInput.value = '';
+                        runFind('');
                     }
 
                     function showError(message) {
+                        loadingEl.style.display = 'block';
                         loadingEl.textContent = message;
                         loadingEl.style.color = 'red';
                     }
@@ -1496,439 +4322,1244 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     // 事件监听
                     document.getElementById('prev-page').addEventListener('click', () => {
                         if (currentPage > 1) {
-                            renderPage(currentPage - 1);
+                            goToPage(currentPage - 1);
                         }
                     });
 
                     document.getElementById('next-page').addEventListener('click', () => {
                         if (currentPage < totalPages) {
-                            renderPage(currentPage + 1);
+                            goToPage(currentPage + 1);
                         }
                     });
 
-                    // 页面输入功能已移除，改为右侧按钮控制
+                    document.getElementById('add-bookmark').addEventListener('click', saveBookmark);
 
-                    // 缩放控制已移除
+                    document.getElementById('zoom-in').addEventListener('click', () => setZoom(zoom * ZOOM_STEP));
+                    document.getElementById('zoom-out').addEventListener('click', () => setZoom(zoom / ZOOM_STEP));
+
+                    fitWidthButton.addEventListener('click', () => {
+                        fitWidth = !fitWidth;
+                        rerender();
+                    });
+
+                    document.getElementById('rotate').addEventListener('click', () => {
+                        rotation = (rotation + 90) % 360;
+                        rerender();
+                    });
+
+                    document.getElementById('open-find').addEventListener('click', openFindBar);
+                    document.getElementById('find-next').addEventListener('click', () => selectMatch(selectedMatch + 1));
+                    document.getElementById('find-prev').addEventListener('click', () => selectMatch(selectedMatch - 1));
+                    document.getElementById('find-close').addEventListener('click', closeFindBar);
+
+                    let findTimeout;
+                    findInput.addEventListener('input', () => {
+                        clearTimeout(findTimeout);
+                        findTimeout = setTimeout(() => runFind(findInput.value), 300);
+                    });
+
+                    findInput.addEventListener('keydown', event => {
+                        if (event.key === 'Enter') {
+                            event.preventDefault();
+                            // 输入尚未触发查找时立即查找
+                            if (findInput.value.toLowerCase() !== findQuery) {
+                                clearTimeout(findTimeout);
+                                runFind(findInput.value);
+                            } else {
+                                selectMatch(selectedMatch + (event.shiftKey ? -1 : 1));
+                            }
+                        } else if (event.key === 'Escape') {
+                            closeFindBar();
+                        }
+                    });
+
+                    document.addEventListener('keydown', event => {
+                        if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+                            event.preventDefault();
+                            openFindBar();
+                        }
+                    });
+
+                    outlineButton.addEventListener('click', () => {
+                        outlinePanel.hidden = !outlinePanel.hidden;
+                    });
+
+                    // 切换滚动模式时带上当前位置，扩展保存后按新模式重新打开
+                    document.getElementById('scroll-mode').addEventListener('click', () => {
+                        const current = getPosition();
+                        vscode.postMessage({
+                            type: 'setPdfScrollMode',
+                            mode: continuous ? 'single' : 'continuous',
+                            position: current.position,
+                            progress: current.progress,
+                            bookId: currentBookId
+                        });
+                    });
+
+                    // 主题在暗色和亮色之间切换时重新渲染，更新页面的反色处理
+                    let darkTheme = isDarkTheme();
+                    new MutationObserver(() => {
+                        if (darkTheme === isDarkTheme()) return;
+                        darkTheme = isDarkTheme();
+                        rerender();
+                    }).observe(document.body, { attributes: true, attributeFilter: ['class'] });
+
+                    // 适应宽度时随侧栏宽度变化重新渲染
+                    let resizeTimeout;
+                    window.addEventListener('resize', () => {
+                        if (!fitWidth || !pdfDoc) return;
+                        clearTimeout(resizeTimeout);
+                        resizeTimeout = setTimeout(rerender, 200);
+                    });
+
+                    let scrollTimeout;
+                    window.addEventListener('scroll', () => {
+                        // 连续模式下页码随滚动变化
+                        if (continuous && pdfDoc) {
+                            const pageNum = findPageAtTop();
+                            if (pageNum !== currentPage) {
+                                currentPage = pageNum;
+                                currentPageDisplay.textContent = currentPage;
+                            }
+                        }
+                        clearTimeout(scrollTimeout);
+                        scrollTimeout = setTimeout(() => {
+                            reportPosition();
+                            if (continuous) {
+                                savePdfState();
+                            }
+                        }, 200);
+                    });
 
+                    // 页面卸载时保存最后位置
+                    window.addEventListener('beforeunload', () => {
+                        reportPosition();
+                        savePdfState();
+                    });
                 </script>
             </body>
             </html>
         `;
     }
 
-    private _getTextHtml(book: Book, themeColors: any, settings: PluginSettings): string {
+    /**
+     * 读取文本块并渲染为段落HTML
+     *
+     * 功能：
+     * 按行读取[start, end)范围，每一行渲染为带有data-offset属性的段落，
+     * WebView根据首个可见段落的字节偏移记录阅读位置；
+     * 书籍的标注总是按字节范围标记在段落中，因此任何方式加载的文本块都会显示标注
+     *
+     * @param book 文本书籍
+     * @param start 起始字节偏移（应位于行首）
+     * @param end 期望的结束字节偏移
+     * @param extendToLineEnd 是否将结束位置延伸到行尾
+     * @param extraMarks 除标注外需要标记的字节范围及其样式类名，如搜索匹配
+     * @returns 实际的字节范围和段落HTML
+     * @throws 当文件读取失败时抛出错误
+     */
+    private _readTextChunk(book: Book, start: number, end: number, extendToLineEnd: boolean = true, extraMarks: (TextRange & { className: string })[] = []): { start: number; end: number; html: string } {
+        const encoding = book.encoding || 'utf8';
+        const chunk = EncodingUtils.readLines(book.path, start, end, encoding, extendToLineEnd);
+        const marks: (TextRange & { className: string; title?: string })[] = [
+            ...this._state.getAnnotations(book.id)
+                .filter(annotation => annotation.start < chunk.end && annotation.end > chunk.start)
+                .map(annotation => ({
+                    start: annotation.start,
+                    end: annotation.end,
+                    className: `annotation annotation-${annotation.color}`,
+                    title: annotation.note
+                })),
+            ...extraMarks
+        ];
+        // 解码后的第一行不包含BOM，标记的字节范围需要从BOM之后算起
+        const bomLength = marks.length > 0 && chunk.lines.length > 0 && chunk.lines[0].offset === 0
+            ? EncodingUtils.getBomLength(book.path)
+            : 0;
+
+        const html = chunk.lines
+            .map((line, index) => {
+                const lineStart = line.offset === 0 ? bomLength : line.offset;
+                const lineEnd = index + 1 < chunk.lines.length ? chunk.lines[index + 1].offset : chunk.end;
+                const lineMarks = marks
+                    .filter(mark => mark.start < lineEnd && mark.end > lineStart)
+                    .sort((a, b) => a.start - b.start);
+
+                let content = '';
+                let position = 0;
+                for (const mark of lineMarks) {
+                    const markStart = Math.max(position, EncodingUtils.getCharIndex(line.text, mark.start - lineStart, encoding));
+                    const markEnd = EncodingUtils.getCharIndex(line.text, mark.end - lineStart, encoding);
+                    if (markEnd <= markStart) {
+                        continue;
+                    }
+                    content += SecurityUtils.escapeHtml(line.text.substring(position, markStart));
+                    const title = mark.title ? ` title="${SecurityUtils.escapeHtml(mark.title)}"` : '';
+                    content += `<mark class="${mark.className}"${title}>${SecurityUtils.escapeHtml(line.text.substring(markStart, markEnd))}</mark>`;
+                    position = markEnd;
+                }
+                content += SecurityUtils.escapeHtml(line.text.substring(position));
+
+                // 空行使用一个空格占位，保证在pre-wrap下仍占据一行高度
+                return `<div class="para" data-offset="${line.offset}">${content || ' '}</div>`;
+            })
+            .join('');
+        return { start: chunk.start, end: chunk.end, html: html };
+    }
+
+    /**
+     * 生成文本书籍的滚动映射
+     * @param book 书籍对象
+     * @returns 按偏移升序排列的[字节偏移, 行数]对，最后一项对应文件末尾；尚未建立文本索引时按字节数估算
+     *
+     * 功能：
+     * 阅读器在检查点之间线性插值，换算字节偏移与滚动位置
+     */
+    private _getScrollMap(book: Book): [number, number][] {
+        const index = this._state.getTextIndex(book.id);
+        if (!index) {
+            return [[0, 0], [book.fileSize, book.fileSize]];
+        }
+        return [
+            ...index.checkpoints.map((checkpoint): [number, number] => [checkpoint.offset, checkpoint.line]),
+            [index.fileSize, index.lineCount]
+        ];
+    }
+
+    private _getTextHtml(webview: vscode.Webview, book: Book, themeColors: ThemeColors, settings: PluginSettings, startOffset?: number, highlight?: TextRange): string {
         const CHUNK_SIZE = 10 * 1024; // 10KB
-        const isChunked = book.fileSize > CHUNK_SIZE;
-        let content = '';
-        let encoding = book.encoding || 'utf8';
+        const nonce = SecurityUtils.getNonce();
+        const encoding = book.encoding || 'utf8';
+        let anchorOffset = 0;
+        let chunk: { start: number; end: number; html: string };
+        let scrollMap: [number, number][];
 
         try {
-            if (isChunked) {
-                content = EncodingUtils.readFileWithEncoding(book.path, 0, CHUNK_SIZE, encoding);
-            } else {
-                content = EncodingUtils.readFileWithEncoding(book.path, 0, book.fileSize, encoding);
+            // 阅读位置优先级：指定位置 > 保存的锚点 > 按旧版进度百分比估算
+            if (startOffset !== undefined) {
+                anchorOffset = startOffset;
+            } else if (book.position?.offset !== undefined) {
+                anchorOffset = book.position.offset;
+            } else if (book.progress > 0) {
+                anchorOffset = Math.floor((book.progress / 100) * book.fileSize);
             }
+            anchorOffset = Math.max(0, Math.min(anchorOffset, book.fileSize));
+
+            // 只加载锚点所在的文本块，之前和之后的内容在滚动时加载
+            const chunkStart = EncodingUtils.findLineStart(book.path, anchorOffset, encoding);
+            const marks = highlight ? [{ start: highlight.start, end: highlight.end, className: 'search-match' }] : [];
+            chunk = this._readTextChunk(book, chunkStart, Math.min(chunkStart + CHUNK_SIZE, book.fileSize), true, marks);
+            scrollMap = this._getScrollMap(book);
         } catch (error) {
             console.error('Failed to read book content:', error);
             vscode.window.showErrorMessage(`Failed to read book: ${(error as Error).message}`);
-            return this._getEmptyStateHtml(themeColors);
+            return this._getEmptyStateHtml(webview, themeColors);
         }
 
-        const escapedContent = SecurityUtils.escapeHtml(content);
         const fontSize = settings.fontSize;
+        const readingStyle = Object.entries(this._getReadingStyle(settings, themeColors))
+            .map(([name, value]) => `${name}: ${value};`)
+            .join(' ');
 
         return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce)}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>${SecurityUtils.escapeHtml(book.name)}</title>
                 <style>
+                    :root {
+                        ${readingStyle}
+                    }
                     body {
-                        font-family: ${settings.fontFamily};
-                        background-color: ${themeColors.backgroundColor};
-                        color: ${themeColors.textColor};
+                        font-family: var(--reader-font-family);
+                        background-color: var(--reader-background);
+                        color: var(--reader-text);
                         padding: 20px;
                         font-size: ${fontSize}px;
-                        line-height: ${settings.lineHeight};
+                        line-height: var(--reader-line-height);
+                        letter-spacing: var(--reader-letter-spacing);
                         transition: all 0.3s;
                         overflow-wrap: break-word;
                         white-space: pre-wrap;
                     }
+                    ::selection {
+                        background-color: var(--reader-selection);
+                    }
+                    a {
+                        color: var(--reader-link);
+                    }
+                    #text-container {
+                        max-width: var(--reader-max-width);
+                        margin: 0 auto;
+                    }
+                    .para {
+                        margin-bottom: var(--reader-paragraph-spacing);
+                        text-indent: var(--reader-text-indent);
+                    }
                     #content {
+                        position: relative;
                         height: 100vh;
                         overflow-y: auto;
+                        overflow-anchor: none;
                         padding-right: 15px;
                     }
+                    mark.search-match {
+                        background-color: #f8e45c;
+                        color: #000;
+                        border-radius: 2px;
+                    }
+                    mark.annotation {
+                        color: inherit;
+                        border-radius: 2px;
+                    }
+                    mark.annotation[title] {
+                        border-bottom: 2px dotted currentColor;
+                        cursor: help;
+                    }
+                    .annotation-yellow {
+                        background-color: rgba(255, 213, 0, 0.4);
+                    }
+                    .annotation-green {
+                        background-color: rgba(76, 175, 80, 0.4);
+                    }
+                    .annotation-blue {
+                        background-color: rgba(33, 150, 243, 0.4);
+                    }
+                    .annotation-red {
+                        background-color: rgba(244, 67, 54, 0.4);
+                    }
+                    .annotation-purple {
+                        background-color: rgba(156, 39, 176, 0.4);
+                    }
+                    .annotation-toolbar {
+                        position: fixed;
+                        z-index: 1001;
+                        display: flex;
+                        gap: 6px;
+                        padding: 6px;
+                        border: 1px solid color-mix(in srgb, var(--reader-text) 25%, transparent);
+                        border-radius: 6px;
+                        background-color: var(--reader-background);
+                        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.2);
+                        white-space: normal;
+                    }
+                    .annotation-toolbar[hidden] {
+                        display: none;
+                    }
+                    .annotation-toolbar button {
+                        width: 22px;
+                        height: 22px;
+                        padding: 0;
+                        border: 1px solid color-mix(in srgb, var(--reader-text) 25%, transparent);
+                        border-radius: 50%;
+                        cursor: pointer;
+                        font-size: 12px;
+                        color: var(--reader-text);
+                    }
+                    .annotation-toolbar .annotation-note {
+                        background-color: transparent;
+                    }
                     .loading-indicator {
                         display: none;
                         text-align: center;
                         padding: 20px;
-                        color: ${themeColors.mutedColor};
+                        color: color-mix(in srgb, var(--reader-text) 60%, transparent);
+                    }
+                    .font-controls {
+                        position: fixed;
+                        right: 20px;
+                        top: 50%;
+                        transform: translateY(-50%);
+                        z-index: 1000;
+                        display: flex;
+                        flex-direction: column;
+                        gap: 10px;
+                        opacity: 0.4;
+                        transition: opacity 0.3s ease;
+                    }
+                    .font-controls:hover {
+                        opacity: 0.9;
+                    }
+                    .font-controls button, .font-controls .font-size-display {
+                        padding: 10px;
+                        border: 1px solid color-mix(in srgb, var(--reader-text) 25%, transparent);
+                        border-radius: 5px;
+                        background-color: color-mix(in srgb, var(--reader-text) 8%, var(--reader-background));
+                        color: var(--reader-text);
+                        font-size: 14px;
+                        text-align: center;
+                        min-width: 40px;
+                    }
+                    .font-controls button {
+                        cursor: pointer;
                     }
+                    ${ThemeUtils.getHighContrastCss('button')}
                 </style>
             </head>
             <body>
                 <div id="content">
-                    <div id="text-container">${escapedContent}</div>
+                    <div id="spacer-before"></div>
+                    <div id="text-container"><div class="chunk" data-start="${chunk.start}" data-end="${chunk.end}">${chunk.html}</div></div>
                     <div id="loading-indicator" class="loading-indicator">Loading more...</div>
+                    <div id="spacer-after"></div>
                 </div>
 
                 <!-- 字体调节按钮 -->
-                <div style="
-                    position: fixed;
-                    right: 20px;
-                    top: 50%;
-                    transform: translateY(-50%);
-                    z-index: 1000;
-                    display: flex;
-                    flex-direction: column;
-                    gap: 10px;
-                    opacity: 0.4;
-                    transition: opacity 0.3s ease;
-                "
-                onmouseover="this.style.opacity='0.9'"
-                onmouseout="this.style.opacity='0.4'">
-                    <button onclick="decreaseFontSize()" style="
-                        padding: 10px;
-                        border: 1px solid ${themeColors.borderColor};
-                        border-radius: 5px;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#333' : '#f0f0f0'};
-                        color: ${themeColors.textColor};
-                        cursor: pointer;
-                        font-size: 14px;
-                    ">A-</button>
-
-                    <div id="fontSizeDisplay" style="
-                        padding: 10px;
-                        border: 1px solid ${themeColors.borderColor};
-                        border-radius: 5px;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#333' : '#f0f0f0'};
-                        color: ${themeColors.textColor};
-                        font-size: 14px;
-                        text-align: center;
-                        min-width: 40px;
-                    ">${fontSize}px</div>
+                <div class="font-controls">
+                    <button id="decrease-font">A-</button>
+                    <div id="fontSizeDisplay" class="font-size-display">${fontSize}px</div>
+                    <button id="increase-font">A+</button>
+                    <button id="add-bookmark" title="Add Bookmark">🔖</button>
+                </div>
 
-                    <button onclick="increaseFontSize()" style="
-                        padding: 10px;
-                        border: 1px solid ${themeColors.borderColor};
-                        border-radius: 5px;
-                        background-color: ${themeColors.backgroundColor === '#1e1e1e' ? '#333' : '#f0f0f0'};
-                        color: ${themeColors.textColor};
-                        cursor: pointer;
-                        font-size: 14px;
-                    ">A+</button>
+                <!-- 标注工具栏 - 选中文本后显示 -->
+                <div id="annotation-toolbar" class="annotation-toolbar" hidden>
+                    ${ANNOTATION_COLORS.map(color => `<button class="annotation-${color}" data-color="${color}" title="Highlight"></button>`).join('')}
+                    <button class="annotation-note" data-color="${ANNOTATION_COLORS[0]}" data-note="true" title="Highlight with Note">✎</button>
                 </div>
 
-            <script>
-                // === 关键修复：立即执行函数，确保事件监听器在页面加载时就被绑定 ===
+            <script nonce="${nonce}">
                 (function() {
                     const vscode = acquireVsCodeApi();
                     const contentElement = document.getElementById('content');
                     const textContainer = document.getElementById('text-container');
                     const loadingIndicator = document.getElementById('loading-indicator');
+                    const spacerBefore = document.getElementById('spacer-before');
+                    const spacerAfter = document.getElementById('spacer-after');
                     const currentBookId = '${book.id}';
 
-                    // 状态变量
-                    const isChunked = ${isChunked};
                     const totalSize = ${book.fileSize};
                     const CHUNK_SIZE = ${CHUNK_SIZE};
-                    let loadedSize = ${isChunked ? CHUNK_SIZE : book.fileSize};
+                    // DOM中最多保留的文本块数，超出后移除离视口最远的块，内存占用不随阅读位置增长
+                    const MAX_CHUNKS = 12;
+                    // 占位元素的最大总高度，浏览器不支持过高的元素，超出后按比例压缩占位高度
+                    const MAX_SPACER_HEIGHT = 8000000;
+                    // 滚动映射 - [字节偏移, 行数]对，未加载部分的占位高度按行数估算，滚动条对应整个文件
+                    let scrollMap = ${JSON.stringify(scrollMap)};
+                    // 占位元素中每行的像素高度，根据已加载内容的实际高度计算
+                    let pixelsPerUnit = 0;
+                    // 拖动滚动条到未加载区域后等待加载的字节偏移，-1表示没有跳转
+                    let jumpOffset = -1;
+                    let jumpTimeout;
+                    // 已加载的字节范围 [firstLoaded, loadedSize)
+                    let firstLoaded = ${chunk.start};
+                    let loadedSize = ${chunk.end};
                     let isLoading = false;
+                    let lastReportedOffset = -1;
 
-                    console.log('=== 页面初始化 ===');
-                    console.log('当前书籍ID:', currentBookId);
-                    console.log('是否分块加载:', isChunked);
-                    console.log('总大小:', totalSize);
-                    console.log('已加载大小:', loadedSize);
-
-                    // === 立即绑定消息监听器 ===
                     window.addEventListener('message', handleMessage);
 
                     function handleMessage(event) {
                         const message = event.data;
 
-                        console.log('收到消息:', message.type);
-
                         // 检查消息是否属于当前书籍
                         if (message.bookId && message.bookId !== currentBookId) {
-                            console.log('忽略其他书籍的消息，当前ID:', currentBookId, '消息ID:', message.bookId);
                             return;
                         }
 
                         switch (message.type) {
                             case 'moreContent':
-                                console.log('收到更多内容:', {
-                                    start: message.start,
-                                    end: message.end,
-                                    contentLength: message.content ? message.content.length : 0
-                                });
-
-                                if (message.content && message.content.length > 0) {
-                                    // 追加内容
-                                    textContainer.innerHTML += message.content;
-                                    loadedSize = message.end;
-                                    isLoading = false;
-                                    loadingIndicator.style.display = 'none';
-
-                                    console.log('内容已追加，loadedSize:', loadedSize);
-
-                                    // 如果正在恢复位置，尝试重新恢复
-                                    if (isRestoringPosition) {
-                                        console.log('内容加载完成，尝试重新恢复位置');
-                                        setTimeout(restorePosition, 300); // 减少延迟时间
+                                isLoading = false;
+                                loadingIndicator.style.display = 'none';
+                                if (message.content) {
+                                    if (message.direction === 'jump') {
+                                        showJumpChunk(message);
+                                    } else if (message.direction === 'before') {
+                                        prependChunk(message);
+                                    } else {
+                                        appendChunk(message);
                                     }
                                 }
                                 break;
 
+                            case 'updateScrollMap':
+                                scrollMap = message.scrollMap;
+                                updateSpacers();
+                                break;
+
                             case 'contentError':
                                 console.error('加载错误:', message.error);
+                                loadingIndicator.style.display = 'block';
                                 loadingIndicator.textContent = '加载失败: ' + message.error;
                                 loadingIndicator.style.color = 'red';
                                 isLoading = false;
+                                jumpOffset = -1;
                                 break;
 
-                            case 'updateFontSize':
+                            case 'updateFontSize': {
+                                // 字体变化后重新定位到原来的首个可见段落，避免位置漂移
+                                const anchor = getAnchorParagraph();
                                 document.body.style.fontSize = message.fontSize + 'px';
-                                const fontSizeDisplay = document.getElementById('fontSizeDisplay');
-                                if (fontSizeDisplay) {
-                                    fontSizeDisplay.textContent = message.fontSize + 'px';
+                                document.getElementById('fontSizeDisplay').textContent = message.fontSize + 'px';
+                                updateSpacers();
+                                if (anchor) {
+                                    scrollToParagraph(anchor);
+                                }
+                                break;
+                            }
+
+                            case 'updateReadingStyle': {
+                                // 主题和排版通过CSS变量更新，排版变化后同样重新定位到首个可见段落
+                                const anchor = getAnchorParagraph();
+                                Object.keys(message.style).forEach(name => {
+                                    document.documentElement.style.setProperty(name, message.style[name]);
+                                });
+                                updateSpacers();
+                                if (anchor) {
+                                    scrollToParagraph(anchor);
                                 }
                                 break;
+                            }
+
+                            case 'requestPosition':
+                                saveBookmark();
+                                break;
+
+                            case 'flushPosition':
+                                // 老板键伪装前立即上报位置，不等待滚动防抖
+                                clearTimeout(scrollTimeout);
+                                reportPosition();
+                                vscode.postMessage({ type: 'positionFlushed' });
+                                break;
+
+                            case 'annotationsChanged':
+                                // 重新加载与变化范围相交的文本块
+                                textContainer.querySelectorAll('.chunk').forEach(chunk => {
+                                    if (Number(chunk.dataset.start) < message.end && Number(chunk.dataset.end) > message.start) {
+                                        vscode.postMessage({
+                                            type: 'reloadChunk',
+                                            start: Number(chunk.dataset.start),
+                                            end: Number(chunk.dataset.end),
+                                            bookId: currentBookId
+                                        });
+                                    }
+                                });
+                                break;
 
-                            case 'restoreScrollPosition':
-                                contentElement.scrollTop = message.scrollPosition;
+                            case 'chunkContent': {
+                                const chunk = textContainer.querySelector('.chunk[data-start="' + message.start + '"][data-end="' + message.end + '"]');
+                                if (chunk) {
+                                    chunk.innerHTML = message.content;
+                                }
                                 break;
+                            }
                         }
                     }
 
-                    let scrollTimeout;
-                    let isRestoringPosition = false;  // 新增：正在恢复位置的标志
+                    function createChunk(message) {
+                        const chunk = document.createElement('div');
+                        chunk.className = 'chunk';
+                        chunk.dataset.start = message.start;
+                        chunk.dataset.end = message.end;
+                        chunk.innerHTML = message.content;
+                        return chunk;
+                    }
 
-                    contentElement.addEventListener('scroll', () => {
-                        if (isRestoringPosition) return;  // 新增：如果正在恢复位置，跳过
+                    function appendChunk(message) {
+                        // 忽略与已加载范围不衔接的过期响应
+                        if (message.start !== loadedSize) return;
+                        textContainer.appendChild(createChunk(message));
+                        loadedSize = message.end;
+                        evictChunks('before');
+                        updateSpacers();
+                    }
 
-                        clearTimeout(scrollTimeout);
-                        scrollTimeout = setTimeout(() => {
-                            updateProgress();
-                        }, 100);
+                    function prependChunk(message) {
+                        if (message.end !== firstLoaded) return;
+                        // 在顶部插入内容后补偿滚动距离，保持当前可见内容不动
+                        const previousHeight = contentElement.scrollHeight;
+                        textContainer.insertBefore(createChunk(message), textContainer.firstChild);
+                        firstLoaded = message.start;
+                        contentElement.scrollTop += contentElement.scrollHeight - previousHeight;
+                        evictChunks('after');
+                        updateSpacers();
+                    }
+
+                    // 显示跳转位置的文本块 - 替换所有已加载的块，之前和之后的内容在滚动时加载
+                    function showJumpChunk(message) {
+                        // 忽略不包含最新跳转位置的过期响应
+                        if (jumpOffset < 0 || message.start > jumpOffset || message.end <= jumpOffset) return;
+                        textContainer.replaceChildren(createChunk(message));
+                        firstLoaded = message.start;
+                        loadedSize = message.end;
+                        updateSpacers();
+                        const paragraph = findParagraph(jumpOffset);
+                        if (paragraph) {
+                            scrollToParagraph(paragraph);
+                        }
+                        jumpOffset = -1;
+                        reportPosition();
+                        checkViewport();
+                    }
 
-                        if (isChunked && !isLoading && loadedSize < totalSize) {
-                            const distanceToBottom = contentElement.scrollHeight -
-                                                    contentElement.scrollTop -
-                                                    contentElement.clientHeight;
+                    // 字节偏移处的行数 - 在滚动映射的相邻检查点之间线性插值
+                    function unitsAt(offset) {
+                        let index = 0;
+                        while (index < scrollMap.length - 2 && scrollMap[index + 1][0] <= offset) index++;
+                        const [startOffset, startUnits] = scrollMap[index];
+                        const [endOffset, endUnits] = scrollMap[Math.min(index + 1, scrollMap.length - 1)];
+                        if (endOffset <= startOffset) return startUnits;
+                        const ratio = Math.max(0, Math.min(1, (offset - startOffset) / (endOffset - startOffset)));
+                        return startUnits + (endUnits - startUnits) * ratio;
+                    }
+
+                    // 行数处的字节偏移 - unitsAt的反函数
+                    function offsetAt(units) {
+                        let index = 0;
+                        while (index < scrollMap.length - 2 && scrollMap[index + 1][1] <= units) index++;
+                        const [startOffset, startUnits] = scrollMap[index];
+                        const [endOffset, endUnits] = scrollMap[Math.min(index + 1, scrollMap.length - 1)];
+                        if (endUnits <= startUnits) return startOffset;
+                        const ratio = Math.max(0, Math.min(1, (units - startUnits) / (endUnits - startUnits)));
+                        return Math.floor(startOffset + (endOffset - startOffset) * ratio);
+                    }
 
-                            if (distanceToBottom < 100) {
-                                loadMore();
+                    // 按已加载内容的平均行高设置前后占位元素的高度，使滚动条位置对应整个文件中的位置
+                    function updateSpacers() {
+                        const totalUnits = scrollMap[scrollMap.length - 1][1];
+                        const loadedUnits = unitsAt(loadedSize) - unitsAt(firstLoaded);
+                        const loadedHeight = textContainer.offsetHeight;
+                        if (loadedUnits > 0 && loadedHeight > 0) {
+                            const remainingUnits = totalUnits - loadedUnits;
+                            pixelsPerUnit = loadedHeight / loadedUnits;
+                            if (remainingUnits * pixelsPerUnit > MAX_SPACER_HEIGHT) {
+                                pixelsPerUnit = MAX_SPACER_HEIGHT / remainingUnits;
                             }
                         }
-                    });
+                        if (pixelsPerUnit <= 0) return;
+
+                        // 修改顶部占位高度后补偿滚动距离，保持当前可见内容不动
+                        const before = Math.round(unitsAt(firstLoaded) * pixelsPerUnit);
+                        const delta = before - spacerBefore.offsetHeight;
+                        spacerBefore.style.height = before + 'px';
+                        spacerAfter.style.height = Math.round((totalUnits - unitsAt(loadedSize)) * pixelsPerUnit) + 'px';
+                        if (delta !== 0) {
+                            contentElement.scrollTop += delta;
+                        }
+                    }
 
-                    function loadMore() {
-                        if (isLoading) return;
+                    // 检查视口位置 - 接近已加载内容的边缘时加载相邻的块，完全位于占位区域时跳转到对应位置
+                    function checkViewport() {
+                        const loadedTop = textContainer.offsetTop;
+                        const loadedBottom = loadedTop + textContainer.offsetHeight;
+                        const viewTop = contentElement.scrollTop;
+                        const viewBottom = viewTop + contentElement.clientHeight;
+
+                        clearTimeout(jumpTimeout);
+                        if (pixelsPerUnit > 0 && (viewBottom < loadedTop || viewTop > loadedBottom)) {
+                            // 拖动滚动条时等待滚动停止后再加载，避免加载途经的每个位置
+                            jumpTimeout = setTimeout(() => {
+                                const units = viewTop < loadedTop
+                                    ? viewTop / pixelsPerUnit
+                                    : unitsAt(loadedSize) + (viewTop - loadedBottom) / pixelsPerUnit;
+                                jumpTo(Math.min(offsetAt(units), Math.max(0, totalSize - 1)));
+                            }, 150);
+                            return;
+                        }
+
+                        if (loadedBottom - viewBottom < 100) {
+                            loadMore('after');
+                        } else if (viewTop - loadedTop < 100) {
+                            loadMore('before');
+                        }
+                    }
 
+                    function jumpTo(offset) {
+                        jumpOffset = offset;
                         isLoading = true;
-                        loadingIndicator.style.display = 'block';
+                        vscode.postMessage({
+                            type: 'loadMoreContent',
+                            start: offset,
+                            end: Math.min(offset + CHUNK_SIZE, totalSize),
+                            direction: 'jump',
+                            bookId: currentBookId
+                        });
+                    }
+
+                    // 移除一端超出数量上限的文本块，只移除完全不在视口内的块
+                    function evictChunks(direction) {
+                        const viewport = contentElement.getBoundingClientRect();
+                        while (textContainer.children.length > MAX_CHUNKS) {
+                            if (direction === 'before') {
+                                const chunk = textContainer.firstElementChild;
+                                if (chunk.getBoundingClientRect().bottom >= viewport.top) break;
+                                // 移除顶部内容后补偿滚动距离，保持当前可见内容不动
+                                const previousHeight = contentElement.scrollHeight;
+                                chunk.remove();
+                                firstLoaded = Number(textContainer.firstElementChild.dataset.start);
+                                contentElement.scrollTop -= previousHeight - contentElement.scrollHeight;
+                            } else {
+                                const chunk = textContainer.lastElementChild;
+                                if (chunk.getBoundingClientRect().top <= viewport.bottom) break;
+                                chunk.remove();
+                                loadedSize = Number(textContainer.lastElementChild.dataset.end);
+                            }
+                        }
+                    }
 
-                        const start = loadedSize;
-                        const end = Math.min(loadedSize + CHUNK_SIZE, totalSize);
+                    function loadMore(direction) {
+                        if (isLoading) return;
 
-                        console.log('发送加载请求:', { start: start, end: end });
+                        let start;
+                        let end;
+                        if (direction === 'before') {
+                            if (firstLoaded <= 0) return;
+                            start = Math.max(0, firstLoaded - CHUNK_SIZE);
+                            end = firstLoaded;
+                        } else {
+                            if (loadedSize >= totalSize) return;
+                            start = loadedSize;
+                            end = Math.min(loadedSize + CHUNK_SIZE, totalSize);
+                            loadingIndicator.style.display = 'block';
+                        }
 
+                        isLoading = true;
                         vscode.postMessage({
                             type: 'loadMoreContent',
                             start: start,
                             end: end,
-                            encoding: '${encoding}',
+                            direction: direction,
                             bookId: currentBookId
                         });
                     }
 
-                    // 初始化进度更新
-                    function updateProgress() {
-                        if (isRestoringPosition) {
-                            console.log('正在恢复位置，跳过进度更新');
-                            return;
+                    function getParagraphs() {
+                        return textContainer.querySelectorAll('.para');
+                    }
+
+                    // 视口顶部的首个段落 - 二分查找第一个底部在视口顶部之下的段落
+                    function getAnchorParagraph() {
+                        const top = contentElement.getBoundingClientRect().top;
+                        const paragraphs = getParagraphs();
+                        let low = 0;
+                        let high = paragraphs.length - 1;
+                        let result = null;
+                        while (low <= high) {
+                            const mid = (low + high) >> 1;
+                            if (paragraphs[mid].getBoundingClientRect().bottom > top) {
+                                result = paragraphs[mid];
+                                high = mid - 1;
+                            } else {
+                                low = mid + 1;
+                            }
                         }
+                        return result;
+                    }
+
+                    // 包含指定字节偏移的段落
+                    function findParagraph(offset) {
+                        const paragraphs = getParagraphs();
+                        let result = paragraphs.length > 0 ? paragraphs[0] : null;
+                        for (const paragraph of paragraphs) {
+                            if (Number(paragraph.dataset.offset) > offset) break;
+                            result = paragraph;
+                        }
+                        return result;
+                    }
 
-                        if (totalSize <= 0) return;
+                    function scrollToParagraph(paragraph) {
+                        contentElement.scrollTop = paragraph.offsetTop;
+                    }
 
-                        let progress;
+                    // 段落的结束字节偏移 - 下一个段落的起始偏移或所在文本块的结束偏移
+                    function getParagraphEnd(paragraph) {
+                        const next = paragraph.nextElementSibling;
+                        return next ? Number(next.dataset.offset) : Number(paragraph.parentElement.dataset.end);
+                    }
 
-                        if (!isChunked || loadedSize >= totalSize) {
-                            // 全部加载完成，使用正常滚动比例
-                            const scrollRange = contentElement.scrollHeight - contentElement.clientHeight;
-                            if (scrollRange <= 0) return;
+                    // 获取视口顶部的阅读位置 - 返回所在段落的字节范围和段落内字符序号，由扩展换算为字节偏移
+                    function getCurrentPosition() {
+                        const rect = contentElement.getBoundingClientRect();
+                        const caret = document.caretRangeFromPoint ? document.caretRangeFromPoint(rect.left + 10, rect.top + 10) : null;
+                        const parent = caret ? (caret.startContainer.nodeType === Node.TEXT_NODE ? caret.startContainer.parentElement : caret.startContainer) : null;
+                        const caretParagraph = parent && parent.closest ? parent.closest('.para') : null;
+                        const paragraph = caretParagraph || getAnchorParagraph();
+                        if (!paragraph) {
+                            return null;
+                        }
 
-                            const scrollRatio = contentElement.scrollTop / scrollRange;
-                            progress = scrollRatio * 100;
-                        } else {
-                            // 分块加载中 - 改进的进度计算
-                            const scrollRange = contentElement.scrollHeight - contentElement.clientHeight;
-                            if (scrollRange <= 0) return;
-
-                            // 计算当前已加载内容的百分比
-                            const loadedPercentage = (loadedSize / totalSize) * 100;
-                            // 计算当前滚动位置在已加载内容中的百分比
-                            const scrollRatio = Math.min(1, contentElement.scrollTop / scrollRange);
-                            // 计算实际进度
-                            progress = scrollRatio * loadedPercentage;
-                        }
-
-                        // 确保进度值在合理范围内
-                        const roundedProgress = Math.max(0, Math.min(100, Math.round(progress * 100) / 100));
-
-                        console.log('更新进度:', {
-                            progress: roundedProgress,
-                            scrollTop: contentElement.scrollTop,
-                            scrollHeight: contentElement.scrollHeight,
-                            clientHeight: contentElement.clientHeight,
-                            loadedSize: loadedSize,
-                            totalSize: totalSize
+                        let charIndex = 0;
+                        if (caretParagraph) {
+                            const range = document.createRange();
+                            range.setStart(paragraph, 0);
+                            range.setEnd(caret.startContainer, caret.startOffset);
+                            charIndex = range.toString().length;
+                        }
+
+                        return {
+                            start: Number(paragraph.dataset.offset),
+                            end: getParagraphEnd(paragraph),
+                            charIndex: charIndex,
+                            snippet: paragraph.textContent.substring(charIndex, charIndex + 60)
+                        };
+                    }
+
+                    function saveBookmark() {
+                        const position = getCurrentPosition();
+                        if (!position) return;
+                        vscode.postMessage({
+                            type: 'saveBookmark',
+                            position: position,
+                            bookId: currentBookId
                         });
+                    }
 
+                    // 上报阅读位置 - 首个可见段落的字节偏移，进度由扩展根据偏移推算
+                    function reportPosition() {
+                        const anchor = getAnchorParagraph();
+                        // 视口位于占位区域时等待跳转完成后再上报
+                        if (!anchor || jumpOffset >= 0 || anchor.getBoundingClientRect().top > contentElement.getBoundingClientRect().bottom) return;
+                        const offset = Number(anchor.dataset.offset);
+                        if (offset === lastReportedOffset) return;
+                        lastReportedOffset = offset;
                         vscode.postMessage({
-                            type: 'updateProgress',
-                            progress: roundedProgress,
+                            type: 'updatePosition',
+                            position: { offset: offset },
                             bookId: currentBookId
                         });
                     }
 
-                    // 初始恢复阅读位置
-                    const targetProgress = ${book.progress};
-                    if (targetProgress > 0) {
-                        isRestoringPosition = true;  // 新增：开始恢复位置
+                    // 选区端点的位置 - 所在段落的字节范围和段落内字符序号
+                    function getSelectionPoint(node, offset) {
+                        const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node;
+                        const paragraph = element && element.closest ? element.closest('.para') : null;
+                        if (!paragraph) {
+                            // 端点位于段落之间时，取其后段落的开头或文本块最后一个段落的结尾
+                            if (element && element.classList && element.classList.contains('chunk') && element.lastElementChild) {
+                                const next = node.childNodes[offset];
+                                const target = next || element.lastElementChild;
+                                return {
+                                    start: Number(target.dataset.offset),
+                                    end: getParagraphEnd(target),
+                                    charIndex: next ? 0 : target.textContent.length
+                                };
+                            }
+                            return null;
+                        }
+                        const range = document.createRange();
+                        range.setStart(paragraph, 0);
+                        range.setEnd(node, offset);
+                        return {
+                            start: Number(paragraph.dataset.offset),
+                            end: getParagraphEnd(paragraph),
+                            charIndex: range.toString().length
+                        };
+                    }
+
+                    const annotationToolbar = document.getElementById('annotation-toolbar');
 
-                        function restorePosition() {
-                            // 直接计算和设置滚动位置，不使用requestAnimationFrame以减少延迟
-                            const scrollRange = contentElement.scrollHeight - contentElement.clientHeight;
-                            console.log('计算滚动范围:', {
-                                scrollHeight: contentElement.scrollHeight,
-                                clientHeight: contentElement.clientHeight,
-                                scrollRange: scrollRange,
-                                targetProgress: targetProgress
-                            });
+                    function hideAnnotationToolbar() {
+                        annotationToolbar.hidden = true;
+                    }
+
+                    // 选中文本后在选区上方显示标注工具栏
+                    function updateAnnotationToolbar() {
+                        const selection = window.getSelection();
+                        if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+                            hideAnnotationToolbar();
+                            return;
+                        }
+                        const range = selection.getRangeAt(0);
+                        if (!textContainer.contains(range.commonAncestorContainer)) {
+                            hideAnnotationToolbar();
+                            return;
+                        }
 
-                            if (scrollRange > 0) {
-                                if (!isChunked || loadedSize >= totalSize) {
-                                    // 全部加载完成，直接滚动
-                                    const targetScrollTop = scrollRange * (targetProgress / 100);
-                                    contentElement.scrollTop = targetScrollTop;
-                                    console.log('恢复位置到:', targetScrollTop, '进度:', targetProgress + '%');
+                        const rect = range.getBoundingClientRect();
+                        annotationToolbar.hidden = false;
+                        const top = rect.top - annotationToolbar.offsetHeight - 8;
+                        annotationToolbar.style.top = (top > 0 ? top : rect.bottom + 8) + 'px';
+                        annotationToolbar.style.left = Math.max(8, Math.min(rect.left, window.innerWidth - annotationToolbar.offsetWidth - 8)) + 'px';
+                    }
 
-                                    // 恢复完成后，立即允许进度更新
-                                    isRestoringPosition = false;
-                                    console.log('位置恢复完成，启用进度更新');
-                                } else {
-                                    // 分块加载，检查目标进度是否在已加载范围内
-                                    const loadedRatio = loadedSize / totalSize;
-                                    const loadedPercentage = loadedRatio * 100;
-
-                                    console.log('分块恢复检查:', {
-                                        targetProgress: targetProgress,
-                                        loadedPercentage: loadedPercentage,
-                                        loadedSize: loadedSize,
-                                        totalSize: totalSize
-                                    });
-
-                                    if (targetProgress <= loadedPercentage) {
-                                        // 目标在已加载范围内
-                                        const scrollRatio = (targetProgress / 100) / loadedRatio;
-                                        const targetScrollTop = scrollRange * scrollRatio;
-                                        contentElement.scrollTop = targetScrollTop;
-                                        console.log('分块恢复位置:', targetScrollTop, '进度:', targetProgress + '%');
-
-                                        // 恢复完成后，立即允许进度更新
-                                        isRestoringPosition = false;
-                                        console.log('位置恢复完成，启用进度更新');
-                                    } else {
-                                        // 目标超过已加载范围，需要加载更多内容
-                                        console.log('目标进度超过已加载范围，需要加载更多内容');
-                                        loadMoreForRestore();
-                                    }
-                                }
-                            } else {
-                                // 滚动范围为0，可能内容还没加载完成，稍后重试
-                                console.log('滚动范围为0，稍后重试恢复位置');
-                                setTimeout(restorePosition, 100); // 减少重试延迟
-                            }
+                    function addAnnotation(color, withNote) {
+                        const selection = window.getSelection();
+                        if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+                        const range = selection.getRangeAt(0);
+                        const selectionStart = getSelectionPoint(range.startContainer, range.startOffset);
+                        const selectionEnd = getSelectionPoint(range.endContainer, range.endOffset);
+                        if (!selectionStart || !selectionEnd) return;
+
+                        vscode.postMessage({
+                            type: 'addAnnotation',
+                            selectionStart: selectionStart,
+                            selectionEnd: selectionEnd,
+                            text: selection.toString(),
+                            color: color,
+                            withNote: withNote,
+                            bookId: currentBookId
+                        });
+                        selection.removeAllRanges();
+                        hideAnnotationToolbar();
+                    }
+
+                    annotationToolbar.querySelectorAll('button').forEach(button => {
+                        // 阻止按下按钮时清除选区
+                        button.addEventListener('mousedown', event => event.preventDefault());
+                        button.addEventListener('click', () => addAnnotation(button.dataset.color, button.dataset.note === 'true'));
+                    });
+                    document.addEventListener('mouseup', () => setTimeout(updateAnnotationToolbar, 0));
+                    document.addEventListener('keyup', event => {
+                        if (event.shiftKey || event.key === 'Shift') {
+                            updateAnnotationToolbar();
+                        }
+                    });
+                    document.addEventListener('selectionchange', () => {
+                        const selection = window.getSelection();
+                        if (!selection || selection.isCollapsed) {
+                            hideAnnotationToolbar();
+                        }
+                    });
+
+                    document.getElementById('add-bookmark').addEventListener('click', saveBookmark);
+                    document.getElementById('decrease-font').addEventListener('click', () => {
+                        vscode.postMessage({ type: 'decreaseFontSize', bookId: currentBookId });
+                    });
+                    document.getElementById('increase-font').addEventListener('click', () => {
+                        vscode.postMessage({ type: 'increaseFontSize', bookId: currentBookId });
+                    });
+
+                    let scrollTimeout;
+                    contentElement.addEventListener('scroll', () => {
+                        clearTimeout(scrollTimeout);
+                        scrollTimeout = setTimeout(reportPosition, 200);
+                        updateAnnotationToolbar();
+                        checkViewport();
+                    });
+
+                    // 初始定位到锚点所在的段落，之前的内容由顶部占位元素代替
+                    const anchorOffset = ${anchorOffset};
+                    updateSpacers();
+                    const target = findParagraph(anchorOffset);
+                    if (target) {
+                        scrollToParagraph(target);
+                    }
+                    // 从搜索结果打开时，将匹配文本滚动到视口中部
+                    const searchMatch = textContainer.querySelector('mark.search-match');
+                    if (searchMatch) {
+                        searchMatch.scrollIntoView({ block: 'center' });
+                    }
+                    lastReportedOffset = target ? Number(target.dataset.offset) : -1;
+
+                    // 内容不足一屏时继续向后加载，位于顶部时预先加载之前的内容
+                    setTimeout(() => {
+                        if (contentElement.scrollHeight <= contentElement.clientHeight) {
+                            loadMore('after');
+                        } else if (contentElement.scrollTop < 100) {
+                            loadMore('before');
                         }
+                    }, 0);
+
+                    // 页面卸载时保存最后位置
+                    window.addEventListener('beforeunload', reportPosition);
+
+                    // 定期保存位置(每30秒)
+                    setInterval(reportPosition, 30000);
+                })();
+            </script>
+        </body>
+        </html>
+        `;
+    }
+
+    private _getEpubHtml(webview: vscode.Webview, book: Book, themeColors: ThemeColors, settings: PluginSettings): string {
+        let chapters;
+        try {
+            chapters = this._getEpubService(book).getChapters();
+        } catch (error) {
+            console.error('Failed to open EPUB:', error);
+            vscode.window.showErrorMessage(`Failed to read book: ${(error as Error).message}`);
+            return this._getEmptyStateHtml(webview, themeColors);
+        }
+
+        const fontSize = settings.fontSize;
+        const nonce = SecurityUtils.getNonce();
+        const chapterOptions = chapters
+            .map((chapter, index) => `<option value="${index}">${SecurityUtils.escapeHtml(chapter.title)}</option>`)
+            .join('');
+
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${SecurityUtils.escapeHtml(book.name)}</title>
+                <style>
+                    body {
+                        font-family: ${settings.fontFamily};
+                        background-color: ${themeColors.backgroundColor};
+                        color: ${themeColors.textColor};
+                        margin: 0;
+                        padding: 0;
+                        font-size: ${fontSize}px;
+                        line-height: ${settings.lineHeight};
+                        transition: all 0.3s;
+                        overflow-wrap: break-word;
+                    }
+                    .epub-header {
+                        display: flex;
+                        align-items: center;
+                        gap: 8px;
+                        padding: 8px 20px;
+                        border-bottom: 1px solid ${themeColors.borderColor};
+                        font-size: 13px;
+                    }
+                    .epub-header select {
+                        flex: 1;
+                        min-width: 0;
+                        padding: 4px;
+                        background-color: ${themeColors.inputBackground};
+                        color: ${themeColors.inputForeground};
+                        border: 1px solid ${themeColors.borderColor};
+                        border-radius: 4px;
+                    }
+                    .epub-header button {
+                        padding: 4px 10px;
+                        background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground};
+                        border: 1px solid ${themeColors.borderColor};
+                        border-radius: 4px;
+                        cursor: pointer;
+                    }
+                    .epub-header button:disabled {
+                        opacity: 0.5;
+                        cursor: not-allowed;
+                    }
+                    #content {
+                        height: calc(100vh - 46px);
+                        overflow-y: auto;
+                        padding: 0 35px 0 20px;
+                        box-sizing: border-box;
+                    }
+                    #chapter-container img {
+                        max-width: 100%;
+                        height: auto;
+                    }
+                    #chapter-container a {
+                        color: inherit;
+                    }
+                    #chapter-container table {
+                        border-collapse: collapse;
+                    }
+                    #chapter-container td, #chapter-container th {
+                        border: 1px solid ${themeColors.borderColor};
+                        padding: 4px 8px;
+                    }
+                    .loading-indicator {
+                        text-align: center;
+                        padding: 20px;
+                        color: ${themeColors.mutedColor};
+                    }
+                    .font-controls {
+                        position: fixed;
+                        right: 20px;
+                        top: 50%;
+                        transform: translateY(-50%);
+                        z-index: 1000;
+                        display: flex;
+                        flex-direction: column;
+                        gap: 10px;
+                        opacity: 0.4;
+                        transition: opacity 0.3s ease;
+                    }
+                    .font-controls:hover {
+                        opacity: 0.9;
+                    }
+                    .font-controls > * {
+                        padding: 10px;
+                        border: 1px solid ${themeColors.borderColor};
+                        border-radius: 5px;
+                        background-color: ${themeColors.buttonBackground};
+                        color: ${themeColors.buttonForeground};
+                        font-size: 14px;
+                        text-align: center;
+                        min-width: 40px;
+                    }
+                    .font-controls button {
+                        cursor: pointer;
+                    }
+                    ${ThemeUtils.getHighContrastCss('button, select')}
+                </style>
+            </head>
+            <body>
+                <div class="epub-header">
+                    <button id="prev-chapter">←</button>
+                    <select id="chapter-select">${chapterOptions}</select>
+                    <button id="next-chapter">→</button>
+                </div>
+                <div id="content">
+                    <div id="chapter-container"></div>
+                    <div id="loading-indicator" class="loading-indicator">Loading...</div>
+                </div>
+
+                <!-- 字体调节按钮 -->
+                <div class="font-controls">
+                    <button id="decrease-font">A-</button>
+                    <div id="fontSizeDisplay">${fontSize}px</div>
+                    <button id="increase-font">A+</button>
+                </div>
 
-                        function loadMoreForRestore() {
-                            if (isLoading || loadedSize >= totalSize) {
-                                // 加载完成或正在加载，尝试恢复位置
-                                setTimeout(restorePosition, 300);
+                <script nonce="${nonce}">
+                    (function() {
+                        const vscode = acquireVsCodeApi();
+                        const currentBookId = '${book.id}';
+                        const totalChapters = ${chapters.length};
+                        const contentElement = document.getElementById('content');
+                        const chapterContainer = document.getElementById('chapter-container');
+                        const loadingIndicator = document.getElementById('loading-indicator');
+                        const chapterSelect = document.getElementById('chapter-select');
+                        const prevButton = document.getElementById('prev-chapter');
+                        const nextButton = document.getElementById('next-chapter');
+
+                        // 根据进度计算初始章节和章节内的滚动比例
+                        const targetProgress = ${book.progress};
+                        const targetPosition = Math.min(totalChapters, (targetProgress / 100) * totalChapters);
+                        let currentIndex = Math.min(totalChapters - 1, Math.floor(targetPosition));
+                        let restoreRatio = targetPosition - currentIndex;
+                        let isLoading = false;
+
+                        window.addEventListener('message', event => {
+                            const message = event.data;
+                            if (message.bookId && message.bookId !== currentBookId) {
                                 return;
                             }
 
-                            // 检查当前已加载内容是否足够覆盖目标进度
-                            const loadedRatio = loadedSize / totalSize;
-                            const loadedPercentage = loadedRatio * 100;
+                            switch (message.type) {
+                                case 'epubChapter':
+                                    showChapter(message.index, message.html, message.fragment);
+                                    break;
 
-                            if (targetProgress <= loadedPercentage) {
-                                // 已加载足够内容，尝试恢复位置
-                                restorePosition();
-                                return;
+                                case 'flushPosition':
+                                    // 老板键伪装前立即上报进度，不等待滚动防抖
+                                    clearTimeout(scrollTimeout);
+                                    updateProgress();
+                                    vscode.postMessage({ type: 'positionFlushed' });
+                                    break;
+
+                                case 'contentError':
+                                    isLoading = false;
+                                    loadingIndicator.style.display = 'block';
+                                    loadingIndicator.textContent = '加载失败: ' + message.error;
+                                    loadingIndicator.style.color = 'red';
+                                    break;
+
+                                case 'updateFontSize':
+                                    document.body.style.fontSize = message.fontSize + 'px';
+                                    document.getElementById('fontSizeDisplay').textContent = message.fontSize + 'px';
+                                    break;
+
+                                case 'restoreScrollPosition':
+                                    contentElement.scrollTop = message.scrollPosition;
+                                    break;
                             }
+                        });
 
+                        function loadChapter(index) {
+                            if (index < 0 || index >= totalChapters || isLoading) {
+                                return;
+                            }
                             isLoading = true;
                             loadingIndicator.style.display = 'block';
+                            vscode.postMessage({ type: 'loadEpubChapter', index: index, bookId: currentBookId });
+                        }
 
-                            const start = loadedSize;
-                            const end = Math.min(loadedSize + CHUNK_SIZE, totalSize);
-
-                            console.log('为恢复位置加载更多内容:', { start: start, end: end });
+                        function showChapter(index, html, fragment) {
+                            isLoading = false;
+                            loadingIndicator.style.display = 'none';
+                            currentIndex = index;
+                            chapterContainer.innerHTML = html;
+                            chapterSelect.value = String(index);
+                            prevButton.disabled = index <= 0;
+                            nextButton.disabled = index >= totalChapters - 1;
+
+                            const anchor = fragment ? document.getElementById(fragment) : null;
+                            if (anchor) {
+                                anchor.scrollIntoView();
+                            } else if (restoreRatio > 0) {
+                                // 图片加载后高度会变化，稍后再恢复章节内的位置
+                                const ratio = restoreRatio;
+                                setTimeout(() => {
+                                    const scrollRange = contentElement.scrollHeight - contentElement.clientHeight;
+                                    contentElement.scrollTop = scrollRange * ratio;
+                                }, 100);
+                            } else {
+                                contentElement.scrollTop = 0;
+                            }
+                            restoreRatio = 0;
+                            updateProgress();
+                        }
 
+                        function updateProgress() {
+                            const scrollRange = contentElement.scrollHeight - contentElement.clientHeight;
+                            const chapterRatio = scrollRange > 0 ? Math.min(1, contentElement.scrollTop / scrollRange) : 0;
+                            const progress = ((currentIndex + chapterRatio) / totalChapters) * 100;
                             vscode.postMessage({
-                                type: 'loadMoreContent',
-                                start: start,
-                                end: end,
-                                encoding: '${encoding}',
+                                type: 'updateProgress',
+                                progress: Math.max(0, Math.min(100, Math.round(progress * 100) / 100)),
                                 bookId: currentBookId
                             });
-
-                            // 注意：不再在这里设置isLoading = false，而是由handleMessage函数处理
-                            // 当收到moreContent消息时，handleMessage会设置isLoading = false并尝试恢复位置
                         }
 
-                        // 开始恢复位置
-                        setTimeout(restorePosition, 300);
-                    } else {
-                        isRestoringPosition = false;
-                    }
-
-                // 页面卸载时保存最后位置
-                window.addEventListener('beforeunload', () => {
-                    updateProgress();
-                });
+                        // 章节内的相对链接交给扩展解析，外部链接由VS Code处理
+                        chapterContainer.addEventListener('click', event => {
+                            const link = event.target.closest('a[href]');
+                            if (!link) {
+                                return;
+                            }
+                            const href = link.getAttribute('href');
+                            if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+                                return;
+                            }
+                            event.preventDefault();
+                            if (href.startsWith('#')) {
+                                const anchor = document.getElementById(href.substring(1));
+                                if (anchor) {
+                                    anchor.scrollIntoView();
+                                }
+                            } else {
+                                vscode.postMessage({ type: 'openEpubLink', index: currentIndex, href: href, bookId: currentBookId });
+                            }
+                        });
 
-                // 定期保存位置(每30秒)
-                setInterval(() => {
-                    updateProgress();
-                }, 30000);
+                        let scrollTimeout;
+                        contentElement.addEventListener('scroll', () => {
+                            clearTimeout(scrollTimeout);
+                            scrollTimeout = setTimeout(updateProgress, 200);
+                        });
 
-                // 初始更新一次进度
-                setTimeout(() => {
-                    updateProgress();
-                }, 500);
+                        chapterSelect.addEventListener('change', () => loadChapter(parseInt(chapterSelect.value, 10)));
+                        prevButton.addEventListener('click', () => loadChapter(currentIndex - 1));
+                        nextButton.addEventListener('click', () => loadChapter(currentIndex + 1));
+                        document.getElementById('decrease-font').addEventListener('click', () => {
+                            vscode.postMessage({ type: 'decreaseFontSize', scrollPosition: contentElement.scrollTop, bookId: currentBookId });
+                        });
+                        document.getElementById('increase-font').addEventListener('click', () => {
+                            vscode.postMessage({ type: 'increaseFontSize', scrollPosition: contentElement.scrollTop, bookId: currentBookId });
+                        });
 
-                })(); // 立即执行
-            </script>
-        </body>
-        </html>
+                        loadChapter(currentIndex);
+                    })();
+                </script>
+            </body>
+            </html>
         `;
     }
 
-    private _getWechatHtml(book: Book, themeColors: any, settings: PluginSettings): string {
+    private _getWechatHtml(webview: vscode.Webview, book: Book, themeColors: ThemeColors, settings: PluginSettings): string {
         const fontSize = settings.fontSize;
+        const nonce = SecurityUtils.getNonce();
 
         return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${this._getContentSecurityPolicy(webview, nonce)}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>${SecurityUtils.escapeHtml(book.name)}</title>
                 <style>
@@ -1967,6 +5598,7 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     .sync-button:hover {
                         background-color: #06ad56;
                     }
+                    ${ThemeUtils.getHighContrastCss('.sync-button')}
                 </style>
             </head>
             <body>
@@ -1975,21 +5607,711 @@ class BookContentViewProvider implements vscode.WebviewViewProvider {
                     <p>This is a WeChat Read book. Content is not displayed here.</p>
                     <button id="sync-progress" class="sync-button">Sync Progress</button>
                 </div>
-                <script>
+                <script nonce="${nonce}">
                     const vscode = acquireVsCodeApi();
                     const currentBookId = '${book.id}';
 
-                    document.getElementById('sync-progress').addEventListener('click', () => {
-                        vscode.postMessage({
-                            type: 'syncWechatProgress',
-                            bookId: currentBookId
-                        });
-                    });
-                </script>
-            </body>
-            </html>
-        `;
+                    document.getElementById('sync-progress').addEventListener('click', () => {
+                        vscode.postMessage({
+                            type: 'syncWechatProgress',
+                            bookId: currentBookId
+                        });
+                    });
+                </script>
+            </body>
+            </html>
+        `;
+    }
+}
+
+/**
+ * 状态栏阅读器类
+ *
+ * 功能：
+ * 1. 在状态栏中逐行显示文本书籍 - 过长的行按设置的长度切分为多段
+ * 2. 通过命令切换到下一行或上一行，可选按固定间隔自动前进
+ * 3. 与WebView阅读器共用书籍的阅读位置 - 每次切换都更新字节偏移和阅读进度，侧栏阅读器从同一位置继续
+ *
+ * 核心概念：
+ * - 显示行：状态栏中一次显示的文本，带有其在文件中的起始字节偏移
+ * - 缓冲区：当前加载的文本块切分出的显示行，越过缓冲区两端时按文本块向前或向后加载
+ *
+ * 技术要点：
+ * - 使用EncodingUtils.readLines按行对齐读取文本块，与WebView阅读器的分块方式相同
+ * - 空行会被跳过，避免状态栏出现空白
+ */
+class StatusBarReader {
+    /** 文本块大小 */
+    private static readonly CHUNK_SIZE = 16 * 1024;
+    /** 状态栏项 */
+    private _item: vscode.StatusBarItem;
+    /** 正在阅读的书籍 */
+    private _book?: Book;
+    /** 缓冲区中的显示行 */
+    private _lines: TextLine[] = [];
+    /** 缓冲区对应的字节范围 */
+    private _chunkStart = 0;
+    private _chunkEnd = 0;
+    /** 当前显示行在缓冲区中的序号 */
+    private _index = 0;
+    /** 自动前进定时器 */
+    private _timer?: NodeJS.Timeout;
+    /** 是否被老板键临时隐藏 */
+    private _hidden = false;
+    /** 隐藏前是否正在自动前进 - 恢复显示时继续自动前进 */
+    private _resumeAutoAdvance = false;
+
+    /**
+     * 构造函数
+     * @param state 插件状态管理对象
+     * @param onPositionChange 阅读位置变化后的回调，用于刷新书籍列表中的进度
+     */
+    constructor(private state: ReadPluginState, private onPositionChange: (bookId: string) => void) {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, -100);
+        this._item.command = 'readplugin.statusBarNextLine';
+    }
+
+    /**
+     * 是否正在状态栏中阅读
+     */
+    get active(): boolean {
+        return !!this._book;
+    }
+
+    /**
+     * 当前阅读的书籍ID
+     */
+    get bookId(): string | undefined {
+        return this._book?.id;
+    }
+
+    /**
+     * 开始在状态栏中阅读书籍
+     * @param book 文本书籍，从其保存的阅读位置开始
+     * @throws 当文件读取失败时抛出错误
+     */
+    start(book: Book): void {
+        this.stop();
+        this._book = book;
+        const offset = book.position?.offset ?? Math.floor((book.progress / 100) * book.fileSize);
+        const lineStart = EncodingUtils.findLineStart(book.path, Math.max(0, Math.min(offset, book.fileSize)), book.encoding || 'utf8');
+        this._loadChunk(lineStart, Math.min(lineStart + StatusBarReader.CHUNK_SIZE, book.fileSize), true);
+
+        // 定位到包含保存位置的显示行
+        this._index = 0;
+        while (this._index + 1 < this._lines.length && this._lines[this._index + 1].offset <= offset) {
+            this._index++;
+        }
+        if (this._lines.length === 0 && this._loadNext()) {
+            this._index = 0;
+        }
+
+        vscode.commands.executeCommand('setContext', 'readplugin.statusBarReading', true);
+        this._render();
+    }
+
+    /**
+     * 停止状态栏阅读
+     */
+    stop(): void {
+        this.setAutoAdvance(false);
+        this._resumeAutoAdvance = false;
+        this._book = undefined;
+        this._lines = [];
+        this._item.hide();
+        vscode.commands.executeCommand('setContext', 'readplugin.statusBarReading', false);
+    }
+
+    /**
+     * 显示下一行，到达书籍末尾时停止自动前进；读取失败（如文件被移动或删除）时停止状态栏阅读
+     */
+    next(): void {
+        if (!this._book) {
+            return;
+        }
+        try {
+            if (this._index + 1 < this._lines.length || this._loadNext()) {
+                this._index++;
+                this._updatePosition();
+            } else {
+                this.setAutoAdvance(false);
+            }
+            this._render();
+        } catch (error) {
+            this._handleReadError(error);
+        }
+    }
+
+    /**
+     * 显示上一行，读取失败时停止状态栏阅读
+     */
+    previous(): void {
+        if (!this._book) {
+            return;
+        }
+        try {
+            if (this._index > 0) {
+                this._index--;
+                this._updatePosition();
+            } else if (this._loadPrevious()) {
+                this._index = this._lines.length - 1;
+                this._updatePosition();
+            }
+            this._render();
+        } catch (error) {
+            this._handleReadError(error);
+        }
+    }
+
+    /**
+     * 开启或关闭自动前进
+     * @param enabled 是否开启
+     */
+    setAutoAdvance(enabled: boolean): void {
+        if (this._timer) {
+            clearInterval(this._timer);
+            this._timer = undefined;
+        }
+        if (enabled && this._book && !this._hidden) {
+            const interval = Math.max(500, this.state.getSettings().statusBarAutoAdvanceInterval);
+            this._timer = setInterval(() => this.next(), interval);
+        }
+        this._render();
+    }
+
+    /**
+     * 是否正在自动前进
+     */
+    get autoAdvancing(): boolean {
+        return !!this._timer;
+    }
+
+    /**
+     * 临时隐藏或恢复状态栏项，隐藏期间暂停自动前进
+     * @param hidden 是否隐藏
+     */
+    setHidden(hidden: boolean): void {
+        if (hidden === this._hidden) {
+            return;
+        }
+        this._hidden = hidden;
+        if (hidden) {
+            this._resumeAutoAdvance = this.autoAdvancing;
+            this.setAutoAdvance(false);
+        } else {
+            this.setAutoAdvance(this._resumeAutoAdvance);
+            this._resumeAutoAdvance = false;
+        }
+    }
+
+    /**
+     * 释放资源
+     */
+    dispose(): void {
+        this.stop();
+        this._item.dispose();
+    }
+
+    /**
+     * 处理读取错误 - 停止自动前进和状态栏阅读，并显示错误信息
+     * @param error 读取时抛出的错误
+     */
+    private _handleReadError(error: unknown): void {
+        console.error('Failed to read book in status bar:', error);
+        this.stop();
+        vscode.window.showErrorMessage(`Failed to read book: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    /**
+     * 更新状态栏项的文本和提示
+     */
+    private _render(): void {
+        const line = this._lines[this._index];
+        if (!this._book || !line || this._hidden) {
+            this._item.hide();
+            return;
+        }
+
+        // 防止文本中的"$(name)"被解析为图标
+        this._item.text = line.text.replace(/\$\(/g, '$\u200b(');
+        this._item.tooltip = `${this._book.name} · ${this._book.progress}%${this.autoAdvancing ? ' · Auto' : ''}\nClick for the next line`;
+        this._item.show();
+    }
+
+    /**
+     * 保存当前显示行的位置
+     */
+    private _updatePosition(): void {
+        const line = this._lines[this._index];
+        if (!this._book || !line) {
+            return;
+        }
+        this.state.updateBookPosition(this._book.id, { offset: line.offset });
+        this._book = this.state.getBook(this._book.id) || this._book;
+        this.onPositionChange(this._book.id);
+    }
+
+    /**
+     * 加载后面的文本块
+     *
+     * 功能：
+     * 新文本块接在当前显示行之后，序号置为-1，由调用方前进到第一行；
+     * 后面没有非空行时恢复原来的缓冲区
+     *
+     * @returns 是否加载到新的显示行
+     */
+    private _loadNext(): boolean {
+        if (!this._book) {
+            return false;
+        }
+        const saved = { lines: this._lines, start: this._chunkStart, end: this._chunkEnd };
+        while (this._chunkEnd < this._book.fileSize) {
+            this._loadChunk(this._chunkEnd, Math.min(this._chunkEnd + StatusBarReader.CHUNK_SIZE, this._book.fileSize), true);
+            if (this._lines.length > 0) {
+                this._index = -1;
+                return true;
+            }
+        }
+        this._lines = saved.lines;
+        this._chunkStart = saved.start;
+        this._chunkEnd = saved.end;
+        return false;
+    }
+
+    /**
+     * 加载前面的文本块
+     *
+     * 功能：
+     * 前面没有非空行时恢复原来的缓冲区
+     *
+     * @returns 是否加载到新的显示行
+     */
+    private _loadPrevious(): boolean {
+        if (!this._book) {
+            return false;
+        }
+        const encoding = this._book.encoding || 'utf8';
+        const saved = { lines: this._lines, start: this._chunkStart, end: this._chunkEnd };
+        while (this._chunkStart > 0) {
+            const end = this._chunkStart;
+            const start = EncodingUtils.findLineStart(this._book.path, Math.max(0, end - StatusBarReader.CHUNK_SIZE), encoding);
+            this._loadChunk(start, end, false);
+            if (this._lines.length > 0) {
+                return true;
+            }
+        }
+        this._lines = saved.lines;
+        this._chunkStart = saved.start;
+        this._chunkEnd = saved.end;
+        return false;
+    }
+
+    /**
+     * 读取文本块并切分为显示行
+     * @param start 起始字节偏移（行首）
+     * @param end 结束字节偏移
+     * @param extendToLineEnd 是否将结束位置延伸到行尾
+     */
+    private _loadChunk(start: number, end: number, extendToLineEnd: boolean): void {
+        if (!this._book) {
+            return;
+        }
+        const encoding = this._book.encoding || 'utf8';
+        const maxLength = Math.max(10, this.state.getSettings().statusBarLineLength);
+        const chunk = EncodingUtils.readLines(this._book.path, start, end, encoding, extendToLineEnd);
+        const bomLength = chunk.lines.length > 0 && chunk.lines[0].offset === 0 ? EncodingUtils.getBomLength(this._book.path) : 0;
+
+        const lines: TextLine[] = [];
+        for (const line of chunk.lines) {
+            const text = line.text.trim();
+            if (!text) {
+                continue;
+            }
+            // 从去除缩进后的第一个字符开始切分，每段的偏移为该段第一个字符的字节位置
+            const indent = line.text.indexOf(text);
+            let lineOffset = (line.offset === 0 ? bomLength : line.offset) + EncodingUtils.getEncodedLength(line.text.substring(0, indent), encoding);
+            for (let i = 0; i < text.length; i += maxLength) {
+                const segment = text.substring(i, i + maxLength);
+                lines.push({ offset: lineOffset, text: segment });
+                lineOffset += EncodingUtils.getEncodedLength(segment, encoding);
+            }
+        }
+
+        this._lines = lines;
+        this._chunkStart = chunk.start;
+        // 文件末尾以外读取不到内容时也要前进，避免重复读取同一位置
+        this._chunkEnd = Math.max(chunk.end, Math.min(end, this._book.fileSize));
+    }
+}
+
+/**
+ * 代码伪装阅读器类
+ *
+ * 功能：
+ * 1. 以readplugin:协议提供虚拟文档 - 书籍文本显示为普通编辑器标签页中的.ts或.py源码注释
+ * 2. 在文档顶部提供CodeLens - 翻到上一页、下一页并显示阅读进度
+ * 3. 翻页时保存阅读位置 - 与WebView阅读器和状态栏阅读共用书籍的字节偏移和阅读进度
+ *
+ * 核心概念：
+ * - 文档URI：路径为伪装文件名，查询参数为书籍ID，扩展名决定伪装语言和语法高亮
+ * - 页面：从行首开始的一段文本，按行对齐读取，页面起始偏移即保存的阅读位置
+ *
+ * 技术要点：
+ * - 虚拟文档是只读的，内容变化通过onDidChange事件通知编辑器重新读取
+ * - 上一页从当前页面起始位置向前读取一页，按行首对齐
+ */
+class CodeDisguiseProvider implements vscode.TextDocumentContentProvider, vscode.CodeLensProvider {
+    /** 虚拟文档使用的URI协议 */
+    public static readonly scheme = 'readplugin';
+    /** 每页读取的字节数 */
+    private static readonly PAGE_SIZE = 4 * 1024;
+
+    /** 文档内容变化事件 */
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+    /** CodeLens变化事件 */
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    /** 每本书当前页面的字节范围 */
+    private _pages = new Map<string, { start: number; end: number }>();
+
+    /**
+     * 构造函数
+     * @param state 插件状态管理对象
+     * @param onPositionChange 翻页后的回调，用于刷新书籍列表和侧栏阅读器
+     */
+    constructor(private state: ReadPluginState, private onPositionChange: (bookId: string) => void) {}
+
+    /**
+     * 在编辑器中打开书籍的伪装文档
+     * @param book 文本书籍，从其保存的阅读位置开始
+     * @param language 伪装语言
+     * @throws 当文件读取失败时抛出错误
+     */
+    async open(book: Book, language: DisguiseLanguage): Promise<void> {
+        const offset = book.position?.offset ?? Math.floor((book.progress / 100) * book.fileSize);
+        const start = EncodingUtils.findLineStart(book.path, Math.max(0, Math.min(offset, book.fileSize)), book.encoding || 'utf8');
+        this._pages.set(book.id, { start: start, end: start });
+
+        const uri = vscode.Uri.from({
+            scheme: CodeDisguiseProvider.scheme,
+            path: '/src/' + CodeDisguiseFormatter.getFileName(book.id, language),
+            query: book.id
+        });
+        // 文档已经打开时通知编辑器重新读取内容
+        this._onDidChange.fire(uri);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    /**
+     * 提供虚拟文档的内容
+     * @param uri 文档URI
+     * @returns 当前页面的伪装代码，书籍不存在时返回空字符串
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const book = this.state.getBook(uri.query);
+        if (!book) {
+            return '';
+        }
+
+        try {
+            // 编辑器恢复上次打开的文档时还没有页面记录，从保存的阅读位置所在行开始
+            const start = this._pages.get(book.id)?.start
+                ?? EncodingUtils.findLineStart(book.path, Math.min(book.position?.offset ?? 0, book.fileSize), book.encoding || 'utf8');
+            const chunk = EncodingUtils.readLines(book.path, start, Math.min(start + CodeDisguiseProvider.PAGE_SIZE, book.fileSize), book.encoding || 'utf8');
+            this._pages.set(book.id, { start: chunk.start, end: chunk.end });
+            this._onDidChangeCodeLenses.fire();
+            const language: DisguiseLanguage = uri.path.endsWith(CodeDisguiseFormatter.getExtension('python')) ? 'python' : 'typescript';
+            return CodeDisguiseFormatter.format(chunk.lines.map(line => line.text), language, chunk.start);
+        } catch (error) {
+            console.error(`Failed to read ${book.path}:`, error);
+            return '';
+        }
+    }
+
+    /**
+     * 在文档顶部提供翻页和进度CodeLens
+     * @param document 文本文档
+     * @returns CodeLens列表
+     */
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const book = document.uri.scheme === CodeDisguiseProvider.scheme ? this.state.getBook(document.uri.query) : undefined;
+        const page = book && this._pages.get(book.id);
+        if (!book || !page) {
+            return [];
+        }
+
+        const range = new vscode.Range(0, 0, 0, 0);
+        const lenses: vscode.CodeLens[] = [];
+        if (page.start > 0) {
+            lenses.push(new vscode.CodeLens(range, { title: '$(arrow-up) previous', command: 'readplugin.codeDisguisePreviousPage', arguments: [document.uri] }));
+        }
+        if (page.end < book.fileSize) {
+            lenses.push(new vscode.CodeLens(range, { title: '$(arrow-down) next', command: 'readplugin.codeDisguiseNextPage', arguments: [document.uri] }));
+        }
+        lenses.push(new vscode.CodeLens(range, { title: `${book.progress}%`, command: '' }));
+        return lenses;
+    }
+
+    /**
+     * 翻到下一页或上一页
+     * @param uri 文档URI
+     * @param direction 1表示下一页，-1表示上一页
+     * @returns 是否翻页成功，已经位于开头或末尾时返回false
+     */
+    turnPage(uri: vscode.Uri, direction: 1 | -1): boolean {
+        const book = this.state.getBook(uri.query);
+        const page = book && this._pages.get(book.id);
+        if (!book || !page) {
+            return false;
+        }
+
+        let start: number;
+        if (direction > 0) {
+            if (page.end >= book.fileSize) {
+                return false;
+            }
+            start = page.end;
+        } else {
+            if (page.start <= 0) {
+                return false;
+            }
+            start = EncodingUtils.findLineStart(book.path, Math.max(0, page.start - CodeDisguiseProvider.PAGE_SIZE), book.encoding || 'utf8');
+        }
+
+        this._pages.set(book.id, { start: start, end: start });
+        this.state.updateBookPosition(book.id, { offset: start });
+        this.onPositionChange(book.id);
+        this._onDidChange.fire(uri);
+        return true;
+    }
+
+    /**
+     * 释放资源
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
+
+/**
+ * 自动隐藏触发条件类型
+ */
+type AutoHideTrigger = 'debug' | 'focus' | 'terminal' | 'idle';
+
+/**
+ * 自动隐藏管理器类
+ *
+ * 功能：
+ * 1. 监听自动隐藏的触发条件 - 调试会话开始、窗口失去焦点、终端命令运行、空闲超时
+ * 2. 任一条件成立时通知隐藏阅读器，所有条件都结束后通知恢复
+ * 3. 记录用户活动 - 编辑器操作和阅读操作会重置空闲计时，并结束空闲条件
+ *
+ * 核心概念：
+ * - 触发条件：每个条件可以在设置中单独开启，关闭的条件不会触发隐藏
+ * - 活动条件集合：当前成立的条件，从空变为非空时隐藏，从非空变为空时恢复
+ *
+ * 技术要点：
+ * - 所有监听器都通过EventManager注册，插件停用时统一清理
+ * - 每次事件触发时读取设置，修改设置后无需重新注册监听器
+ * - 终端命令检测依赖终端的Shell集成，未启用Shell集成的终端不会触发
+ */
+class AutoHideManager {
+    /** 事件管理器 */
+    private _eventManager = new EventManager();
+    /** 当前成立的触发条件 */
+    private _activeTriggers = new Set<AutoHideTrigger>();
+    /** 正在运行的调试会话ID */
+    private _debugSessions = new Set<string>();
+    /** 正在运行的终端命令数 */
+    private _runningCommands = 0;
+    /** 空闲计时器 */
+    private _idleTimer?: NodeJS.Timeout;
+
+    /**
+     * 构造函数
+     * @param state 插件状态管理对象
+     * @param onChange 需要隐藏或恢复时调用，hidden为true表示隐藏
+     */
+    constructor(private state: ReadPluginState, private onChange: (hidden: boolean) => void) {
+        const settings = () => this.state.getSettings();
+
+        this._eventManager.registerAll([
+            vscode.debug.onDidStartDebugSession(session => {
+                this._debugSessions.add(session.id);
+                if (settings().autoHideOnDebug) {
+                    this._activate('debug');
+                }
+            }),
+            vscode.debug.onDidTerminateDebugSession(session => {
+                this._debugSessions.delete(session.id);
+                if (this._debugSessions.size === 0) {
+                    this._deactivate('debug');
+                }
+            }),
+            vscode.window.onDidChangeWindowState(windowState => {
+                if (!windowState.focused) {
+                    if (settings().autoHideOnFocusLoss) {
+                        this._activate('focus');
+                    }
+                } else {
+                    this._deactivate('focus');
+                    this.markActivity();
+                }
+            }),
+            vscode.window.onDidStartTerminalShellExecution(() => {
+                this._runningCommands++;
+                if (settings().autoHideOnTerminalCommand) {
+                    this._activate('terminal');
+                }
+            }),
+            vscode.window.onDidEndTerminalShellExecution(() => {
+                this._runningCommands = Math.max(0, this._runningCommands - 1);
+                if (this._runningCommands === 0) {
+                    this._deactivate('terminal');
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(() => this.markActivity()),
+            vscode.window.onDidChangeTextEditorVisibleRanges(() => this.markActivity()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.markActivity()),
+            vscode.window.onDidChangeActiveTerminal(() => this.markActivity()),
+            { dispose: () => this._clearIdleTimer() }
+        ]);
+
+        this._scheduleIdle();
+    }
+
+    /**
+     * 记录用户活动
+     *
+     * 功能：
+     * 结束空闲条件并重新开始空闲计时
+     */
+    markActivity(): void {
+        this._deactivate('idle');
+        this._scheduleIdle();
+    }
+
+    /**
+     * 重新应用设置
+     *
+     * 功能：
+     * 修改设置后调用，结束已关闭的条件；仍在进行的调试会话或终端命令会在开启对应条件后立即触发
+     */
+    refresh(): void {
+        const settings = this.state.getSettings();
+        const enabled: { [key in AutoHideTrigger]: boolean } = {
+            debug: settings.autoHideOnDebug && this._debugSessions.size > 0,
+            focus: settings.autoHideOnFocusLoss && !vscode.window.state.focused,
+            terminal: settings.autoHideOnTerminalCommand && this._runningCommands > 0,
+            idle: this._activeTriggers.has('idle') && settings.autoHideIdleMinutes > 0
+        };
+        for (const trigger of Object.keys(enabled) as AutoHideTrigger[]) {
+            if (enabled[trigger]) {
+                this._activate(trigger);
+            } else {
+                this._deactivate(trigger);
+            }
+        }
+        this._scheduleIdle();
+    }
+
+    /**
+     * 释放资源
+     */
+    dispose(): void {
+        this._eventManager.dispose();
+    }
+
+    /**
+     * 开始空闲计时，未设置空闲时间时不计时
+     */
+    private _scheduleIdle(): void {
+        this._clearIdleTimer();
+        const minutes = this.state.getSettings().autoHideIdleMinutes;
+        if (minutes > 0) {
+            this._idleTimer = setTimeout(() => this._activate('idle'), minutes * 60 * 1000);
+        }
+    }
+
+    /**
+     * 停止空闲计时
+     */
+    private _clearIdleTimer(): void {
+        if (this._idleTimer) {
+            clearTimeout(this._idleTimer);
+            this._idleTimer = undefined;
+        }
+    }
+
+    /**
+     * 标记条件成立，第一个成立的条件触发隐藏
+     * @param trigger 触发条件
+     */
+    private _activate(trigger: AutoHideTrigger): void {
+        if (this._activeTriggers.has(trigger)) {
+            return;
+        }
+        this._activeTriggers.add(trigger);
+        if (this._activeTriggers.size === 1) {
+            this.onChange(true);
+        }
+    }
+
+    /**
+     * 标记条件结束，最后一个条件结束时触发恢复
+     * @param trigger 触发条件
+     */
+    private _deactivate(trigger: AutoHideTrigger): void {
+        if (!this._activeTriggers.delete(trigger)) {
+            return;
+        }
+        if (this._activeTriggers.size === 0) {
+            this.onChange(false);
+        }
+    }
+}
+
+/**
+ * 选择文本书籍
+ *
+ * 功能：
+ * 从书籍列表调用时使用该书籍，从命令面板调用时使用当前打开的文本书籍，都没有时让用户从文本书籍中选择
+ *
+ * @param state 插件状态管理对象
+ * @param item 书籍列表中的书籍项，可选
+ * @param currentBook 当前打开的书籍，可选
+ * @param messages 提示文本 - unsupported为非文本书籍的提示，empty为没有文本书籍的提示，placeHolder为选择框的提示
+ * @returns 选择的书籍，取消选择时返回undefined
+ */
+async function pickTextBook(
+    state: ReadPluginState,
+    item: BookItem | undefined,
+    currentBook: Book | undefined,
+    messages: { unsupported: string; empty: string; placeHolder: string }
+): Promise<Book | undefined> {
+    if (item && item.book) {
+        if (!state.isTextBook(item.book)) {
+            vscode.window.showInformationMessage(messages.unsupported);
+            return undefined;
+        }
+        return item.book;
+    }
+    if (currentBook && state.isTextBook(currentBook)) {
+        return currentBook;
+    }
+
+    const books = state.getBooks()
+        .filter(candidate => state.isTextBook(candidate))
+        .map(candidate => ({ label: candidate.name, description: `${candidate.progress}%`, book: candidate }));
+    if (books.length === 0) {
+        vscode.window.showInformationMessage(messages.empty);
+        return undefined;
     }
+    const picked = await vscode.window.showQuickPick(books, { placeHolder: messages.placeHolder });
+    return picked?.book;
 }
 
 export function activate(context: vscode.ExtensionContext) {
@@ -2000,13 +6322,118 @@ export function activate(context: vscode.ExtensionContext) {
 
     // 树数据提供者
     const booksTreeDataProvider = new BooksTreeDataProvider(state);
-    vscode.window.registerTreeDataProvider('read-plugin-books', booksTreeDataProvider);
+    // 显示"全部折叠"按钮，老板键通过该按钮对应的命令折叠书籍列表
+    context.subscriptions.push(vscode.window.createTreeView('read-plugin-books', {
+        treeDataProvider: booksTreeDataProvider,
+        showCollapseAll: true
+    }));
+
+    // 标注树数据提供者
+    const annotationsTreeDataProvider = new AnnotationsTreeDataProvider(state);
+    context.subscriptions.push(vscode.window.createTreeView('read-plugin-annotations', {
+        treeDataProvider: annotationsTreeDataProvider,
+        showCollapseAll: true
+    }));
 
     // 内容视图提供者
     const bookContentViewProvider = new BookContentViewProvider(context, state);
     bookContentViewProvider.setTreeDataProvider(booksTreeDataProvider);
+    bookContentViewProvider.setAnnotationsTreeDataProvider(annotationsTreeDataProvider);
     vscode.window.registerWebviewViewProvider(BookContentViewProvider.viewType, bookContentViewProvider);
 
+    // 状态栏阅读器 - 每次切换行都刷新书籍列表中的阅读进度
+    const statusBarReader = new StatusBarReader(state, bookId => booksTreeDataProvider.refreshBook(bookId));
+    context.subscriptions.push(statusBarReader);
+
+    // 在其他窗口中登录或退出微信读书后刷新登录状态
+    context.subscriptions.push(state.onDidChangeWechatCredentials(() => booksTreeDataProvider.refresh()));
+    context.subscriptions.push(state.onDidIndexBook(book => {
+        booksTreeDataProvider.refresh();
+        bookContentViewProvider.updateTextIndex(book.id);
+    }));
+
+    /**
+     * 隐藏或恢复阅读器
+     * @param disguised 是否隐藏
+     *
+     * 功能：
+     * 伪装阅读视图并隐藏状态栏阅读；隐藏时折叠书籍和标注列表，隐藏章节、书签和标注内容
+     */
+    const setReaderHidden = (disguised: boolean) => {
+        bookContentViewProvider.setDisguised(disguised);
+        statusBarReader.setHidden(disguised);
+        if (disguised) {
+            for (const viewId of ['read-plugin-books', 'read-plugin-annotations']) {
+                vscode.commands.executeCommand(`workbench.actions.treeView.${viewId}.collapseAll`).then(undefined, error => {
+                    console.warn(`Failed to collapse ${viewId}:`, error);
+                });
+            }
+        }
+    };
+
+    // 自动隐藏 - 只恢复由自动隐藏规则隐藏的阅读器，用户按老板键隐藏的阅读器保持隐藏
+    let hiddenByRule = false;
+    const autoHideManager = new AutoHideManager(state, hidden => {
+        if (hidden && !bookContentViewProvider.isDisguised()) {
+            hiddenByRule = true;
+            setReaderHidden(true);
+        } else if (!hidden && hiddenByRule) {
+            hiddenByRule = false;
+            setReaderHidden(false);
+        }
+    });
+    context.subscriptions.push(autoHideManager);
+    bookContentViewProvider.setActivityListener(() => autoHideManager.markActivity());
+
+    // 设置界面中修改的设置立即生效
+    context.subscriptions.push(state.onDidChangeSettings(changed => {
+        bookContentViewProvider.applySettings(changed);
+        if (changed.some(key => key.startsWith('autoHide'))) {
+            autoHideManager.refresh();
+        }
+        if (changed.includes('statusBarAutoAdvanceInterval') && statusBarReader.autoAdvancing) {
+            statusBarReader.setAutoAdvance(true);
+        }
+        if (changed.includes('chapterPatterns')) {
+            // 展开的书籍按新规则重新建立章节索引
+            booksTreeDataProvider.refresh();
+        }
+    }));
+
+    // 代码伪装阅读器 - 翻页后刷新书籍列表，侧栏正在显示同一本书时从新位置重新显示
+    const codeDisguiseProvider = new CodeDisguiseProvider(state, bookId => {
+        booksTreeDataProvider.refreshBook(bookId);
+        bookContentViewProvider.reloadBook(bookId);
+    });
+    context.subscriptions.push(
+        codeDisguiseProvider,
+        vscode.workspace.registerTextDocumentContentProvider(CodeDisguiseProvider.scheme, codeDisguiseProvider),
+        vscode.languages.registerCodeLensProvider({ scheme: CodeDisguiseProvider.scheme }, codeDisguiseProvider)
+    );
+
+    /**
+     * 翻动代码伪装文档
+     * @param direction 1表示下一页，-1表示上一页
+     * @param uri 文档URI，从命令面板或快捷键调用时使用当前编辑器的文档
+     */
+    const turnCodeDisguisePage = (direction: 1 | -1, uri?: vscode.Uri) => {
+        const editor = vscode.window.activeTextEditor;
+        const target = uri || editor?.document.uri;
+        if (!target || target.scheme !== CodeDisguiseProvider.scheme) {
+            return;
+        }
+        try {
+            if (codeDisguiseProvider.turnPage(target, direction) && editor && editor.document.uri.toString() === target.toString()) {
+                // 新的一页从顶部开始阅读
+                const top = new vscode.Position(0, 0);
+                editor.selection = new vscode.Selection(top, top);
+                editor.revealRange(new vscode.Range(top, top), vscode.TextEditorRevealType.AtTop);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read book: ${(error as Error).message}`);
+        }
+    };
+
     // 注册命令
     context.subscriptions.push(
         vscode.commands.registerCommand('readplugin.addBook', async () => {
@@ -2014,7 +6441,7 @@ export function activate(context: vscode.ExtensionContext) {
                 canSelectMany: true,
                 openLabel: 'Add Book(s)',
                 filters: {
-                    'Books': ['txt', 'pdf']
+                    'Books': ['txt', 'pdf', 'epub']
                 }
             });
 
@@ -2034,16 +6461,560 @@ export function activate(context: vscode.ExtensionContext) {
             bookContentViewProvider.openBook(book);
         }),
 
+        vscode.commands.registerCommand('readplugin.openChapter', (book: Book, chapter: Chapter) => {
+            if (book && chapter) {
+                bookContentViewProvider.openBook(book, { offset: chapter.offset });
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.openOutlineItem', (book: Book, item: PdfOutlineItem) => {
+            if (book && item && item.page !== undefined) {
+                bookContentViewProvider.openBook(book, { page: item.page });
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.bossKey', () => {
+            // 按老板键后由用户决定何时恢复，自动隐藏规则结束时不再自动恢复
+            hiddenByRule = false;
+            setReaderHidden(!bookContentViewProvider.isDisguised());
+        }),
+
+        vscode.commands.registerCommand('readplugin.configureAutoHide', async () => {
+            const settings = state.getSettings();
+            const items: (vscode.QuickPickItem & { rule: 'autoHideOnDebug' | 'autoHideOnFocusLoss' | 'autoHideOnTerminalCommand' | 'autoHideIdleMinutes' })[] = [
+                { label: 'When a debug session starts', rule: 'autoHideOnDebug', picked: settings.autoHideOnDebug },
+                { label: 'When the window loses focus', rule: 'autoHideOnFocusLoss', picked: settings.autoHideOnFocusLoss },
+                { label: 'While a terminal command runs', description: 'Requires terminal shell integration', rule: 'autoHideOnTerminalCommand', picked: settings.autoHideOnTerminalCommand },
+                {
+                    label: 'After an idle period',
+                    description: settings.autoHideIdleMinutes > 0 ? `${settings.autoHideIdleMinutes} min` : undefined,
+                    rule: 'autoHideIdleMinutes',
+                    picked: settings.autoHideIdleMinutes > 0
+                }
+            ];
+            const picked = await vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                placeHolder: 'Hide the reader automatically...'
+            });
+            if (!picked) {
+                return;
+            }
+
+            const rules = new Set(picked.map(item => item.rule));
+            let idleMinutes = 0;
+            if (rules.has('autoHideIdleMinutes')) {
+                const input = await vscode.window.showInputBox({
+                    prompt: 'Hide the reader after this many idle minutes',
+                    value: String(settings.autoHideIdleMinutes > 0 ? settings.autoHideIdleMinutes : 5),
+                    validateInput: value => /^\d+(\.\d+)?$/.test(value.trim()) && Number(value) > 0 ? undefined : 'Enter a positive number'
+                });
+                if (input === undefined) {
+                    return;
+                }
+                idleMinutes = Number(input);
+            }
+
+            state.updateSettings({
+                autoHideOnDebug: rules.has('autoHideOnDebug'),
+                autoHideOnFocusLoss: rules.has('autoHideOnFocusLoss'),
+                autoHideOnTerminalCommand: rules.has('autoHideOnTerminalCommand'),
+                autoHideIdleMinutes: idleMinutes
+            });
+            autoHideManager.refresh();
+        }),
+
+        vscode.commands.registerCommand('readplugin.toggleStatusBarReading', async (item?: BookItem) => {
+            if (statusBarReader.active && !(item && item.book)) {
+                const bookId = statusBarReader.bookId;
+                statusBarReader.stop();
+                // 侧栏阅读器从状态栏读到的位置继续
+                if (bookId) {
+                    bookContentViewProvider.reloadBook(bookId);
+                }
+                return;
+            }
+
+            // 从书籍列表调用时阅读该书籍，从命令面板调用时阅读当前打开的文本书籍
+            const book = await pickTextBook(state, item, bookContentViewProvider.getCurrentBook(), {
+                unsupported: 'Status bar reading is only available for text books',
+                empty: 'No text books to read',
+                placeHolder: 'Select a book to read in the status bar'
+            });
+            if (!book) {
+                return;
+            }
+
+            try {
+                statusBarReader.start(state.getBook(book.id) || book);
+            } catch (error) {
+                statusBarReader.stop();
+                vscode.window.showErrorMessage(`Failed to read ${book.name}: ${(error as Error).message}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.openCodeDisguise', async (item?: BookItem) => {
+            const book = await pickTextBook(state, item, bookContentViewProvider.getCurrentBook(), {
+                unsupported: 'Code disguise is only available for text books',
+                empty: 'No text books to read',
+                placeHolder: 'Select a book to open as source code'
+            });
+            if (!book) {
+                return;
+            }
+
+            try {
+                await codeDisguiseProvider.open(state.getBook(book.id) || book, state.getSettings().codeDisguiseLanguage);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read ${book.name}: ${(error as Error).message}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.codeDisguiseNextPage', (uri?: vscode.Uri) => {
+            turnCodeDisguisePage(1, uri);
+        }),
+
+        vscode.commands.registerCommand('readplugin.codeDisguisePreviousPage', (uri?: vscode.Uri) => {
+            turnCodeDisguisePage(-1, uri);
+        }),
+
+        vscode.commands.registerCommand('readplugin.statusBarNextLine', () => {
+            autoHideManager.markActivity();
+            statusBarReader.next();
+        }),
+
+        vscode.commands.registerCommand('readplugin.statusBarPreviousLine', () => {
+            autoHideManager.markActivity();
+            statusBarReader.previous();
+        }),
+
+        vscode.commands.registerCommand('readplugin.toggleStatusBarAutoAdvance', () => {
+            if (!statusBarReader.active) {
+                vscode.window.showInformationMessage('Status bar reading is not active');
+                return;
+            }
+            statusBarReader.setAutoAdvance(!statusBarReader.autoAdvancing);
+        }),
+
+        vscode.commands.registerCommand('readplugin.selectReadingTheme', () => {
+            const settings = state.getSettings();
+            const builtinLabels: { [key: string]: string } = { paper: 'Paper', sepia: 'Sepia', night: 'Night', highContrast: 'High Contrast' };
+            const items: (vscode.QuickPickItem & { theme: string })[] = [
+                { label: 'Follow VS Code', theme: 'auto' },
+                ...BUILTIN_READING_THEMES.map(theme => ({ label: builtinLabels[theme.name] || theme.name, theme: theme.name })),
+                ...(settings.customThemes || [])
+                    .filter(theme => theme && theme.name)
+                    .map(theme => ({ label: theme.name, description: 'Custom', theme: theme.name }))
+            ];
+
+            // 在列表中移动时预览主题，取消选择时恢复原来的主题
+            const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { theme: string }>();
+            quickPick.items = items;
+            quickPick.placeholder = 'Select a reading theme';
+            quickPick.activeItems = items.filter(item => item.theme === settings.theme);
+            quickPick.onDidChangeActive(active => {
+                if (active[0]) {
+                    bookContentViewProvider.updateReadingStyle({ ...state.getSettings(), theme: active[0].theme });
+                }
+            });
+            quickPick.onDidAccept(() => {
+                const picked = quickPick.selectedItems[0];
+                if (picked) {
+                    state.updateSettings({ theme: picked.theme });
+                }
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                // 应用保存的主题：选择后为新主题，取消后恢复原来的主题
+                bookContentViewProvider.updateReadingStyle();
+                quickPick.dispose();
+            });
+            quickPick.show();
+        }),
+
+        vscode.commands.registerCommand('readplugin.togglePdfScrollMode', () => {
+            const mode = state.getSettings().pdfScrollMode === 'continuous' ? 'single' : 'continuous';
+            bookContentViewProvider.setPdfScrollMode(mode);
+            vscode.window.showInformationMessage(`PDF scroll mode: ${mode === 'continuous' ? 'Continuous' : 'Single Page'}`);
+        }),
+
+        vscode.commands.registerCommand('readplugin.rebuildChapterIndex', async (item: BookItem) => {
+            if (item && item.book) {
+                if (!state.isTextBook(item.book)) {
+                    vscode.window.showInformationMessage('Chapter detection is only available for text books');
+                    return;
+                }
+                const chapters = await state.rebuildChapters(item.book.id);
+                if (chapters) {
+                    booksTreeDataProvider.refresh();
+                    vscode.window.showInformationMessage(`Found ${chapters.length} chapters in ${item.book.name}`);
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.changeEncoding', async (item?: BookItem) => {
+            const book = await pickTextBook(state, item, bookContentViewProvider.getCurrentBook(), {
+                unsupported: 'Encoding can only be changed for text books',
+                empty: 'No text books',
+                placeHolder: 'Select a book to change its encoding'
+            });
+            if (!book) {
+                return;
+            }
+
+            // 每个候选编码显示书籍开头的解码结果，便于判断哪个编码正确
+            const PREVIEW_LENGTH = 300;
+            const current = book.encoding || 'utf8';
+            const encodings = Object.keys(EncodingUtils.ENCODING_LABELS);
+            if (!encodings.includes(current)) {
+                encodings.unshift(current);
+            }
+            const preview = (encoding: string) => {
+                try {
+                    const text = EncodingUtils.readFileWithEncoding(book.path, 0, Math.min(book.fileSize, PREVIEW_LENGTH * 4), encoding);
+                    return text.replace(/\s+/g, ' ').trim().substring(0, PREVIEW_LENGTH);
+                } catch (error) {
+                    return `Cannot decode: ${(error as Error).message}`;
+                }
+            };
+            const items: (vscode.QuickPickItem & { encoding?: string })[] = [
+                { label: '$(refresh) Re-detect Encoding', detail: 'Analyze a larger sample of the file to detect its encoding' },
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                ...encodings.map(encoding => ({
+                    label: EncodingUtils.ENCODING_LABELS[encoding] || encoding,
+                    description: encoding === current ? 'Current' : undefined,
+                    detail: preview(encoding),
+                    encoding: encoding
+                }))
+            ];
+            const picked = await vscode.window.showQuickPick(items, {
+                title: `Encoding of ${book.name}`,
+                placeHolder: 'Select the encoding whose preview reads correctly'
+            });
+            if (!picked) {
+                return;
+            }
+
+            const detected = picked.encoding ? undefined : EncodingUtils.detectEncodingWithConfidence(book.path, EncodingUtils.LARGE_SAMPLE_SIZE);
+            const encoding = picked.encoding ?? detected?.encoding ?? current;
+            const label = EncodingUtils.ENCODING_LABELS[encoding] || encoding;
+            const confidence = detected ? ` (${Math.round(detected.confidence * 100)}% confidence)` : '';
+            if (encoding === current) {
+                vscode.window.showInformationMessage(picked.encoding ? `${book.name} already uses ${label}` : `Detected ${label}${confidence}, which is already in use`);
+                return;
+            }
+            if (!state.setBookEncoding(book.id, encoding)) {
+                return;
+            }
+
+            // 重新显示使用该书籍的阅读器
+            booksTreeDataProvider.refresh();
+            bookContentViewProvider.reloadBook(book.id);
+            if (statusBarReader.active && statusBarReader.bookId === book.id) {
+                statusBarReader.start(state.getBook(book.id) || book);
+            }
+            vscode.window.showInformationMessage(`${picked.encoding ? 'Changed' : 'Detected'} encoding of ${book.name}: ${label}${confidence}`);
+        }),
+
+        vscode.commands.registerCommand('readplugin.searchInBook', async (item?: BookItem) => {
+            // 从书籍列表调用时搜索该书籍，从命令面板调用时搜索当前打开的文本书籍
+            const book = await pickTextBook(state, item, bookContentViewProvider.getCurrentBook(), {
+                unsupported: 'Full-text search is only available for text books',
+                empty: 'No text books to search',
+                placeHolder: 'Select a book to search'
+            });
+            if (!book) {
+                return;
+            }
+
+            const query = await vscode.window.showInputBox({
+                prompt: `Search in ${book.name}`,
+                placeHolder: 'Text to find'
+            });
+            if (!query) {
+                return;
+            }
+
+            const target = book;
+            let results: TextSearchResult[] | undefined;
+            try {
+                results = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Searching "${query}" in ${target.name}`,
+                    cancellable: true
+                }, async (progress, token) => {
+                    let reported = 0;
+                    return TextSearcher.search(target.path, target.encoding || 'utf8', query, TextSearcher.MAX_RESULTS, fraction => {
+                        const percent = Math.floor(fraction * 100);
+                        if (percent > reported) {
+                            progress.report({ increment: percent - reported, message: `${percent}%` });
+                            reported = percent;
+                        }
+                        return !token.isCancellationRequested;
+                    });
+                });
+            } catch (error) {
+                vscode.window.showErrorMessage(`Search failed: ${(error as Error).message}`);
+                return;
+            }
+            if (!results) {
+                return;
+            }
+
+            if (results.length === 0) {
+                vscode.window.showInformationMessage(`No results for "${query}" in ${target.name}`);
+                return;
+            }
+
+            const picks = results.map(result => ({
+                label: result.preview,
+                description: `Line ${result.lineNumber} · ${target.fileSize > 0 ? (result.offset / target.fileSize * 100).toFixed(1) : '0.0'}%`,
+                result: result
+            }));
+            const limited = results.length >= TextSearcher.MAX_RESULTS;
+            const picked = await vscode.window.showQuickPick(picks, {
+                title: `${limited ? 'First ' : ''}${results.length} results for "${query}"`,
+                placeHolder: 'Select a result to open',
+                matchOnDescription: true
+            });
+
+            if (picked) {
+                const result = picked.result;
+                bookContentViewProvider.openBook(state.getBook(target.id) || target, { offset: result.offset }, {
+                    start: result.offset,
+                    end: result.offset + result.length
+                });
+            }
+        }),
+
         vscode.commands.registerCommand('readplugin.removeBook', (item: BookItem) => {
             if (item && item.book) {
                 const removed = state.removeBook(item.book.id);
                 if (removed) {
                     booksTreeDataProvider.refresh();
+                    annotationsTreeDataProvider.refresh();
                     vscode.window.showInformationMessage(`Book removed: ${item.book.name}`);
                 }
             }
         }),
 
+        vscode.commands.registerCommand('readplugin.addBookmark', () => {
+            bookContentViewProvider.requestBookmark();
+        }),
+
+        vscode.commands.registerCommand('readplugin.renameBookmark', async (item: BookmarkItem) => {
+            if (item && item.bookmark) {
+                const name = await vscode.window.showInputBox({
+                    prompt: 'New bookmark name',
+                    value: item.bookmark.name
+                });
+                if (name && name.trim() && state.renameBookmark(item.book.id, item.bookmark.id, name.trim())) {
+                    booksTreeDataProvider.refresh();
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.deleteBookmark', (item: BookmarkItem) => {
+            if (item && item.bookmark && state.removeBookmark(item.book.id, item.bookmark.id)) {
+                booksTreeDataProvider.refresh();
+                vscode.window.showInformationMessage(`Bookmark removed: ${item.bookmark.name}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.jumpToBookmark', async (item?: BookmarkItem) => {
+            let target = item && item.bookmark ? { book: item.book, bookmark: item.bookmark } : undefined;
+
+            // 从命令面板调用时，选择要跳转的书签
+            if (!target) {
+                const picks = state.getBooks().flatMap(book => state.getBookmarks(book.id).map(bookmark => ({
+                    label: bookmark.name,
+                    description: book.name,
+                    detail: bookmark.page !== undefined ? `Page ${bookmark.page}` : bookmark.snippet,
+                    book: book,
+                    bookmark: bookmark
+                })));
+                if (picks.length === 0) {
+                    vscode.window.showInformationMessage('No bookmarks yet');
+                    return;
+                }
+                target = await vscode.window.showQuickPick(picks, { placeHolder: 'Select a bookmark' });
+            }
+
+            if (target) {
+                const book = state.getBook(target.book.id) || target.book;
+                bookContentViewProvider.openBook(book, {
+                    offset: target.bookmark.offset,
+                    page: target.bookmark.page,
+                    pageOffset: target.bookmark.pageOffset
+                });
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.openAnnotation', (item: AnnotationItem) => {
+            if (item && item.annotation) {
+                const book = state.getBook(item.book.id) || item.book;
+                bookContentViewProvider.openBook(book, { offset: item.annotation.start });
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.editAnnotationNote', async (item: AnnotationItem) => {
+            if (item && item.annotation) {
+                const note = await vscode.window.showInputBox({
+                    prompt: 'Note (leave empty to remove)',
+                    value: item.annotation.note || ''
+                });
+                if (note !== undefined) {
+                    const annotation = state.updateAnnotation(item.book.id, item.annotation.id, { note: note.trim() });
+                    if (annotation) {
+                        annotationsTreeDataProvider.refresh();
+                        bookContentViewProvider.refreshAnnotations(item.book.id, annotation);
+                    }
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.changeAnnotationColor', async (item: AnnotationItem) => {
+            if (item && item.annotation) {
+                const picked = await vscode.window.showQuickPick(
+                    ANNOTATION_COLORS.map(color => ({
+                        label: color.charAt(0).toUpperCase() + color.slice(1),
+                        description: color === item.annotation.color ? 'Current' : undefined,
+                        color: color
+                    })),
+                    { placeHolder: 'Select a highlight color' }
+                );
+                if (picked) {
+                    const annotation = state.updateAnnotation(item.book.id, item.annotation.id, { color: picked.color });
+                    if (annotation) {
+                        annotationsTreeDataProvider.refresh();
+                        bookContentViewProvider.refreshAnnotations(item.book.id, annotation);
+                    }
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.deleteAnnotation', (item: AnnotationItem) => {
+            if (item && item.annotation) {
+                const annotation = state.removeAnnotation(item.book.id, item.annotation.id);
+                if (annotation) {
+                    annotationsTreeDataProvider.refresh();
+                    bookContentViewProvider.refreshAnnotations(item.book.id, annotation);
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.exportAnnotations', async (item?: BookItem | AnnotationBookItem) => {
+            const hasEntries = (book: Book) => (book.annotations?.length || 0) + (book.bookmarks?.length || 0) > 0;
+
+            // 从书籍列表调用时导出该书籍，否则选择一本书籍或整个书库
+            let books: Book[];
+            if (item && item.book) {
+                books = [state.getBook(item.book.id) || item.book].filter(hasEntries);
+                if (books.length === 0) {
+                    vscode.window.showInformationMessage(`No annotations or bookmarks in ${item.book.name}`);
+                    return;
+                }
+            } else {
+                const candidates = state.getBooks().filter(hasEntries);
+                if (candidates.length === 0) {
+                    vscode.window.showInformationMessage('No annotations or bookmarks to export');
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick([
+                    { label: '$(library) All Books', description: `${candidates.length} books`, books: candidates },
+                    ...candidates.map(book => ({
+                        label: book.name,
+                        description: `${book.annotations?.length || 0} annotations, ${book.bookmarks?.length || 0} bookmarks`,
+                        books: [book]
+                    }))
+                ], { placeHolder: 'Select the books to export' });
+                if (!picked) {
+                    return;
+                }
+                books = picked.books;
+            }
+
+            const format = await vscode.window.showQuickPick([
+                { label: 'Markdown', description: 'Quotes and notes grouped by chapter', format: 'markdown' as ExportFormat, extension: 'md' },
+                { label: 'JSON', description: 'Full offsets and timestamps, can be imported again', format: 'json' as ExportFormat, extension: 'json' },
+                { label: 'CSV', description: 'One row per annotation or bookmark, for spreadsheets', format: 'csv' as ExportFormat, extension: 'csv' }
+            ], { placeHolder: 'Select the export format' });
+            if (!format) {
+                return;
+            }
+
+            // 确保文本书籍的章节索引已建立，用于按章节分组
+            for (const book of books) {
+                await state.ensureChapters(book.id);
+            }
+            books = books.map(book => state.getBook(book.id) || book);
+
+            const baseName = books.length === 1
+                ? path.parse(books[0].name).name.replace(/[\\/:*?"<>|]/g, '_')
+                : 'library';
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(os.homedir(), `${baseName}-annotations.${format.extension}`)),
+                filters: { [format.label]: [format.extension] }
+            });
+            if (!uri) {
+                return;
+            }
+
+            try {
+                fs.writeFileSync(uri.fsPath, AnnotationExporter.export(books, format.format), 'utf8');
+                vscode.window.showInformationMessage(`Exported annotations to ${path.basename(uri.fsPath)}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to export annotations: ${(error as Error).message}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('readplugin.importAnnotations', async () => {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Import',
+                filters: { 'JSON': ['json'] }
+            });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            let exported: ExportedBook[];
+            try {
+                exported = AnnotationExporter.parse(fs.readFileSync(uris[0].fsPath, 'utf8'));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import annotations: ${(error as Error).message}`);
+                return;
+            }
+
+            // 按文件路径匹配书库中的书籍，路径不同时按名称和文件大小匹配
+            let annotationCount = 0;
+            let bookmarkCount = 0;
+            const missing: string[] = [];
+            for (const entry of exported) {
+                const books = state.getBooks();
+                const book = books.find(b => b.path === entry.path) ||
+                    books.find(b => b.name === entry.name && b.fileSize === entry.fileSize);
+                if (!book) {
+                    missing.push(entry.name);
+                    continue;
+                }
+                const result = state.importAnnotations(book.id, entry.annotations, entry.bookmarks);
+                annotationCount += result.annotations;
+                bookmarkCount += result.bookmarks;
+                if (result.annotations > 0) {
+                    bookContentViewProvider.refreshAnnotations(book.id, { start: 0, end: book.fileSize });
+                }
+            }
+
+            booksTreeDataProvider.refresh();
+            annotationsTreeDataProvider.refresh();
+            const message = `Imported ${annotationCount} annotations and ${bookmarkCount} bookmarks`;
+            if (missing.length > 0) {
+                vscode.window.showWarningMessage(`${message}. Books not in the library: ${missing.join(', ')}`);
+            } else {
+                vscode.window.showInformationMessage(message);
+            }
+        }),
+
         vscode.commands.registerCommand('readplugin.increaseFontSize', () => {
             state.increaseFontSize();
             bookContentViewProvider.refreshFontSize();
@@ -2069,12 +7040,18 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             if (token && userId) {
-                state.updateSettings({ wechatReadToken: token, wechatReadUserId: userId });
+                await state.setWechatCredentials({ token: token, userId: userId });
                 booksTreeDataProvider.refresh();
                 vscode.window.showInformationMessage('WeChat Read credentials saved.');
             }
         }),
 
+        vscode.commands.registerCommand('readplugin.logoutWechatRead', async () => {
+            await state.clearWechatCredentials();
+            booksTreeDataProvider.refresh();
+            vscode.window.showInformationMessage('Logged out of WeChat Read. Saved credentials were removed.');
+        }),
+
         vscode.commands.registerCommand('readplugin.syncWechatBooks', async () => {
             await state.syncWechatBooks();
             booksTreeDataProvider.refresh();
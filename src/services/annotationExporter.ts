@@ -0,0 +1,333 @@
+/**
+ * services/annotationExporter.ts
+ * 标注导出服务类
+ *
+ * 功能说明：
+ * 1. 导出Markdown - 按书籍和章节组织，标注文本以引用显示，笔记紧随其后，书签列在最后
+ * 2. 导出JSON - 保留完整的字节范围、页码和时间戳，可以导入到其他机器
+ * 3. 导出CSV - 每个标注或书签一行，可以直接用电子表格打开
+ * 4. 解析JSON - 读取导出的JSON文件并校验其中的标注和书签
+ *
+ * 核心概念：
+ * - 字节范围：标注在文件中的起止字节偏移，导入时直接使用，与机器和字体无关
+ * - 章节：标注或书签之前最近的章节标题，来自文本书籍的章节索引
+ *
+ * 技术要点：
+ * - 导出时按字节范围重新读取标注的完整文本，读取失败时使用保存的文本片段
+ * - CSV带有UTF-8 BOM，电子表格软件可以正确识别中文；以公式字符开头的单元格会被转义
+ */
+import { EncodingUtils } from '../utils/encodingUtils';
+import { Annotation, Book, Bookmark, Chapter, ANNOTATION_COLORS } from '../types';
+
+/**
+ * 导出格式类型
+ */
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+/**
+ * 导出的书籍接口
+ *
+ * 字段说明：
+ * - name/path/fileSize: 书籍信息 - 导入时用于匹配书库中的书籍
+ * - annotations: 标注列表 - text为标注的完整文本
+ * - bookmarks: 书签列表
+ */
+export interface ExportedBook {
+    /** 书籍名称 */
+    name: string;
+    /** 书籍文件路径 */
+    path: string;
+    /** 文件大小（字节） */
+    fileSize: number;
+    /** 标注列表 */
+    annotations: Annotation[];
+    /** 书签列表 */
+    bookmarks: Bookmark[];
+}
+
+/**
+ * 导出文件接口
+ */
+export interface AnnotationExport {
+    /** 导出格式版本 */
+    version: number;
+    /** 导出时间戳 */
+    exportedTime: number;
+    /** 书籍列表 */
+    books: ExportedBook[];
+}
+
+/**
+ * 标注导出服务类
+ *
+ * 功能：
+ * 1. 将书籍的标注和书签导出为Markdown、JSON或CSV
+ * 2. 解析导出的JSON文件
+ */
+export class AnnotationExporter {
+    /** 导出格式版本 */
+    static readonly VERSION = 1;
+
+    /**
+     * 导出书籍的标注和书签
+     *
+     * @param books 要导出的书籍，章节索引应已建立
+     * @param format 导出格式
+     * @returns 导出的文件内容
+     */
+    static export(books: Book[], format: ExportFormat): string {
+        const exported = books.map(book => this.toExportedBook(book));
+        switch (format) {
+            case 'markdown':
+                return this.toMarkdown(books, exported);
+            case 'csv':
+                return this.toCsv(books, exported);
+            default:
+                return JSON.stringify({
+                    version: this.VERSION,
+                    exportedTime: Date.now(),
+                    books: exported
+                } as AnnotationExport, null, 2);
+        }
+    }
+
+    /**
+     * 解析导出的JSON文件
+     *
+     * @param content JSON文件内容
+     * @returns 书籍列表，无效的标注和书签会被忽略
+     * @throws 当内容不是有效的导出文件时抛出错误
+     */
+    static parse(content: string): ExportedBook[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(content.replace(/^\uFEFF/, ''));
+        } catch (error) {
+            throw new Error(`Invalid JSON: ${(error as Error).message}`);
+        }
+        if (!isRecord(data) || !Array.isArray(data.books)) {
+            throw new Error('Not an annotation export file');
+        }
+        if (typeof data.version === 'number' && data.version > this.VERSION) {
+            throw new Error(`Unsupported export version ${data.version}`);
+        }
+
+        // 同一次导入中的ID互不相同，缺少ID或ID重复的条目生成新的ID
+        const usedIds = new Set<string>();
+        return data.books
+            .filter((book): book is Record<string, unknown> => isRecord(book) && typeof book.name === 'string')
+            .map((book): ExportedBook => ({
+                name: String(book.name),
+                path: typeof book.path === 'string' ? book.path : '',
+                fileSize: Number(book.fileSize) || 0,
+                annotations: (Array.isArray(book.annotations) ? book.annotations : [])
+                    .filter((annotation): annotation is Record<string, unknown> & { start: number; end: number } => isRecord(annotation) &&
+                        Number.isInteger(annotation.start) && Number.isInteger(annotation.end) &&
+                        (annotation.start as number) >= 0 && (annotation.end as number) > (annotation.start as number))
+                    .map((annotation): Annotation => ({
+                        id: this.uniqueId(annotation.id, usedIds),
+                        start: annotation.start,
+                        end: annotation.end,
+                        color: ANNOTATION_COLORS.find(color => color === annotation.color) || ANNOTATION_COLORS[0],
+                        text: String(annotation.text || ''),
+                        note: annotation.note ? String(annotation.note) : undefined,
+                        createdTime: Number(annotation.createdTime) || Date.now()
+                    })),
+                bookmarks: (Array.isArray(book.bookmarks) ? book.bookmarks : [])
+                    .filter((bookmark): bookmark is Record<string, unknown> => isRecord(bookmark) &&
+                        (Number.isInteger(bookmark.offset) || Number.isInteger(bookmark.page)))
+                    .map((bookmark): Bookmark => ({
+                        id: this.uniqueId(bookmark.id, usedIds),
+                        name: String(bookmark.name || ''),
+                        offset: Number.isInteger(bookmark.offset) ? bookmark.offset as number : undefined,
+                        page: Number.isInteger(bookmark.page) ? bookmark.page as number : undefined,
+                        pageOffset: typeof bookmark.pageOffset === 'number' ? bookmark.pageOffset : undefined,
+                        snippet: String(bookmark.snippet || ''),
+                        createdTime: Number(bookmark.createdTime) || Date.now()
+                    }))
+            }));
+    }
+
+    /**
+     * 生成本次导入中唯一的ID
+     *
+     * @param id 导出文件中的ID
+     * @param usedIds 本次导入已使用的ID，生成的ID会加入其中
+     * @returns 导出文件中的ID未被使用时原样返回，否则返回带随机后缀的时间戳
+     */
+    private static uniqueId(id: unknown, usedIds: Set<string>): string {
+        let result = typeof id === 'string' || typeof id === 'number' ? String(id) : '';
+        while (!result || usedIds.has(result)) {
+            result = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        }
+        usedIds.add(result);
+        return result;
+    }
+
+    /**
+     * 生成导出的书籍数据
+     *
+     * @param book 书籍对象
+     * @returns 按位置排列的标注和书签，标注带有完整文本
+     */
+    private static toExportedBook(book: Book): ExportedBook {
+        return {
+            name: book.name,
+            path: book.path,
+            fileSize: book.fileSize,
+            annotations: [...(book.annotations || [])]
+                .sort((a, b) => a.start - b.start)
+                .map(annotation => ({ ...annotation, text: this.readAnnotationText(book, annotation) })),
+            bookmarks: [...(book.bookmarks || [])]
+                .sort((a, b) => (a.page ?? a.offset ?? 0) - (b.page ?? b.offset ?? 0))
+        };
+    }
+
+    /**
+     * 读取标注的完整文本
+     *
+     * @param book 书籍对象
+     * @param annotation 标注对象
+     * @returns 标注的完整文本，文件无法读取时返回保存的文本片段
+     */
+    private static readAnnotationText(book: Book, annotation: Annotation): string {
+        try {
+            const text = EncodingUtils.readFileWithEncoding(book.path, annotation.start, annotation.end, book.encoding || 'utf8');
+            return text.replace(/\r\n/g, '\n') || annotation.text;
+        } catch (error) {
+            console.warn(`Failed to read annotation text from ${book.path}:`, error);
+            return annotation.text;
+        }
+    }
+
+    /**
+     * 查找位置所在的章节
+     *
+     * @param chapters 按文件顺序排列的章节列表
+     * @param offset 字节偏移
+     * @returns 位置之前最近的章节标题，位于第一个章节之前时返回空字符串
+     */
+    private static findChapter(chapters: Chapter[] | undefined, offset: number | undefined): string {
+        let title = '';
+        if (!chapters || offset === undefined) {
+            return title;
+        }
+        for (const chapter of chapters) {
+            if (chapter.offset > offset) {
+                break;
+            }
+            title = chapter.title;
+        }
+        return title;
+    }
+
+    /**
+     * 生成Markdown
+     *
+     * @param books 书籍列表
+     * @param exported 对应的导出数据
+     * @returns Markdown文本
+     */
+    private static toMarkdown(books: Book[], exported: ExportedBook[]): string {
+        const lines: string[] = [];
+
+        exported.forEach((entry, index) => {
+            const book = books[index];
+            lines.push(`# ${entry.name}`, '');
+            if (book.author) {
+                lines.push(`*${book.author}*`, '');
+            }
+
+            let currentChapter = '';
+            for (const annotation of entry.annotations) {
+                const chapter = this.findChapter(book.chapters, annotation.start);
+                if (chapter && chapter !== currentChapter) {
+                    lines.push(`## ${chapter}`, '');
+                    currentChapter = chapter;
+                }
+                lines.push(...annotation.text.split('\n').map(line => `> ${line}`.trimEnd()), '');
+                if (annotation.note) {
+                    lines.push(`**Note:** ${annotation.note}`, '');
+                }
+            }
+
+            if (entry.bookmarks.length > 0) {
+                lines.push('## Bookmarks', '');
+                for (const bookmark of entry.bookmarks) {
+                    const location = bookmark.page !== undefined
+                        ? `Page ${bookmark.page}`
+                        : this.findChapter(book.chapters, bookmark.offset);
+                    lines.push(`- **${bookmark.name}**${location ? ` (${location})` : ''}${bookmark.snippet ? `: ${bookmark.snippet}` : ''}`);
+                }
+                lines.push('');
+            }
+        });
+
+        return lines.join('\n');
+    }
+
+    /**
+     * 生成CSV
+     *
+     * @param books 书籍列表
+     * @param exported 对应的导出数据
+     * @returns 带UTF-8 BOM的CSV文本
+     */
+    private static toCsv(books: Book[], exported: ExportedBook[]): string {
+        const rows: (string | number | undefined)[][] = [
+            ['Book', 'Type', 'Chapter', 'Start', 'End', 'Page', 'Color', 'Text', 'Note', 'Created']
+        ];
+
+        exported.forEach((entry, index) => {
+            const book = books[index];
+            for (const annotation of entry.annotations) {
+                rows.push([
+                    entry.name, 'highlight', this.findChapter(book.chapters, annotation.start),
+                    annotation.start, annotation.end, undefined, annotation.color,
+                    annotation.text, annotation.note, new Date(annotation.createdTime).toISOString()
+                ]);
+            }
+            for (const bookmark of entry.bookmarks) {
+                rows.push([
+                    entry.name, 'bookmark', this.findChapter(book.chapters, bookmark.offset),
+                    bookmark.offset, undefined, bookmark.page, undefined,
+                    bookmark.snippet, bookmark.name, new Date(bookmark.createdTime).toISOString()
+                ]);
+            }
+        });
+
+        return '\uFEFF' + rows.map(row => row.map(value => this.escapeCsv(value)).join(',')).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * 转义CSV单元格
+     *
+     * 功能：
+     * 包含逗号、引号或换行的值使用双引号包裹；以=、+、-、@开头的文本前加单引号，防止被电子表格当作公式执行
+     *
+     * @param value 单元格的值
+     * @returns 转义后的单元格文本
+     */
+    private static escapeCsv(value: string | number | undefined): string {
+        if (value === undefined) {
+            return '';
+        }
+        if (typeof value === 'number') {
+            return String(value);
+        }
+        let text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+        if (/[",\r\n]/.test(text)) {
+            text = `"${text.replace(/"/g, '""')}"`;
+        }
+        return text;
+    }
+}
+
+/**
+ * 判断值是否为普通对象
+ * @param value 任意值
+ * @returns 是否为非空、非数组的对象
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
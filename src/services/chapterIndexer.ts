@@ -0,0 +1,70 @@
+/**
+ * services/chapterIndexer.ts
+ * 章节索引服务类
+ *
+ * 功能说明：
+ * 1. 编译章节标题规则 - 无效的正则表达式会被跳过
+ * 2. 识别章节标题 - 使用可配置的正则表达式匹配"第X章"、"Chapter N"、"序章"等标题行
+ * 3. 供全文扫描使用 - TextIndexer在建立文本索引的同一次扫描中记录每个章节标题行的字节偏移
+ *
+ * 核心概念：
+ * - 章节标题规则：正则表达式字符串，匹配去除首尾空白后的单行文本，忽略大小写
+ * - 字节偏移：章节标题行在文件中的起始字节位置，与分块加载使用同一坐标
+ *
+ * 技术要点：
+ * - 过长的行不会被当作标题，避免把正文段落误识别为章节
+ * - 无效的正则表达式会被跳过并记录警告，不影响其他规则
+ */
+
+/**
+ * 章节索引服务类
+ *
+ * 功能：
+ * 1. 编译章节标题规则
+ * 2. 提供章节标题匹配函数
+ */
+export class ChapterIndexer {
+    /** 标题行最大长度 - 超过该长度的行视为正文 */
+    private static readonly MAX_TITLE_LENGTH = 50;
+
+    /**
+     * 创建章节标题匹配函数
+     *
+     * 功能：
+     * 供全文扫描（如TextIndexer）逐行识别章节
+     *
+     * @param patterns 章节标题规则（正则表达式字符串）
+     * @returns 匹配函数，行是章节标题时返回去除首尾空白的标题，否则返回undefined；没有有效规则时返回undefined
+     */
+    static createMatcher(patterns: string[]): ((line: string) => string | undefined) | undefined {
+        const regexes = this.compilePatterns(patterns);
+        if (regexes.length === 0) {
+            return undefined;
+        }
+        return line => {
+            const title = line.trim();
+            if (title.length === 0 || title.length > this.MAX_TITLE_LENGTH) {
+                return undefined;
+            }
+            return regexes.some(regex => regex.test(title)) ? title : undefined;
+        };
+    }
+
+    /**
+     * 编译章节标题规则
+     *
+     * @param patterns 正则表达式字符串列表
+     * @returns 编译成功的正则表达式列表
+     */
+    private static compilePatterns(patterns: string[]): RegExp[] {
+        const regexes: RegExp[] = [];
+        for (const pattern of patterns || []) {
+            try {
+                regexes.push(new RegExp(pattern, 'i'));
+            } catch (error) {
+                console.warn(`Invalid chapter pattern "${pattern}":`, error);
+            }
+        }
+        return regexes;
+    }
+}
\ No newline at end of file
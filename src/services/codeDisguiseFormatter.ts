@@ -0,0 +1,218 @@
+/**
+ * services/codeDisguiseFormatter.ts
+ * 代码伪装格式化服务类
+ *
+ * 功能说明：
+ * 1. 生成伪装文件名 - 根据书籍ID选择一个看起来像普通源码的文件名
+ * 2. 折行 - 按显示宽度折行，中日韩等全角字符按两个字符宽度计算
+ * 3. 生成伪装代码 - 将书籍文本包装为注释块，每个注释块后面跟随一段假代码
+ *
+ * 核心概念：
+ * - 伪装语言：typescript使用块注释和函数，python使用行注释和def函数
+ * - 种子：同一页总是生成相同的假代码，翻回来时内容不会变化
+ *
+ * 技术要点：
+ * - 文本中的注释结束符会被拆开，保证整页都是合法的源码
+ * - 假代码只用于显示，不会被执行
+ */
+
+/**
+ * 伪装语言类型
+ */
+export type DisguiseLanguage = 'typescript' | 'python';
+
+/**
+ * 代码伪装格式化服务类
+ *
+ * 功能：
+ * 1. 生成伪装文件名
+ * 2. 将一页书籍文本格式化为伪装代码
+ */
+export class CodeDisguiseFormatter {
+    /** 注释行的最大显示宽度 */
+    private static readonly LINE_WIDTH = 80;
+    /** 每个注释块的最大行数 */
+    private static readonly BLOCK_LINES = 12;
+
+    /** 伪装文件名 */
+    private static readonly FILE_NAMES = [
+        'requestHandler', 'sessionStore', 'cacheManager', 'configLoader',
+        'eventQueue', 'schemaValidator', 'tokenService', 'retryPolicy'
+    ];
+    /** 假代码使用的动词 */
+    private static readonly VERBS = ['resolve', 'validate', 'normalize', 'dispatch', 'merge', 'collect', 'restore', 'flush'];
+    /** 假代码使用的名词 */
+    private static readonly NOUNS = ['Entry', 'Options', 'Payload', 'Snapshot', 'Context', 'Record', 'Batch', 'Token'];
+
+    /**
+     * 获取伪装文件的扩展名
+     * @param language 伪装语言
+     * @returns 扩展名（包含点号）
+     */
+    static getExtension(language: DisguiseLanguage): string {
+        return language === 'python' ? '.py' : '.ts';
+    }
+
+    /**
+     * 生成伪装文件名
+     *
+     * @param bookId 书籍ID - 同一本书总是得到相同的文件名
+     * @param language 伪装语言
+     * @returns 带扩展名的文件名，python使用下划线风格
+     */
+    static getFileName(bookId: string, language: DisguiseLanguage): string {
+        const name = this.FILE_NAMES[this.hash(bookId) % this.FILE_NAMES.length];
+        const base = language === 'python' ? name.replace(/[A-Z]/g, c => '_' + c.toLowerCase()) : name;
+        return base + this.getExtension(language);
+    }
+
+    /**
+     * 将一页书籍文本格式化为伪装代码
+     *
+     * @param lines 书籍文本行（空行表示段落分隔）
+     * @param language 伪装语言
+     * @param seed 种子 - 通常为页面的起始字节偏移
+     * @returns 伪装代码
+     */
+    static format(lines: string[], language: DisguiseLanguage, seed: number): string {
+        // 折行后按段落分组，段落不会被拆到两个注释块中，除非段落本身超过注释块的行数
+        const blocks: string[][] = [];
+        let block: string[] = [];
+        for (const line of lines) {
+            const text = line.trim();
+            if (!text) {
+                if (block.length > 0 && block[block.length - 1] !== '') {
+                    block.push('');
+                }
+                continue;
+            }
+            for (const wrapped of this.wrap(text)) {
+                if (block.length >= this.BLOCK_LINES) {
+                    blocks.push(block);
+                    block = [];
+                }
+                block.push(wrapped);
+            }
+        }
+        if (block.length > 0) {
+            blocks.push(block);
+        }
+
+        const output: string[] = this.header(language);
+        blocks.forEach((blockLines, index) => {
+            // 去除注释块末尾的空行
+            while (blockLines.length > 0 && blockLines[blockLines.length - 1] === '') {
+                blockLines.pop();
+            }
+            output.push(...this.comment(blockLines, language), ...this.code(language, seed + index), '');
+        });
+        return output.join('\n');
+    }
+
+    /**
+     * 按显示宽度折行
+     *
+     * @param text 单行文本
+     * @returns 折行后的文本行
+     */
+    private static wrap(text: string): string[] {
+        const lines: string[] = [];
+        let current = '';
+        let width = 0;
+        for (const char of text) {
+            const charWidth = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(char) ? 2 : 1;
+            if (width + charWidth > this.LINE_WIDTH) {
+                lines.push(current.trimEnd());
+                current = '';
+                width = 0;
+            }
+            current += char;
+            width += charWidth;
+        }
+        if (current) {
+            lines.push(current.trimEnd());
+        }
+        return lines;
+    }
+
+    /**
+     * 生成文件头
+     * @param language 伪装语言
+     * @returns 导入语句
+     */
+    private static header(language: DisguiseLanguage): string[] {
+        if (language === 'python') {
+            return ['import logging', 'from typing import Any, Dict, Optional', '', 'logger = logging.getLogger(__name__)', '', ''];
+        }
+        return ["import { EventEmitter } from 'events';", "import { Logger } from './logger';", '', 'const logger = new Logger();', ''];
+    }
+
+    /**
+     * 生成注释块
+     *
+     * @param lines 注释文本行
+     * @param language 伪装语言
+     * @returns 注释块的各行
+     */
+    private static comment(lines: string[], language: DisguiseLanguage): string[] {
+        if (language === 'python') {
+            return lines.map(line => line ? `# ${line}` : '#');
+        }
+        // 拆开注释结束符，防止提前结束注释
+        return ['/**', ...lines.map(line => line ? ` * ${line.replace(/\*\//g, '* /')}` : ' *'), ' */'];
+    }
+
+    /**
+     * 生成一段假代码
+     *
+     * @param language 伪装语言
+     * @param seed 种子
+     * @returns 假代码的各行
+     */
+    private static code(language: DisguiseLanguage, seed: number): string[] {
+        const verb = this.VERBS[this.hash(`v${seed}`) % this.VERBS.length];
+        const noun = this.NOUNS[this.hash(`n${seed}`) % this.NOUNS.length];
+        const variable = noun.charAt(0).toLowerCase() + noun.slice(1);
+
+        if (language === 'python') {
+            const snake = `${verb}_${variable.replace(/[A-Z]/g, c => '_' + c.toLowerCase())}`;
+            return [
+                `def ${snake}(${variable}: Dict[str, Any], strict: bool = False) -> Optional[Dict[str, Any]]:`,
+                `    if not ${variable}:`,
+                `        logger.debug("${snake}: empty input")`,
+                '        return None',
+                `    result = {key: value for key, value in ${variable}.items() if value is not None}`,
+                '    if strict and len(result) != len(' + variable + '):',
+                `        raise ValueError("${snake}: missing values")`,
+                '    return result',
+                ''
+            ];
+        }
+        return [
+            `export function ${verb}${noun}(${variable}: Record<string, unknown>, strict = false): Record<string, unknown> | undefined {`,
+            `    if (!${variable}) {`,
+            `        logger.debug('${verb}${noun}: empty input');`,
+            '        return undefined;',
+            '    }',
+            `    const result = Object.fromEntries(Object.entries(${variable}).filter(([, value]) => value !== undefined));`,
+            `    if (strict && Object.keys(result).length !== Object.keys(${variable}).length) {`,
+            `        throw new Error('${verb}${noun}: missing values');`,
+            '    }',
+            '    return result;',
+            '}'
+        ];
+    }
+
+    /**
+     * 计算字符串的简单哈希值
+     * @param text 字符串
+     * @returns 非负整数
+     */
+    private static hash(text: string): number {
+        let hash = 0;
+        for (let i = 0; i < text.length; i++) {
+            hash = (hash * 31 + text.charCodeAt(i)) | 0;
+        }
+        return Math.abs(hash);
+    }
+}
@@ -0,0 +1,387 @@
+/**
+ * services/epubService.ts
+ * EPUB书籍服务类
+ *
+ * 功能说明：
+ * 1. 解压EPUB容器 - 读取META-INF/container.xml定位OPF包文件
+ * 2. 解析OPF包文件 - 获取元数据（书名、作者）、清单（manifest）和阅读顺序（spine）
+ * 3. 解析目录 - 从EPUB3导航文档或EPUB2 NCX中获取章节标题
+ * 4. 生成章节HTML - 提取XHTML正文，内联书中图片，并清理危险标签
+ *
+ * 核心概念：
+ * - OPF（Open Packaging Format）：描述EPUB内容的包文件，包含metadata、manifest、spine三部分
+ * - Spine：定义章节的线性阅读顺序，引用manifest中的条目
+ * - NCX/Nav：EPUB2与EPUB3的目录文件，提供章节标题
+ *
+ * 技术要点：
+ * - 使用ZipUtils读取压缩包，无需额外依赖
+ * - 使用正则表达式解析XML，EPUB中的XML结构简单且固定
+ * - 图片转换为data URI内联到章节HTML，避免WebView访问压缩包内的文件
+ * - 使用SecurityUtils.sanitizeHtml清理章节内容，防止XSS攻击
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ZipEntry, ZipUtils } from '../utils/zipUtils';
+import { SecurityUtils } from '../utils/security';
+import { EpubChapter, EpubMetadata } from '../types';
+
+/**
+ * 清单条目接口
+ */
+interface ManifestItem {
+    /** 条目在压缩包内的完整路径 */
+    href: string;
+    /** 媒体类型 */
+    mediaType: string;
+    /** 条目属性，如nav、cover-image */
+    properties: string;
+}
+
+/**
+ * 图片扩展名与媒体类型的映射 - 清单中缺少media-type时使用
+ */
+const IMAGE_MIME_TYPES: { [ext: string]: string } = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp'
+};
+
+/**
+ * EPUB书籍服务类
+ *
+ * 功能：
+ * 1. 读取EPUB元数据
+ * 2. 获取章节列表
+ * 3. 生成章节HTML
+ * 4. 解析章节内的相对链接
+ */
+export class EpubService {
+    /** EPUB文件内容 */
+    private zip: Buffer;
+    /** 压缩包条目 */
+    private entries: Map<string, ZipEntry>;
+    /** 单个条目允许的最大解压后大小（字节） */
+    private maxEntrySize: number;
+    /** 清单条目，以ID为键 */
+    private manifest = new Map<string, ManifestItem>();
+    /** 按阅读顺序排列的章节 */
+    private chapters: EpubChapter[] = [];
+    /** 元数据 */
+    private metadata: EpubMetadata = {};
+
+    /**
+     * 构造函数
+     * @param filePath EPUB文件路径
+     * @param maxEntrySize 单个条目允许的最大解压后大小（字节）
+     * @throws 当文件不是有效的EPUB时抛出错误
+     */
+    constructor(filePath: string, maxEntrySize: number) {
+        this.zip = fs.readFileSync(filePath);
+        this.maxEntrySize = maxEntrySize;
+        this.entries = ZipUtils.readEntries(this.zip);
+        this.parsePackage(this.findPackagePath());
+    }
+
+    /**
+     * 获取元数据
+     * @returns 书名和作者
+     */
+    getMetadata(): EpubMetadata {
+        return { ...this.metadata };
+    }
+
+    /**
+     * 获取章节列表
+     * @returns 按阅读顺序排列的章节
+     */
+    getChapters(): EpubChapter[] {
+        return [...this.chapters];
+    }
+
+    /**
+     * 生成章节HTML
+     *
+     * 功能：
+     * 1. 读取章节XHTML并提取body内容
+     * 2. 将SVG封面中的image元素转换为img
+     * 3. 将图片转换为data URI
+     * 4. 清理危险标签和属性
+     *
+     * @param index 章节序号
+     * @returns 清理后的章节HTML片段
+     * @throws 当章节不存在时抛出错误
+     */
+    getChapterHtml(index: number): string {
+        const chapter = this.chapters[index];
+        if (!chapter) {
+            throw new Error(`Chapter ${index} not found`);
+        }
+
+        const xhtml = this.readText(chapter.href);
+        const bodyMatch = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(xhtml);
+        let body = bodyMatch ? bodyMatch[1] : xhtml;
+
+        // SVG封面页通常使用<image xlink:href>，转换为普通图片
+        body = body.replace(/<svg\b[\s\S]*?<\/svg>/gi, svg => {
+            const images: string[] = [];
+            const imagePattern = /<image\b[^>]*>/gi;
+            let match: RegExpExecArray | null;
+            while ((match = imagePattern.exec(svg)) !== null) {
+                const href = EpubService.getAttribute(match[0], 'xlink:href') || EpubService.getAttribute(match[0], 'href');
+                if (href) {
+                    images.push(`<img src="${href}">`);
+                }
+            }
+            return images.join('');
+        });
+
+        // 内联图片
+        body = body.replace(/<img\b[^>]*>/gi, tag => {
+            const src = EpubService.getAttribute(tag, 'src');
+            if (!src) {
+                return '';
+            }
+            const dataUri = this.getImageDataUri(this.resolvePath(chapter.href, src));
+            if (!dataUri) {
+                return '';
+            }
+            const alt = EpubService.getAttribute(tag, 'alt') || '';
+            return `<img src="${dataUri}" alt="${alt}">`;
+        });
+
+        return SecurityUtils.sanitizeHtml(body);
+    }
+
+    /**
+     * 解析章节内的相对链接
+     * @param fromIndex 链接所在的章节序号
+     * @param href 链接地址
+     * @returns 目标章节序号和锚点，链接指向非章节文件时返回undefined
+     */
+    resolveLink(fromIndex: number, href: string): { index: number; fragment?: string } | undefined {
+        const chapter = this.chapters[fromIndex];
+        if (!chapter) {
+            return undefined;
+        }
+
+        const [target, fragment] = href.split('#');
+        const targetPath = target ? this.resolvePath(chapter.href, target) : chapter.href;
+        const index = this.chapters.findIndex(c => c.href === targetPath);
+        if (index < 0) {
+            return undefined;
+        }
+        return { index: index, fragment: fragment || undefined };
+    }
+
+    /**
+     * 查找OPF包文件路径
+     * @returns OPF文件在压缩包内的路径
+     * @throws 当container.xml缺失或无效时抛出错误
+     */
+    private findPackagePath(): string {
+        const container = this.readText('META-INF/container.xml');
+        const rootfile = /<rootfile\b[^>]*>/i.exec(container);
+        const fullPath = rootfile ? EpubService.getAttribute(rootfile[0], 'full-path') : undefined;
+        if (!fullPath) {
+            throw new Error('Invalid EPUB: rootfile not found in container.xml');
+        }
+        return fullPath;
+    }
+
+    /**
+     * 解析OPF包文件
+     * @param opfPath OPF文件路径
+     */
+    private parsePackage(opfPath: string): void {
+        const opf = this.readText(opfPath);
+
+        // 元数据
+        const title = /<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/i.exec(opf);
+        const creator = /<dc:creator\b[^>]*>([\s\S]*?)<\/dc:creator>/i.exec(opf);
+        this.metadata = {
+            title: title ? EpubService.getText(title[1]) || undefined : undefined,
+            author: creator ? EpubService.getText(creator[1]) || undefined : undefined
+        };
+
+        // 清单
+        const itemPattern = /<item\b[^>]*>/gi;
+        let match: RegExpExecArray | null;
+        while ((match = itemPattern.exec(opf)) !== null) {
+            const id = EpubService.getAttribute(match[0], 'id');
+            const href = EpubService.getAttribute(match[0], 'href');
+            if (id && href) {
+                this.manifest.set(id, {
+                    href: this.resolvePath(opfPath, href),
+                    mediaType: EpubService.getAttribute(match[0], 'media-type') || '',
+                    properties: EpubService.getAttribute(match[0], 'properties') || ''
+                });
+            }
+        }
+
+        // 目录标题
+        const spineTag = /<spine\b[^>]*>/i.exec(opf);
+        const tocId = spineTag ? EpubService.getAttribute(spineTag[0], 'toc') : undefined;
+        const titles = this.parseTableOfContents(tocId);
+
+        // 阅读顺序
+        const itemrefPattern = /<itemref\b[^>]*>/gi;
+        while ((match = itemrefPattern.exec(opf)) !== null) {
+            const idref = EpubService.getAttribute(match[0], 'idref');
+            const item = idref ? this.manifest.get(idref) : undefined;
+            if (idref && item && this.entries.has(item.href)) {
+                this.chapters.push({
+                    id: idref,
+                    href: item.href,
+                    title: titles.get(item.href) || `Chapter ${this.chapters.length + 1}`
+                });
+            }
+        }
+
+        if (this.chapters.length === 0) {
+            throw new Error('Invalid EPUB: spine is empty');
+        }
+    }
+
+    /**
+     * 解析目录，获取章节文件到标题的映射
+     *
+     * 功能：
+     * 优先使用EPUB3导航文档（properties包含nav），否则使用spine引用的EPUB2 NCX
+     *
+     * @param tocId spine中toc属性引用的NCX条目ID
+     * @returns 章节文件路径到标题的映射
+     */
+    private parseTableOfContents(tocId?: string): Map<string, string> {
+        const titles = new Map<string, string>();
+        const addTitle = (basePath: string, href: string, title: string) => {
+            const target = this.resolvePath(basePath, href.split('#')[0]);
+            if (title && !titles.has(target)) {
+                titles.set(target, title);
+            }
+        };
+
+        try {
+            const nav = [...this.manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+            if (nav) {
+                const doc = this.readText(nav.href);
+                const anchorPattern = /<a\b[^>]*>([\s\S]*?)<\/a>/gi;
+                let match: RegExpExecArray | null;
+                while ((match = anchorPattern.exec(doc)) !== null) {
+                    const href = EpubService.getAttribute(match[0], 'href');
+                    if (href) {
+                        addTitle(nav.href, href, EpubService.getText(match[1]));
+                    }
+                }
+            }
+
+            const ncx = tocId ? this.manifest.get(tocId) : undefined;
+            if (ncx && titles.size === 0) {
+                const doc = this.readText(ncx.href);
+                const navPointPattern = /<navLabel\b[^>]*>\s*<text\b[^>]*>([\s\S]*?)<\/text>\s*<\/navLabel>\s*(<content\b[^>]*>)/gi;
+                let match: RegExpExecArray | null;
+                while ((match = navPointPattern.exec(doc)) !== null) {
+                    const src = EpubService.getAttribute(match[2], 'src');
+                    if (src) {
+                        addTitle(ncx.href, src, EpubService.getText(match[1]));
+                    }
+                }
+            }
+        } catch (error) {
+            // 目录缺失或损坏时使用默认章节标题
+            console.warn('Failed to parse EPUB table of contents:', error);
+        }
+
+        return titles;
+    }
+
+    /**
+     * 读取压缩包内的文本文件
+     * @param entryPath 条目路径
+     * @returns 文件内容（UTF-8）
+     * @throws 当条目不存在时抛出错误
+     */
+    private readText(entryPath: string): string {
+        const entry = this.entries.get(entryPath);
+        if (!entry) {
+            throw new Error(`Invalid EPUB: ${entryPath} not found`);
+        }
+        return ZipUtils.extract(this.zip, entry, this.maxEntrySize).toString('utf8').replace(/^\uFEFF/, '');
+    }
+
+    /**
+     * 获取图片的data URI
+     * @param imagePath 图片在压缩包内的路径
+     * @returns data URI，图片不存在时返回undefined
+     */
+    private getImageDataUri(imagePath: string): string | undefined {
+        const entry = this.entries.get(imagePath);
+        if (!entry) {
+            return undefined;
+        }
+
+        const item = [...this.manifest.values()].find(i => i.href === imagePath);
+        const mimeType = item && item.mediaType.startsWith('image/')
+            ? item.mediaType
+            : IMAGE_MIME_TYPES[path.posix.extname(imagePath).toLowerCase()];
+        if (!mimeType) {
+            return undefined;
+        }
+
+        try {
+            return `data:${mimeType};base64,${ZipUtils.extract(this.zip, entry, this.maxEntrySize).toString('base64')}`;
+        } catch (error) {
+            console.warn(`Failed to extract EPUB image ${imagePath}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 解析相对路径
+     * @param basePath 引用所在文件的路径
+     * @param href 相对地址（可能经过URL编码）
+     * @returns 压缩包内的完整路径
+     */
+    private resolvePath(basePath: string, href: string): string {
+        let decoded = href;
+        try {
+            decoded = decodeURIComponent(href);
+        } catch {
+            // 保留原始地址
+        }
+        return path.posix.normalize(path.posix.join(path.posix.dirname(basePath), decoded)).replace(/^\.\//, '');
+    }
+
+    /**
+     * 获取标签属性值
+     * @param tag 标签文本
+     * @param name 属性名称
+     * @returns 属性值，不存在时返回undefined
+     */
+    private static getAttribute(tag: string, name: string): string | undefined {
+        const pattern = new RegExp(`\\s${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i');
+        const match = pattern.exec(tag);
+        return match ? (match[1] ?? match[2]) : undefined;
+    }
+
+    /**
+     * 获取元素的纯文本内容
+     * @param xml 元素内部的XML
+     * @returns 去除标签并解码实体后的文本
+     */
+    private static getText(xml: string): string {
+        return xml
+            .replace(/<[^>]*>/g, '')
+            .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+            .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+/**
+ * services/textIndexer.ts
+ * 文本索引服务类
+ *
+ * 功能说明：
+ * 1. 扫描文本书籍 - 使用EncodingUtils异步逐行读取整个文件，不阻塞扩展主机，支持报告进度和取消
+ * 2. 统计行 - 记录总行数，并大约每隔固定字节数记录一个检查点
+ * 3. 识别章节 - 在同一次扫描中使用章节标题规则识别章节，大文件无需再扫描一遍
+ * 4. 校验索引 - 文件大小、修改时间或编码变化后索引失效，需要重新建立
+ *
+ * 核心概念：
+ * - 检查点：某一行的行首字节偏移以及该行之前的行数，阅读器据此把字节偏移换算为滚动位置
+ *
+ * 技术要点：
+ * - 检查点的数量与文件大小成正比但很稀疏，300MB的文件也只有约1200个检查点，索引可以直接保存为JSON
+ * - 内存占用与文件大小无关，每次只持有一个读取块
+ */
+import * as fs from 'fs';
+import { EncodingUtils } from '../utils/encodingUtils';
+import { ChapterIndexer } from './chapterIndexer';
+import { Chapter, TextIndex, TextIndexCheckpoint } from '../types';
+
+/**
+ * 文本索引的建立结果接口
+ */
+export interface TextIndexResult {
+    /** 文本索引 */
+    index: TextIndex;
+    /** 按文件顺序排列的章节列表 */
+    chapters: Chapter[];
+}
+
+/**
+ * 文本索引服务类
+ *
+ * 功能：
+ * 1. 在后台建立文本书籍的行索引以及章节索引
+ * 2. 校验保存的索引是否仍然有效
+ */
+export class TextIndexer {
+    /** 索引格式版本 */
+    static readonly VERSION = 1;
+    /** 检查点间隔（字节） */
+    private static readonly CHECKPOINT_INTERVAL = 256 * 1024;
+
+    /**
+     * 建立文本索引
+     *
+     * @param filePath 文本文件路径
+     * @param encoding 文件编码
+     * @param chapterPatterns 章节标题规则（正则表达式字符串）
+     * @param onProgress 进度回调（已扫描的比例，0-1），返回false时取消扫描
+     * @returns 索引和章节列表，取消时返回undefined
+     * @throws 当文件读取失败时抛出错误
+     */
+    static async build(
+        filePath: string,
+        encoding: string,
+        chapterPatterns: string[],
+        onProgress?: (fraction: number) => boolean | void
+    ): Promise<TextIndexResult | undefined> {
+        const stats = await fs.promises.stat(filePath);
+        const matchTitle = ChapterIndexer.createMatcher(chapterPatterns);
+        const checkpoints: TextIndexCheckpoint[] = [];
+        const chapters: Chapter[] = [];
+        let lineCount = 0;
+        let nextCheckpoint = 0;
+
+        const completed = await EncodingUtils.scanLinesAsync(filePath, encoding, (line, offset) => {
+            if (offset >= nextCheckpoint) {
+                checkpoints.push({ offset: offset, line: lineCount });
+                nextCheckpoint = offset + this.CHECKPOINT_INTERVAL;
+            }
+            lineCount++;
+            if (line.trim().length === 0) {
+                return;
+            }
+
+            const title = matchTitle ? matchTitle(line) : undefined;
+            if (title) {
+                chapters.push({ title: title, offset: offset });
+            }
+        }, bytesRead => onProgress ? onProgress(stats.size > 0 ? bytesRead / stats.size : 1) : undefined);
+
+        if (!completed) {
+            return undefined;
+        }
+        if (checkpoints.length === 0) {
+            checkpoints.push({ offset: 0, line: 0 });
+        }
+
+        return {
+            index: {
+                version: this.VERSION,
+                fileSize: stats.size,
+                modifiedTime: stats.mtimeMs,
+                encoding: encoding,
+                lineCount: lineCount,
+                checkpoints: checkpoints
+            },
+            chapters: chapters
+        };
+    }
+
+    /**
+     * 校验索引是否仍然有效
+     *
+     * @param index 保存的索引
+     * @param filePath 文本文件路径
+     * @param encoding 书籍当前的编码
+     * @returns 索引格式、文件大小、修改时间和编码都一致时返回true，文件无法访问时返回false
+     */
+    static isValid(index: TextIndex | undefined, filePath: string, encoding: string): boolean {
+        if (!index || index.version !== this.VERSION || index.encoding !== encoding || !Array.isArray(index.checkpoints)) {
+            return false;
+        }
+        try {
+            const stats = fs.statSync(filePath);
+            return stats.size === index.fileSize && stats.mtimeMs === index.modifiedTime;
+        } catch {
+            return false;
+        }
+    }
+}
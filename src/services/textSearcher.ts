@@ -0,0 +1,133 @@
+/**
+ * services/textSearcher.ts
+ * 全文搜索服务类
+ *
+ * 功能说明：
+ * 1. 扫描文本书籍 - 使用EncodingUtils按书籍编码逐行读取整个文件，支持GBK、GB18030、UTF-16等编码
+ * 2. 查找关键词 - 在每一行中查找所有匹配，忽略大小写
+ * 3. 记录匹配位置 - 将行内字符位置换算为文件中的字节偏移，用于从匹配处打开阅读器
+ * 4. 生成上下文 - 截取匹配前后的文本，用于在搜索结果列表中显示
+ *
+ * 核心概念：
+ * - 字节偏移：匹配文本在文件中的起始字节位置，与分块加载、阅读锚点使用同一坐标
+ * - 上下文：匹配所在行中匹配前后的若干字符，过长的行会被截断
+ *
+ * 技术要点：
+ * - 只扫描一次文件，内存占用与文件大小无关
+ * - 异步读取，上百MB的文件也不会阻塞扩展主机，支持报告进度和取消
+ * - 忽略大小写时个别字符（如'İ'）转换小写后长度会变化，这样的行逐个字符转换并记录对应的原文位置
+ * - 按行匹配，匹配不会跨行；没有换行符的超长行按64KB拆开扫描，跨越拆分位置的匹配无法找到
+ * - 结果数量达到上限后立即停止扫描
+ */
+import * as fs from 'fs';
+import { EncodingUtils } from '../utils/encodingUtils';
+import { TextSearchResult } from '../types';
+
+/**
+ * 全文搜索服务类
+ *
+ * 功能：
+ * 1. 在文本书籍中查找关键词
+ * 2. 生成带上下文的搜索结果
+ */
+export class TextSearcher {
+    /** 默认最大结果数 */
+    static readonly MAX_RESULTS = 500;
+    /** 上下文长度 - 匹配前后各保留的字符数 */
+    private static readonly CONTEXT_LENGTH = 30;
+
+    /**
+     * 在文本书籍中查找关键词
+     *
+     * @param filePath 文本文件路径
+     * @param encoding 文件编码
+     * @param query 关键词
+     * @param maxResults 最大结果数
+     * @param onProgress 进度回调（已扫描的比例，0-1），返回false时取消搜索
+     * @returns 按文件顺序排列的搜索结果，取消时返回undefined
+     * @throws 当文件读取失败时抛出错误
+     */
+    static async search(
+        filePath: string,
+        encoding: string,
+        query: string,
+        maxResults: number = this.MAX_RESULTS,
+        onProgress?: (fraction: number) => boolean | void
+    ): Promise<TextSearchResult[] | undefined> {
+        const results: TextSearchResult[] = [];
+        const needle = query.toLowerCase();
+        if (!needle) {
+            return results;
+        }
+        const fileSize = (await fs.promises.stat(filePath)).size;
+        let cancelled = false;
+
+        // 解码后的第一行不包含BOM，换算字节偏移时需要补回
+        const bomLength = EncodingUtils.getBomLength(filePath);
+        let lineNumber = 0;
+
+        await EncodingUtils.scanLinesAsync(filePath, encoding, (line, lineOffset) => {
+            lineNumber++;
+            let haystack = line.toLowerCase();
+            // 转换小写改变了文本长度时，小写文本中的位置需要换算为原文中的位置
+            const mapped = haystack.length === line.length ? undefined : this.toLowerCaseWithMap(line);
+            if (mapped) {
+                haystack = mapped.text;
+            }
+            let index = haystack.indexOf(needle);
+            if (index < 0) {
+                return true;
+            }
+
+            const lineStart = lineOffset === 0 ? bomLength : lineOffset;
+            while (index >= 0 && results.length < maxResults) {
+                const matchStart = mapped ? mapped.starts[index] : index;
+                const matchEnd = mapped ? mapped.ends[index + needle.length - 1] : index + needle.length;
+                const previewStart = Math.max(0, matchStart - this.CONTEXT_LENGTH);
+                const previewEnd = Math.min(line.length, matchEnd + this.CONTEXT_LENGTH);
+                const leading = previewStart > 0 ? '…' : '';
+                const trailing = previewEnd < line.length ? '…' : '';
+                const preview = line.substring(previewStart, previewEnd);
+
+                results.push({
+                    offset: lineStart + EncodingUtils.getEncodedLength(line.substring(0, matchStart), encoding),
+                    length: EncodingUtils.getEncodedLength(line.substring(matchStart, matchEnd), encoding),
+                    lineNumber: lineNumber,
+                    preview: leading + preview.trimEnd() + trailing
+                });
+                index = haystack.indexOf(needle, index + needle.length);
+            }
+
+            // 结果数量达到上限后停止扫描
+            return results.length < maxResults;
+        }, bytesRead => {
+            cancelled = !!onProgress && onProgress(fileSize > 0 ? bytesRead / fileSize : 1) === false;
+            return !cancelled;
+        });
+
+        return cancelled ? undefined : results;
+    }
+
+    /**
+     * 逐个字符转换为小写，并记录小写文本中每个位置对应的原文范围
+     *
+     * @param text 原文
+     * @returns 小写文本，以及小写文本中每个UTF-16单元所属原文字符的起止位置
+     */
+    private static toLowerCaseWithMap(text: string): { text: string; starts: number[]; ends: number[] } {
+        let lower = '';
+        const starts: number[] = [];
+        const ends: number[] = [];
+        for (let i = 0; i < text.length;) {
+            const char = String.fromCodePoint(text.codePointAt(i)!);
+            const lowerChar = char.toLowerCase();
+            for (let j = 0; j < lowerChar.length; j++) {
+                starts.push(i);
+                ends.push(i + char.length);
+            }
+            lower += lowerChar;
+            i += char.length;
+        }
+        return { text: lower, starts: starts, ends: ends };
+    }
+}
@@ -10,7 +10,7 @@
  *
  * 核心概念：
  * - API调用：通过HTTPS请求访问微信读书的接口
- * - Token认证：使用用户的Token和用户ID进行身份验证
+ * - Token认证：使用用户的Token和用户ID进行身份验证，凭据由凭据提供者在每次请求前提供
  * - 数据解析：将API返回的JSON数据转换为插件内部的Book对象
  * - 错误处理：处理网络错误、API错误等各种异常情况
  *
@@ -21,7 +21,7 @@
  * - 错误处理：捕获和处理各种可能的错误
  */
 import * as https from 'https';
-import { Book, PluginSettings } from '../types';
+import { Book, WechatCredentialsProvider, WechatReadCredentials } from '../types';
 
 /**
  * 微信读书服务类
@@ -33,18 +33,23 @@ import { Book, PluginSettings } from '../types';
  * 4. 解析微信读书API返回的数据
  */
 export class WechatReadService {
-    /** 微信读书Token */
-    private token: string;
-    /** 微信读书用户ID */
-    private userId: string;
-
     /**
      * 构造函数
-     * @param settings 插件设置对象
+     * @param credentialsProvider 凭据提供者 - 每次请求前获取登录凭据
+     */
+    constructor(private credentialsProvider: WechatCredentialsProvider) {}
+
+    /**
+     * 获取登录凭据
+     * @returns 登录凭据
+     * @throws 当未登录时抛出错误
      */
-    constructor(settings: PluginSettings) {
-        this.token = settings.wechatReadToken || '';
-        this.userId = settings.wechatReadUserId || '';
+    private async getCredentials(): Promise<WechatReadCredentials> {
+        const credentials = await this.credentialsProvider.getWechatCredentials();
+        if (!credentials || !credentials.token || !credentials.userId) {
+            throw new Error('微信读书未登录');
+        }
+        return credentials;
     }
 
     /**
@@ -73,18 +78,16 @@ export class WechatReadService {
      */
     async getBooks(synckey: number = 0): Promise<Book[]> {
         // 检查登录状态 - 确保用户已登录微信读书
-        if (!this.token || !this.userId) {
-            throw new Error('微信读书未登录');
-        }
+        const credentials = await this.getCredentials();
 
         // 构建API请求URL - 包含用户ID和同步键
         // userVid: 用户ID
         // synckey: 同步键，用于增量同步
         // lecture: 讲座标志，-1表示不包含讲座
-        const url = `https://i.weread.qq.com/shelf/sync?userVid=${this.userId}&synckey=${synckey}&lecture=-1`;
+        const url = `https://i.weread.qq.com/shelf/sync?userVid=${credentials.userId}&synckey=${synckey}&lecture=-1`;
 
         // 发送API请求 - 获取微信读书书架数据
-        const books = await this.request(url);
+        const books = await this.request(url, credentials);
 
         // 解析返回数据 - 将API数据转换为Book对象
         return this.parseBooks(books);
@@ -97,17 +100,16 @@ export class WechatReadService {
      * @throws 当未登录时抛出错误
      */
     async getBookContent(bookId: string): Promise<string> {
-        if (!this.token || !this.userId) {
-            throw new Error('微信读书未登录');
-        }
+        const credentials = await this.getCredentials();
 
         const url = `https://i.weread.qq.com/book/read?bookId=${bookId}`;
-        return await this.request(url);
+        return await this.request(url, credentials);
     }
 
     /**
      * 发送网络请求
      * @param url 请求URL - 微信读书API的地址
+     * @param credentials 登录凭据 - 放在Cookie中用于身份认证
      * @returns 请求响应数据 - API返回的JSON数据
      * @throws 当网络错误或响应解析失败时抛出错误 - 包含详细的错误信息
      *
@@ -133,14 +135,14 @@ export class WechatReadService {
      * - resolve: 请求成功时，返回解析后的数据
      * - reject: 请求失败时，抛出错误
      */
-    private async request(url: string): Promise<any> {
+    private async request(url: string, credentials: WechatReadCredentials): Promise<any> {
         // 返回Promise，处理异步操作
         return new Promise((resolve, reject) => {
             // 构建请求选项 - 设置请求头，包含认证信息
             const options = {
                 headers: {
                     // Cookie: 包含token和userVid，用于身份认证
-                    'Cookie': `token=${this.token}; userVid=${this.userId};`,
+                    'Cookie': `token=${credentials.token}; userVid=${credentials.userId};`,
                     // User-Agent: 模拟浏览器请求，避免被API拒绝
                     'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
                     // Referer: 模拟从微信读书网站发起的请求
@@ -289,9 +291,10 @@ export class WechatReadService {
      * 验证微信读书Token的有效性
      * @returns Token是否有效
      */
-    validateToken(): Promise<boolean> {
-        if (!this.token || !this.userId) {
-            return Promise.resolve(false);
+    async validateToken(): Promise<boolean> {
+        const credentials = await this.credentialsProvider.getWechatCredentials();
+        if (!credentials || !credentials.token || !credentials.userId) {
+            return false;
         }
 
         return this.getBooks(0)
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnnotationExporter } from '../services/annotationExporter';
+import { Book } from '../types';
+
+// 测试编译到out/test，固定样本文件保留在源码目录中
+const BOOK_PATH = path.resolve(__dirname, '../../src/test/fixtures/encoding/ascii.txt');
+
+/**
+ * 创建带有标注和书签的测试书籍 - 标注的字节范围指向样本文件中的真实文本
+ */
+function createBook(): Book {
+	const data = fs.readFileSync(BOOK_PATH);
+	const rainStart = data.indexOf('The rain');
+	const ownerStart = data.indexOf('"How much');
+	return {
+		id: 'book-1',
+		name: 'ascii.txt',
+		path: BOOK_PATH,
+		progress: 0,
+		fileSize: data.length,
+		addedTime: 1,
+		encoding: 'utf8',
+		chapters: [{ title: 'Chapter One', offset: 0 }],
+		annotations: [
+			{ id: 'a2', start: ownerStart, end: ownerStart + 9, color: 'blue', text: '"How much', note: 'Says "wait", then, =sum', createdTime: 2000 },
+			{ id: 'a1', start: rainStart, end: rainStart + 8, color: 'yellow', text: 'The ra', createdTime: 1000 }
+		],
+		bookmarks: [
+			{ id: 'm1', name: 'Window', offset: rainStart, snippet: 'The rain had not stopped', createdTime: 3000 }
+		]
+	};
+}
+
+suite('Annotation Exporter Test Suite', () => {
+	test('round-trips annotations and bookmarks through JSON', () => {
+		const book = createBook();
+		const [exported] = AnnotationExporter.parse(AnnotationExporter.export([book], 'json'));
+
+		assert.strictEqual(exported.name, book.name);
+		assert.strictEqual(exported.path, book.path);
+		assert.strictEqual(exported.fileSize, book.fileSize);
+		// 标注按位置排列，文本按字节范围从文件中重新读取
+		assert.deepStrictEqual(exported.annotations.map(a => [a.id, a.text, a.color, a.note]), [
+			['a1', 'The rain', 'yellow', undefined],
+			['a2', '"How much', 'blue', 'Says "wait", then, =sum']
+		]);
+		assert.deepStrictEqual(exported.bookmarks.map(b => [b.id, b.name, b.offset, b.page, b.snippet, b.createdTime]), [
+			['m1', 'Window', book.bookmarks![0].offset, undefined, 'The rain had not stopped', 3000]
+		]);
+	});
+
+	test('gives every imported entry a unique id', () => {
+		const content = JSON.stringify({
+			version: 1,
+			books: [{
+				name: 'book',
+				annotations: [
+					{ start: 0, end: 5 },
+					{ start: 5, end: 10 },
+					{ id: 'same', start: 10, end: 15 },
+					{ id: 'same', start: 15, end: 20 }
+				],
+				bookmarks: [{ offset: 0 }, { offset: 5 }]
+			}]
+		});
+		const [book] = AnnotationExporter.parse(content);
+		const ids = [...book.annotations.map(a => a.id), ...book.bookmarks.map(b => b.id)];
+
+		assert.strictEqual(new Set(ids).size, ids.length);
+		assert.strictEqual(book.annotations[2].id, 'same');
+	});
+
+	test('skips invalid entries and rejects files that are not exports', () => {
+		const [book] = AnnotationExporter.parse('\uFEFF' + JSON.stringify({
+			books: [
+				{
+					name: 'book',
+					annotations: [{ start: 5, end: 5 }, { start: -1, end: 3 }, { start: 1.5, end: 3 }, null, { start: 0, end: 3, color: 'pink' }],
+					bookmarks: [{ name: 'nowhere' }, 'text', { page: 3 }]
+				},
+				{ annotations: [] }
+			]
+		}));
+
+		assert.deepStrictEqual(book.annotations.map(a => [a.start, a.end, a.color]), [[0, 3, 'yellow']]);
+		assert.deepStrictEqual(book.bookmarks.map(b => b.page), [3]);
+		assert.throws(() => AnnotationExporter.parse('{'), /Invalid JSON/);
+		assert.throws(() => AnnotationExporter.parse('[]'), /Not an annotation export file/);
+		assert.throws(() => AnnotationExporter.parse('{"version": 99, "books": []}'), /Unsupported export version 99/);
+	});
+
+	test('groups Markdown highlights by chapter and lists bookmarks', () => {
+		const markdown = AnnotationExporter.export([createBook()], 'markdown');
+
+		assert.strictEqual(markdown, [
+			'# ascii.txt',
+			'',
+			'## Chapter One',
+			'',
+			'> The rain',
+			'',
+			'> "How much',
+			'',
+			'**Note:** Says "wait", then, =sum',
+			'',
+			'## Bookmarks',
+			'',
+			'- **Window** (Chapter One): The rain had not stopped',
+			''
+		].join('\n'));
+	});
+
+	test('writes CSV with a BOM and escapes quotes, commas and formulas', () => {
+		const book = createBook();
+		const csv = AnnotationExporter.export([book], 'csv');
+		const rows = csv.slice(1).split('\r\n');
+
+		assert.ok(csv.startsWith('\uFEFFBook,Type,Chapter,Start,End,Page,Color,Text,Note,Created\r\n'));
+		assert.strictEqual(rows.length, 5);
+		assert.strictEqual(rows[4], '');
+		assert.strictEqual(rows[1], `ascii.txt,highlight,Chapter One,${book.annotations![1].start},${book.annotations![1].end},,yellow,The rain,,1970-01-01T00:00:01.000Z`);
+		assert.strictEqual(rows[2].split(',').slice(7).join(','), '"""How much","Says ""wait"", then, =sum",1970-01-01T00:00:02.000Z');
+		assert.ok(rows[3].startsWith(`ascii.txt,bookmark,Chapter One,${book.bookmarks![0].offset},,,,The rain had not stopped,Window,`));
+
+		const formula = { ...book, annotations: [{ ...book.annotations![1], note: '=HYPERLINK("x")' }], bookmarks: [] };
+		assert.ok(AnnotationExporter.export([formula], 'csv').includes(`"'=HYPERLINK(""x"")"`));
+	});
+});
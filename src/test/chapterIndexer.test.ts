@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { ChapterIndexer } from '../services/chapterIndexer';
+import { DEFAULT_SETTINGS } from '../types';
+
+suite('Chapter Indexer Test Suite', () => {
+	const matchTitle = ChapterIndexer.createMatcher(DEFAULT_SETTINGS.chapterPatterns)!;
+
+	test('matches Chinese chapter titles', () => {
+		assert.strictEqual(matchTitle('第一章 初入江湖'), '第一章 初入江湖');
+		assert.strictEqual(matchTitle('  第12节　夜雨  '), '第12节　夜雨');
+		assert.strictEqual(matchTitle('第三百二十一回'), '第三百二十一回');
+		assert.strictEqual(matchTitle('第２卷 风起'), '第２卷 风起');
+		assert.strictEqual(matchTitle('楔子'), '楔子');
+		assert.strictEqual(matchTitle('番外 后来的事'), '番外 后来的事');
+	});
+
+	test('matches English chapter titles ignoring case', () => {
+		assert.strictEqual(matchTitle('Chapter 1'), 'Chapter 1');
+		assert.strictEqual(matchTitle('CHAPTER IV: The Return'), 'CHAPTER IV: The Return');
+		assert.strictEqual(matchTitle('chapter one'), 'chapter one');
+		assert.strictEqual(matchTitle('Prologue'), 'Prologue');
+		assert.strictEqual(matchTitle('Epilogue - Ten Years Later'), 'Epilogue - Ten Years Later');
+	});
+
+	test('treats body text, blank lines and long lines as text', () => {
+		assert.strictEqual(matchTitle('他翻到第一章，又合上了书。'), undefined);
+		assert.strictEqual(matchTitle('The chapter 1 notes were lost.'), undefined);
+		assert.strictEqual(matchTitle('Chapterhouse'), undefined);
+		assert.strictEqual(matchTitle('Prologues are often skipped'), undefined);
+		assert.strictEqual(matchTitle('   '), undefined);
+		assert.strictEqual(matchTitle('第一章 ' + '很长的标题'.repeat(10)), undefined);
+	});
+
+	test('skips invalid patterns', () => {
+		const custom = ChapterIndexer.createMatcher(['(', '^Part \\d+']);
+		assert.ok(custom);
+		assert.strictEqual(custom('Part 3'), 'Part 3');
+		assert.strictEqual(custom('Chapter 3'), undefined);
+		assert.strictEqual(ChapterIndexer.createMatcher(['(']), undefined);
+		assert.strictEqual(ChapterIndexer.createMatcher([]), undefined);
+	});
+});
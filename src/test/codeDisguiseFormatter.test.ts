@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { CodeDisguiseFormatter } from '../services/codeDisguiseFormatter';
+
+/**
+ * 取出伪装代码中的注释块，每个注释块是其中各行组成的数组
+ */
+function commentBlocks(code: string): string[][] {
+	const blocks: string[][] = [];
+	let block: string[] | undefined;
+	for (const line of code.split('\n')) {
+		if (line === '/**') {
+			block = [];
+		} else if (line === ' */') {
+			blocks.push(block!);
+			block = undefined;
+		} else if (block) {
+			block.push(line);
+		}
+	}
+	return blocks;
+}
+
+suite('Code Disguise Formatter Test Suite', () => {
+	test('breaks up comment terminators inside TypeScript comment blocks', () => {
+		const code = CodeDisguiseFormatter.format(['He typed */ and stopped.', 'a*/b**/c'], 'typescript', 0);
+		const blocks = commentBlocks(code);
+
+		assert.strictEqual(blocks.length, 1);
+		assert.deepStrictEqual(blocks[0], [' * He typed * / and stopped.', ' * a* /b** /c']);
+		assert.ok(blocks[0].every(line => !line.includes('*/')));
+	});
+
+	test('keeps comment terminators in Python line comments', () => {
+		const code = CodeDisguiseFormatter.format(['He typed */ and stopped.'], 'python', 0);
+
+		assert.ok(code.split('\n').includes('# He typed */ and stopped.'));
+		assert.ok(!code.includes('/**'));
+	});
+
+	test('wraps text by display width and keeps paragraphs together', () => {
+		const code = CodeDisguiseFormatter.format(['中'.repeat(100), '', 'Short paragraph.'], 'typescript', 7);
+		const [block] = commentBlocks(code);
+
+		assert.deepStrictEqual(block, [
+			' * ' + '中'.repeat(40),
+			' * ' + '中'.repeat(40),
+			' * ' + '中'.repeat(20),
+			' *',
+			' * Short paragraph.'
+		]);
+		assert.strictEqual(CodeDisguiseFormatter.format(['中'.repeat(100)], 'typescript', 7), CodeDisguiseFormatter.format(['中'.repeat(100)], 'typescript', 7));
+	});
+
+	test('starts a new comment block after the block line limit', () => {
+		const lines = Array.from({ length: 15 }, (_, i) => `Line ${i + 1}`);
+		const blocks = commentBlocks(CodeDisguiseFormatter.format(lines, 'typescript', 0));
+
+		assert.deepStrictEqual(blocks.map(block => block.length), [12, 3]);
+		assert.strictEqual(blocks[1][0], ' * Line 13');
+	});
+
+	test('names python files in snake case', () => {
+		assert.match(CodeDisguiseFormatter.getFileName('book-1', 'python'), /^[a-z_]+\.py$/);
+		assert.match(CodeDisguiseFormatter.getFileName('book-1', 'typescript'), /^[a-z][A-Za-z]+\.ts$/);
+	});
+});
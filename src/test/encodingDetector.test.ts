@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { EncodingDetector } from '../utils/encodingDetector';
+import { EncodingUtils } from '../utils/encodingUtils';
+
+// 测试编译到out/test，固定样本文件保留在源码目录中
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/encoding');
+
+/**
+ * 固定样本及其编码 - 文本内容为中文、繁体中文、日文、韩文、法文和英文的短篇段落
+ */
+const CASES: { file: string; encoding: string }[] = [
+	{ file: 'ascii.txt', encoding: 'utf8' },
+	{ file: 'utf8.txt', encoding: 'utf8' },
+	{ file: 'utf8-bom.txt', encoding: 'utf8' },
+	{ file: 'gb18030.txt', encoding: 'gb18030' },
+	{ file: 'big5.txt', encoding: 'big5' },
+	{ file: 'shift_jis.txt', encoding: 'shift_jis' },
+	{ file: 'euc-jp.txt', encoding: 'euc-jp' },
+	{ file: 'euc-kr.txt', encoding: 'euc-kr' },
+	{ file: 'utf16le.txt', encoding: 'utf16le' },
+	{ file: 'utf16be.txt', encoding: 'utf16be' },
+	{ file: 'utf16le-cjk.txt', encoding: 'utf16le' },
+	{ file: 'utf16le-bom.txt', encoding: 'utf16le' },
+	{ file: 'windows1252.txt', encoding: 'windows1252' }
+];
+
+suite('Encoding Detector Test Suite', () => {
+	for (const { file, encoding } of CASES) {
+		test(`detects ${file} as ${encoding}`, () => {
+			const result = EncodingUtils.detectEncodingWithConfidence(path.join(FIXTURES, file));
+			assert.strictEqual(result.encoding, encoding);
+			assert.ok(result.confidence > 0 && result.confidence <= 1, `confidence ${result.confidence}`);
+		});
+	}
+
+	test('reports full confidence for BOM and valid UTF-8', () => {
+		assert.strictEqual(EncodingUtils.detectEncodingWithConfidence(path.join(FIXTURES, 'utf16le-bom.txt')).confidence, 1);
+		assert.strictEqual(EncodingUtils.detectEncodingWithConfidence(path.join(FIXTURES, 'utf8.txt')).confidence, 1);
+	});
+
+	test('accepts UTF-8 samples cut in the middle of a character', () => {
+		const data = fs.readFileSync(path.join(FIXTURES, 'utf8.txt'));
+		for (let cut = 1; cut <= 3; cut++) {
+			assert.strictEqual(EncodingDetector.detect(data.subarray(0, data.length - cut)).encoding, 'utf8');
+		}
+	});
+
+	test('detects samples cut in the middle of a double-byte character', () => {
+		const data = fs.readFileSync(path.join(FIXTURES, 'big5.txt'));
+		const lead = data.findIndex((byte, index) => index > 200 && byte >= 0xA1);
+		assert.strictEqual(EncodingDetector.detect(data.subarray(0, lead + 1)).encoding, 'big5');
+	});
+
+	test('treats an empty sample as UTF-8', () => {
+		assert.deepStrictEqual(EncodingDetector.detect(Buffer.alloc(0)), { encoding: 'utf8', confidence: 1 });
+	});
+
+	test('falls back to UTF-8 with zero confidence when the file cannot be read', () => {
+		assert.deepStrictEqual(
+			EncodingUtils.detectEncodingWithConfidence(path.join(FIXTURES, 'missing.txt')),
+			{ encoding: 'utf8', confidence: 0 }
+		);
+	});
+});
+
+/**
+ * 多字节编码的样本 - 文本取自固定样本，再用目标编码重新编码；支持的编码末尾追加代理对字符
+ */
+const MULTIBYTE_CASES: { file: string; encoding: string; target: string; suffix: string }[] = [
+	{ file: 'utf8.txt', encoding: 'utf8', target: 'utf8', suffix: '😀' },
+	{ file: 'gb18030.txt', encoding: 'gb18030', target: 'gbk', suffix: '' },
+	{ file: 'gb18030.txt', encoding: 'gb18030', target: 'gb18030', suffix: '😀' },
+	{ file: 'big5.txt', encoding: 'big5', target: 'big5', suffix: '' },
+	{ file: 'shift_jis.txt', encoding: 'shift_jis', target: 'shift_jis', suffix: '' },
+	{ file: 'euc-kr.txt', encoding: 'euc-kr', target: 'euc-kr', suffix: '' },
+	{ file: 'utf16le-cjk.txt', encoding: 'utf16le', target: 'utf16le', suffix: '😀' },
+	{ file: 'utf16le-cjk.txt', encoding: 'utf16le', target: 'utf16be', suffix: '😀' }
+];
+
+/**
+ * 读取样本文本 - 换行替换为空格，使整个样本成为一行
+ */
+function readSingleLine(file: string, encoding: string, suffix: string): string {
+	return iconv.decode(fs.readFileSync(path.join(FIXTURES, file)), encoding).replace(/\r?\n/g, ' ') + suffix;
+}
+
+suite('Encoding Boundary Test Suite', () => {
+	let tempDir: string;
+
+	suiteSetup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readplugin-encoding-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	for (const { file, encoding, target, suffix } of MULTIBYTE_CASES) {
+		test(`splits ${target} into chunks that decode on their own`, () => {
+			const text = readSingleLine(file, encoding, suffix);
+			const data = iconv.encode(text, target);
+
+			for (const chunkSize of [4, 7, 64]) {
+				const chunks: string[] = [];
+				for (let start = 0; start < data.length;) {
+					const length = EncodingUtils.alignToCharBoundary(data.subarray(start), chunkSize, target);
+					assert.ok(length > 0 && length <= chunkSize, `chunk at ${start} has length ${length}`);
+					chunks.push(iconv.decode(data.subarray(start, start + length), target));
+					start += length;
+				}
+				assert.strictEqual(chunks.join(''), text, `chunk size ${chunkSize}`);
+			}
+		});
+
+		test(`finds a character boundary inside a long ${target} line`, () => {
+			const text = readSingleLine(file, encoding, suffix);
+			const data = iconv.encode(text.repeat(Math.ceil(3 * 4096 / Buffer.byteLength(text)) + 1), target);
+			const filePath = path.join(tempDir, `${target}.txt`);
+			fs.writeFileSync(filePath, data);
+			const expected = iconv.decode(data, target);
+
+			// 行首超出4KB的查找范围，只能退回到最近的字符边界；双字节编码退回到最近的ASCII字节
+			for (let offset = 2 * 4096; offset < 2 * 4096 + 64; offset++) {
+				const start = EncodingUtils.findLineStart(filePath, offset, target);
+				assert.ok(start <= offset && offset - start < 4096, `offset ${offset} starts at ${start}`);
+				assert.strictEqual(iconv.decode(data.subarray(0, start), target) + iconv.decode(data.subarray(start), target), expected, `offset ${offset}`);
+			}
+		});
+	}
+
+	for (const encoding of ['utf8', 'gb18030', 'utf16le']) {
+		test(`splits a large ${encoding} file without newlines into bounded lines`, async () => {
+			const text = '没有换行符的网络小说正文😀'.repeat(100000);
+			const data = iconv.encode(text, encoding);
+			const filePath = path.join(tempDir, `no-newline-${encoding}.txt`);
+			fs.writeFileSync(filePath, data);
+
+			const lines: { line: string; offset: number }[] = [];
+			assert.strictEqual(await EncodingUtils.scanLinesAsync(filePath, encoding, (line, offset) => {
+				lines.push({ line, offset });
+			}), true);
+
+			assert.ok(lines.length > data.length / (64 * 1024), `${lines.length} lines`);
+			assert.strictEqual(lines.map(item => item.line).join(''), text);
+			for (let i = 0; i < lines.length; i++) {
+				const end = i + 1 < lines.length ? lines[i + 1].offset : data.length;
+				assert.ok(end - lines[i].offset <= 64 * 1024, `line ${i} has ${end - lines[i].offset} bytes`);
+				assert.strictEqual(iconv.decode(data.subarray(lines[i].offset, end), encoding), lines[i].line);
+			}
+		});
+	}
+
+	test('keeps multi-byte characters and surrogate pairs whole', () => {
+		assert.strictEqual(EncodingUtils.alignToCharBoundary(Buffer.from('a中'), 3, 'utf8'), 1);
+		assert.strictEqual(EncodingUtils.alignToCharBoundary(Buffer.from('abc'), 10, 'utf8'), 3);
+		assert.strictEqual(EncodingUtils.alignToCharBoundary(iconv.encode('a😀', 'utf16le'), 5, 'utf16le'), 2);
+		assert.strictEqual(EncodingUtils.alignToCharBoundary(iconv.encode('a😀', 'utf16be'), 6, 'utf16be'), 6);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ReadPluginState } from '../extension';
+
+/**
+ * 创建只提供插件状态所需成员的扩展上下文
+ */
+function createContext(storagePath: string, globalValues: Map<string, unknown>): vscode.ExtensionContext {
+	const secrets = new Map<string, string>();
+	return {
+		storagePath: storagePath,
+		globalState: {
+			keys: () => [...globalValues.keys()],
+			get: <T>(key: string, defaultValue?: T) => (globalValues.has(key) ? globalValues.get(key) : defaultValue) as T,
+			update: async (key: string, value: unknown) => {
+				globalValues.set(key, value);
+			},
+			setKeysForSync: () => undefined
+		},
+		secrets: {
+			get: async (key: string) => secrets.get(key),
+			store: async (key: string, value: string) => {
+				secrets.set(key, value);
+			},
+			delete: async (key: string) => {
+				secrets.delete(key);
+			},
+			onDidChange: new vscode.EventEmitter<vscode.SecretStorageChangeEvent>().event
+		}
+	} as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * 创建不读取真实用户设置的配置对象，写入结果由update决定
+ */
+function createConfiguration(update: () => Promise<void>): vscode.WorkspaceConfiguration {
+	return {
+		get: <T>(_key: string, defaultValue?: T) => defaultValue,
+		has: () => false,
+		inspect: () => undefined,
+		update: update
+	} as unknown as vscode.WorkspaceConfiguration;
+}
+
+suite('Settings Migration Test Suite', () => {
+	const getConfiguration = vscode.workspace.getConfiguration;
+	let tempDir: string;
+	let settingsPath: string;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readplugin-settings-'));
+		settingsPath = path.join(tempDir, 'settings.json');
+		fs.writeFileSync(settingsPath, JSON.stringify({ fontSize: 20, chapterPatterns: ['^Part \\d+'], wechatReadSynckey: 5 }));
+	});
+
+	teardown(() => {
+		vscode.workspace.getConfiguration = getConfiguration;
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('keeps unmigrated settings in settings.json when the configuration write fails', async () => {
+		vscode.workspace.getConfiguration = () => createConfiguration(() => Promise.reject(new Error('write failed')));
+		const globalValues = new Map<string, unknown>();
+		const state = new ReadPluginState(createContext(tempDir, globalValues));
+		await new Promise(resolve => setTimeout(resolve, 10));
+		state.dispose();
+
+		const saved = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+		assert.strictEqual(saved.fontSize, 20);
+		assert.deepStrictEqual(saved.chapterPatterns, ['^Part \\d+']);
+		assert.strictEqual(saved.wechatReadSynckey, 5);
+		assert.strictEqual(globalValues.size, 0);
+	});
+
+	test('removes migrated settings from settings.json once the configuration is written', async () => {
+		vscode.workspace.getConfiguration = () => createConfiguration(() => Promise.resolve());
+		const globalValues = new Map<string, unknown>();
+		const state = new ReadPluginState(createContext(tempDir, globalValues));
+		await new Promise(resolve => setTimeout(resolve, 10));
+		state.dispose();
+
+		const saved = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+		assert.strictEqual(saved.fontSize, undefined);
+		assert.strictEqual(saved.chapterPatterns, undefined);
+		assert.strictEqual(saved.wechatReadSynckey, 5);
+		assert.strictEqual(globalValues.get('readplugin.settingsMigrated'), true);
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { TextIndexer } from '../services/textIndexer';
+import { DEFAULT_SETTINGS } from '../types';
+
+// 测试编译到out/test，固定样本文件保留在源码目录中
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/encoding');
+
+/**
+ * 按行切分样本文本，末尾换行符之后的空字符串不算一行
+ */
+function splitLines(text: string): string[] {
+	const lines = text.split('\n');
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+suite('Text Indexer Test Suite', () => {
+	let tempDir: string;
+
+	suiteSetup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readplugin-index-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	for (const { file, encoding } of [{ file: 'utf8.txt', encoding: 'utf8' }, { file: 'utf16le-cjk.txt', encoding: 'utf16le' }]) {
+		test(`counts lines and chapters of ${file}`, async () => {
+			const filePath = path.join(FIXTURES, file);
+			const lines = splitLines(iconv.decode(fs.readFileSync(filePath), encoding));
+			const result = await TextIndexer.build(filePath, encoding, DEFAULT_SETTINGS.chapterPatterns);
+
+			assert.ok(result);
+			assert.strictEqual(result.index.lineCount, lines.length);
+			assert.deepStrictEqual(result.index.checkpoints, [{ offset: 0, line: 0 }]);
+			assert.strictEqual(result.chapters[0].title, lines[0].trim());
+			assert.strictEqual(result.chapters[0].offset, 0);
+		});
+	}
+
+	test('records checkpoints at line starts across a large file', async () => {
+		const filePath = path.join(tempDir, 'large.txt');
+		const paragraph = '这是用于测试检查点的一段正文。'.repeat(20);
+		const parts: string[] = [];
+		for (let i = 0; i < 4000; i++) {
+			parts.push(i % 1000 === 0 ? `第${i / 1000 + 1}章\n` : '', paragraph, '\n', i % 2 === 0 ? '\n' : '');
+		}
+		const data = Buffer.from(parts.join(''));
+		fs.writeFileSync(filePath, data);
+
+		const result = await TextIndexer.build(filePath, 'utf8', DEFAULT_SETTINGS.chapterPatterns);
+		assert.ok(result);
+		const { checkpoints } = result.index;
+		assert.ok(checkpoints.length > 10, `${checkpoints.length} checkpoints`);
+		assert.strictEqual(result.chapters.length, 4);
+
+		for (let i = 0; i < checkpoints.length; i++) {
+			const checkpoint = checkpoints[i];
+			if (i > 0) {
+				assert.ok(checkpoint.offset - checkpoints[i - 1].offset >= 256 * 1024);
+				assert.strictEqual(data[checkpoint.offset - 1], 0x0A);
+			}
+			// 检查点之前的行数与直接统计的结果一致
+			const before = data.subarray(0, checkpoint.offset).toString();
+			assert.strictEqual(checkpoint.line, splitLines(before).length);
+		}
+	});
+
+	test('reports progress and can be cancelled', async () => {
+		const filePath = path.join(tempDir, 'progress.txt');
+		fs.writeFileSync(filePath, ('x'.repeat(99) + '\n').repeat(25000));
+
+		const fractions: number[] = [];
+		const result = await TextIndexer.build(filePath, 'utf8', [], fraction => {
+			fractions.push(fraction);
+		});
+		assert.ok(result);
+		assert.strictEqual(result.index.lineCount, 25000);
+		assert.ok(fractions.length > 1);
+		assert.deepStrictEqual([...fractions].sort((a, b) => a - b), fractions);
+		assert.strictEqual(fractions[fractions.length - 1], 1);
+
+		assert.strictEqual(await TextIndexer.build(filePath, 'utf8', [], () => false), undefined);
+	});
+
+	test('indexes an empty file with a single checkpoint', async () => {
+		const filePath = path.join(tempDir, 'empty.txt');
+		fs.writeFileSync(filePath, '');
+
+		const result = await TextIndexer.build(filePath, 'utf8', DEFAULT_SETTINGS.chapterPatterns);
+		assert.ok(result);
+		assert.strictEqual(result.index.lineCount, 0);
+		assert.deepStrictEqual(result.index.checkpoints, [{ offset: 0, line: 0 }]);
+		assert.deepStrictEqual(result.chapters, []);
+	});
+
+	test('invalidates the index when the file or encoding changes', async () => {
+		const filePath = path.join(tempDir, 'changing.txt');
+		fs.writeFileSync(filePath, 'first\nsecond\n');
+		const result = await TextIndexer.build(filePath, 'utf8', []);
+		assert.ok(result);
+		const index = result.index;
+
+		assert.strictEqual(TextIndexer.isValid(index, filePath, 'utf8'), true);
+		assert.strictEqual(TextIndexer.isValid(index, filePath, 'gb18030'), false);
+		assert.strictEqual(TextIndexer.isValid({ ...index, version: index.version + 1 }, filePath, 'utf8'), false);
+		assert.strictEqual(TextIndexer.isValid(undefined, filePath, 'utf8'), false);
+		assert.strictEqual(TextIndexer.isValid(index, path.join(tempDir, 'missing.txt'), 'utf8'), false);
+
+		fs.utimesSync(filePath, new Date(), new Date(index.modifiedTime + 60000));
+		assert.strictEqual(TextIndexer.isValid(index, filePath, 'utf8'), false);
+		fs.appendFileSync(filePath, 'third\n');
+		assert.strictEqual(TextIndexer.isValid({ ...index, modifiedTime: fs.statSync(filePath).mtimeMs }, filePath, 'utf8'), false);
+	});
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { TextSearcher } from '../services/textSearcher';
+
+/**
+ * 测试文本 - 中文标题和两个段落
+ */
+const TEXT = '第一章\n他说：你好，世界。\n世界很大，你好。\n';
+
+suite('Text Searcher Test Suite', () => {
+	let tempDir: string;
+
+	suiteSetup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readplugin-search-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * 写入测试文件并返回路径
+	 */
+	function writeBook(name: string, data: Buffer): string {
+		const filePath = path.join(tempDir, name);
+		fs.writeFileSync(filePath, data);
+		return filePath;
+	}
+
+	test('reports byte offsets and lengths in GBK', async () => {
+		const data = iconv.encode(TEXT, 'gbk');
+		const results = await TextSearcher.search(writeBook('gbk.txt', data), 'gbk', '你好');
+
+		assert.ok(results);
+		assert.deepStrictEqual(results.map(result => result.lineNumber), [2, 3]);
+		assert.deepStrictEqual(results.map(result => result.offset), [
+			iconv.encode('第一章\n他说：', 'gbk').length,
+			iconv.encode('第一章\n他说：你好，世界。\n世界很大，', 'gbk').length
+		]);
+		for (const result of results) {
+			assert.strictEqual(result.length, 4);
+			assert.strictEqual(iconv.decode(data.subarray(result.offset, result.offset + result.length), 'gbk'), '你好');
+		}
+		assert.deepStrictEqual(results.map(result => result.preview), ['他说：你好，世界。', '世界很大，你好。']);
+	});
+
+	test('counts the BOM in byte offsets of UTF-16 files', async () => {
+		for (const encoding of ['utf16le', 'utf16be']) {
+			const bom = encoding === 'utf16le' ? [0xFF, 0xFE] : [0xFE, 0xFF];
+			const data = Buffer.concat([Buffer.from(bom), iconv.encode(TEXT, encoding)]);
+			const filePath = writeBook(`${encoding}.txt`, data);
+
+			const [title] = (await TextSearcher.search(filePath, encoding, '第一章'))!;
+			assert.deepStrictEqual([title.offset, title.length], [2, 6]);
+
+			const results = await TextSearcher.search(filePath, encoding, '世界');
+			assert.ok(results);
+			assert.deepStrictEqual(results.map(result => result.offset), [2 + 2 * '第一章\n他说：你好，'.length, 2 + 2 * '第一章\n他说：你好，世界。\n'.length]);
+			for (const result of results) {
+				assert.strictEqual(iconv.decode(data.subarray(result.offset, result.offset + result.length), encoding), '世界');
+			}
+		}
+	});
+
+	test('stops at the result limit and returns undefined when cancelled', async () => {
+		const filePath = writeBook('limit.txt', Buffer.from('match\n'.repeat(100)));
+
+		const limited = await TextSearcher.search(filePath, 'utf8', 'MATCH', 10);
+		assert.ok(limited);
+		assert.strictEqual(limited.length, 10);
+		assert.strictEqual(limited[9].offset, 9 * 6);
+		assert.strictEqual(await TextSearcher.search(filePath, 'utf8', 'match', undefined, () => false), undefined);
+		assert.deepStrictEqual(await TextSearcher.search(filePath, 'utf8', ''), []);
+	});
+
+	test('finds matches on lines whose lowercase form changes length', async () => {
+		const text = 'first line\nİstanbul and Ankara, then ankara again\n';
+		const data = Buffer.from(text);
+		const results = await TextSearcher.search(writeBook('dotted.txt', data), 'utf8', 'ANKARA');
+
+		assert.ok(results);
+		assert.deepStrictEqual(results.map(result => data.toString('utf8', result.offset, result.offset + result.length)), ['Ankara', 'ankara']);
+		assert.deepStrictEqual(results.map(result => result.lineNumber), [2, 2]);
+		assert.ok(results[0].preview.includes('İstanbul and Ankara'));
+
+		// 匹配从展开后的字符中间开始时，范围包含整个原文字符
+		const dotted = await TextSearcher.search(writeBook('dotted-i.txt', data), 'utf8', 'i');
+		assert.ok(dotted);
+		assert.strictEqual(data.toString('utf8', dotted[2].offset, dotted[2].offset + dotted[2].length), 'İ');
+	});
+});
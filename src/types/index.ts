@@ -36,9 +36,15 @@
  * - cover: 书籍封面URL - 书籍封面图片的网络地址
  * - author: 书籍作者 - 书籍的作者信息
  * - synckey: 微信读书同步键 - 用于微信读书书籍的增量同步
+ * - chapters: 章节索引 - 文本书籍中识别出的章节标题及其字节偏移
+ * - bookmarks: 书签列表 - 用户在书中保存的命名位置
+ * - position: 阅读位置 - 文本书籍为首个可见段落的字节偏移，PDF为页码和页内偏移
+ * - pdfState: PDF状态 - PDF书籍的页码、缩放比例和旋转角度
+ * - outline: PDF目录 - 从PDF文档大纲中读取，打开PDF时更新
+ * - annotations: 标注列表 - 文本书籍中的高亮和笔记
  *
  * 使用场景：
- * - 本地书籍：存储在本地文件系统的.txt或.pdf文件
+ * - 本地书籍：存储在本地文件系统的.txt、.pdf或.epub文件
  * - 微信读书书籍：从微信读书API同步的书籍
  */
 export interface Book {
@@ -48,7 +54,7 @@ export interface Book {
     name: string;
     /** 书籍文件路径 - 本地书籍的绝对路径，微信读书书籍使用"wechat://bookId"格式 */
     path: string;
-    /** 阅读进度（0-100） - 表示书籍的阅读进度百分比，0表示未开始，100表示已完成 */
+    /** 阅读进度（0-100） - 表示书籍的阅读进度百分比，0表示未开始，100表示已完成；本地书籍由position推算，仅用于显示 */
     progress: number;
     /** 文件大小（字节） - 本地书籍的文件大小，微信读书书籍为0 */
     fileSize: number;
@@ -68,6 +74,75 @@ export interface Book {
     author?: string;
     /** 微信读书同步键 - 用于微信读书书籍的增量同步，本地书籍不需要 */
     synckey?: number;
+    /** 章节索引 - 仅文本书籍使用，未建立索引时为undefined */
+    chapters?: Chapter[];
+    /** 书签列表 - 按添加时间排列 */
+    bookmarks?: Bookmark[];
+    /** 阅读位置 - 恢复阅读时直接定位，未记录时按progress估算 */
+    position?: ReadingPosition;
+    /** PDF状态 - 仅PDF书籍使用 */
+    pdfState?: PdfState;
+    /** PDF目录 - 仅PDF书籍使用 */
+    outline?: PdfOutlineItem[];
+    /** 标注列表 - 仅文本书籍使用，按添加时间排列 */
+    annotations?: Annotation[];
+}
+
+/**
+ * 阅读位置接口
+ *
+ * 字段说明：
+ * - offset: 字节偏移 - 文本书籍中的位置
+ * - page: 页码 - PDF书籍中的位置（从1开始）
+ * - pageOffset: 页内偏移 - PDF页面顶部滚出视口的比例（0-1）
+ *
+ * 使用场景：
+ * - 从章节、书签等位置打开书籍
+ * - 记录书籍的精确阅读位置，字体大小变化时不会漂移
+ */
+export interface ReadingPosition {
+    /** 字节偏移 - 文本书籍使用 */
+    offset?: number;
+    /** 页码 - PDF书籍使用，从1开始 */
+    page?: number;
+    /** 页内偏移 - PDF书籍使用，0表示页面顶部，1表示页面底部 */
+    pageOffset?: number;
+}
+
+/**
+ * 书签接口
+ *
+ * 字段说明：
+ * - id: 书签唯一标识 - 使用时间戳
+ * - name: 书签名称 - 用户输入，默认使用位置处的文本片段
+ * - offset: 字节偏移 - 文本书籍的书签位置
+ * - page: 页码 - PDF书籍的书签位置
+ * - snippet: 文本片段 - 书签位置处的一小段文字，用于在列表中识别书签
+ * - createdTime: 创建时间戳
+ */
+export interface Bookmark extends ReadingPosition {
+    /** 书签唯一标识 */
+    id: string;
+    /** 书签名称 */
+    name: string;
+    /** 书签位置处的文本片段 */
+    snippet: string;
+    /** 创建时间戳 */
+    createdTime: number;
+}
+
+/**
+ * 章节接口
+ *
+ * 字段说明：
+ * - title: 章节标题 - 匹配章节标题规则的行文本
+ * - offset: 字节偏移 - 章节标题行在文件中的起始字节位置
+ */
+export interface Chapter {
+    /** 章节标题 */
+    title: string;
+    /** 章节标题行在文件中的起始字节位置 */
+    offset: number;
 }
 
 /**
@@ -80,17 +155,24 @@ export interface Book {
  * - fontSize: 字体大小 - 文本阅读时的字体大小
  * - fontFamily: 字体系列 - 文本阅读时使用的字体
  * - lineHeight: 行高 - 文本阅读时的行间距
- * - theme: 主题模式 - 插件的显示主题
+ * - theme: 阅读主题 - 文本阅读器使用的配色方案名称
+ * - customThemes: 自定义阅读主题 - 用户定义的配色方案
+ * - paragraphSpacing/textIndent/maxTextWidth/letterSpacing: 排版 - 文本阅读器的段落间距、首行缩进、最大正文宽度和字间距
  * - autoSaveInterval: 自动保存间隔（毫秒） - 数据自动保存的时间间隔
- * - maxFileSize: 最大文件大小（字节） - 允许添加的最大文件大小
- * - wechatReadToken: 微信读书Token - 用于登录微信读书API
- * - wechatReadUserId: 微信读书用户ID - 微信读书用户的唯一标识
+ * - maxFileSize: 最大文件大小（字节） - 允许添加的最大PDF和EPUB文件大小，文本文件不受限制
+ * - chapterPatterns: 章节标题规则 - 识别文本书籍章节标题的正则表达式列表
+ * - pdfScrollMode: PDF滚动模式 - 单页翻页或连续滚动
+ * - bossKeyView: 老板键伪装视图 - 按下老板键后阅读器显示的假界面
+ * - statusBarLineLength: 状态栏每行长度 - 状态栏阅读模式一次显示的最大字符数
+ * - statusBarAutoAdvanceInterval: 状态栏自动前进间隔（毫秒） - 自动切换到下一行的时间间隔
+ * - codeDisguiseLanguage: 代码伪装语言 - 在编辑器中以源码注释显示书籍时使用的语言
+ * - autoHideOnDebug/autoHideOnFocusLoss/autoHideOnTerminalCommand/autoHideIdleMinutes: 自动隐藏规则 - 满足条件时自动隐藏阅读器，条件结束后恢复
  * - wechatReadSynckey: 微信读书同步键 - 用于微信读书书籍的增量同步
  *
  * 使用场景：
  * - 用户可以通过设置调整阅读体验
  * - 插件使用这些设置来配置其行为
- * - 微信读书相关设置用于API调用和数据同步
+ * - 微信读书同步键用于增量同步，登录凭据不属于设置，见WechatReadCredentials
  */
 export interface PluginSettings {
     /** 字体大小 - 文本阅读时的字体大小，默认14px */
@@ -99,20 +181,77 @@ export interface PluginSettings {
     fontFamily: string;
     /** 行高 - 文本阅读时的行间距，默认1.8倍行高 */
     lineHeight: number;
-    /** 主题模式 - 插件的显示主题，auto表示跟随系统，light表示亮色，dark表示暗色 */
-    theme: 'auto' | 'light' | 'dark';
+    /** 阅读主题 - auto表示跟随VS Code，其余为内置主题（paper、sepia、night、highContrast）或自定义主题的名称；旧版本的light和dark分别对应paper和night */
+    theme: string;
+    /** 自定义阅读主题 - 名称与内置主题相同时覆盖内置主题 */
+    customThemes: ReadingTheme[];
+    /** 段落间距（em） - 段落之间的额外间距，默认0 */
+    paragraphSpacing: number;
+    /** 首行缩进（em） - 段落首行的缩进，默认0 */
+    textIndent: number;
+    /** 最大正文宽度（像素） - 正文超过该宽度时居中显示，0表示不限制 */
+    maxTextWidth: number;
+    /** 字间距（像素） - 默认0 */
+    letterSpacing: number;
     /** 自动保存间隔（毫秒） - 数据自动保存的时间间隔，默认3000毫秒 */
     autoSaveInterval: number;
-    /** 最大文件大小（字节） - 允许添加的最大文件大小，默认50MB */
+    /** 最大文件大小（字节） - 允许添加的最大PDF和EPUB文件大小，默认50MB；文本文件分块读取，不受限制 */
     maxFileSize: number;
-    /** 微信读书Token - 用于登录微信读书API，用户需要手动输入 */
-    wechatReadToken?: string;
-    /** 微信读书用户ID - 微信读书用户的唯一标识，用户需要手动输入 */
-    wechatReadUserId?: string;
+    /** 章节标题规则 - 正则表达式字符串列表，匹配去除首尾空白后的行，忽略大小写 */
+    chapterPatterns: string[];
+    /** PDF滚动模式 - single表示单页翻页，continuous表示所有页面纵向连续滚动 */
+    pdfScrollMode: 'single' | 'continuous';
+    /** 老板键伪装视图 - testRunner表示测试运行输出，logTail表示滚动的日志，outline表示代码大纲 */
+    bossKeyView: 'testRunner' | 'logTail' | 'outline';
+    /** 状态栏每行长度 - 状态栏阅读模式一次显示的最大字符数，过长的行会被切分，默认50 */
+    statusBarLineLength: number;
+    /** 状态栏自动前进间隔（毫秒） - 自动切换到下一行的时间间隔，默认3000毫秒 */
+    statusBarAutoAdvanceInterval: number;
+    /** 代码伪装语言 - typescript显示为.ts文件中的块注释，python显示为.py文件中的行注释 */
+    codeDisguiseLanguage: 'typescript' | 'python';
+    /** 调试时自动隐藏 - 调试会话开始时隐藏阅读器，所有调试会话结束后恢复，默认关闭 */
+    autoHideOnDebug: boolean;
+    /** 失去焦点时自动隐藏 - 窗口失去焦点时隐藏阅读器，重新获得焦点后恢复，默认关闭 */
+    autoHideOnFocusLoss: boolean;
+    /** 终端命令运行时自动隐藏 - 终端命令运行时隐藏阅读器，命令结束后恢复，需要终端Shell集成，默认关闭 */
+    autoHideOnTerminalCommand: boolean;
+    /** 空闲自动隐藏时间（分钟） - 超过该时间没有操作时隐藏阅读器，再次操作后恢复，0表示关闭 */
+    autoHideIdleMinutes: number;
     /** 微信读书同步键 - 用于微信读书书籍的增量同步，自动更新 */
     wechatReadSynckey?: number;
 }
 
+/**
+ * 微信读书登录凭据接口
+ *
+ * 字段说明：
+ * - token: 微信读书Token - 用于登录微信读书API，用户需要手动输入
+ * - userId: 微信读书用户ID（userVid） - 微信读书用户的唯一标识，用户需要手动输入
+ *
+ * 安全说明：
+ * - 凭据保存在VS Code的SecretStorage中，不写入设置文件，也不会随设置同步
+ */
+export interface WechatReadCredentials {
+    /** 微信读书Token */
+    token: string;
+    /** 微信读书用户ID */
+    userId: string;
+}
+
+/**
+ * 微信读书凭据提供者接口
+ *
+ * 功能：
+ * 在每次调用微信读书API时提供当前的登录凭据，退出登录后立即生效
+ */
+export interface WechatCredentialsProvider {
+    /**
+     * 获取登录凭据
+     * @returns 登录凭据，未登录时返回undefined
+     */
+    getWechatCredentials(): Promise<WechatReadCredentials | undefined>;
+}
+
 /**
  * WebView消息接口
  *
@@ -164,6 +303,177 @@ export interface ContentChunk {
     totalSize: number;
 }
 
+/**
+ * 文本行接口
+ *
+ * 字段说明：
+ * - offset: 行首字节偏移
+ * - text: 解码后的行文本（不含换行符）
+ */
+export interface TextLine {
+    /** 行首字节偏移 */
+    offset: number;
+    /** 解码后的行文本 */
+    text: string;
+}
+
+/**
+ * 文本索引检查点接口
+ *
+ * 字段说明：
+ * - offset: 行首字节偏移
+ * - line: 该行之前的行数
+ */
+export interface TextIndexCheckpoint {
+    /** 行首字节偏移 */
+    offset: number;
+    /** 该行之前的行数 */
+    line: number;
+}
+
+/**
+ * 文本索引接口
+ *
+ * 功能：
+ * 大文本文件的行偏移索引，在后台扫描一次后保存，避免每次打开时重新扫描整个文件
+ *
+ * 字段说明：
+ * - version: 索引格式版本 - 格式变化后旧索引失效
+ * - fileSize/modifiedTime/encoding: 建立索引时的文件状态 - 任何一项变化后索引失效
+ * - lineCount: 总行数
+ * - checkpoints: 检查点 - 大约每隔固定字节数记录一个行首，按偏移升序排列，第一个检查点位于文件开头
+ */
+export interface TextIndex {
+    /** 索引格式版本 */
+    version: number;
+    /** 文件大小（字节） */
+    fileSize: number;
+    /** 文件修改时间戳 */
+    modifiedTime: number;
+    /** 建立索引时使用的编码 */
+    encoding: string;
+    /** 总行数 */
+    lineCount: number;
+    /** 检查点列表 */
+    checkpoints: TextIndexCheckpoint[];
+}
+
+/**
+ * 编码检测结果接口
+ *
+ * 字段说明：
+ * - encoding: 检测到的编码 - iconv-lite可以识别的编码名称
+ * - confidence: 置信度（0-1） - 带BOM或通过UTF-8校验时为1，根据字符频率判断时取决于与其他候选编码的差距
+ */
+export interface EncodingDetectionResult {
+    /** 检测到的编码 */
+    encoding: string;
+    /** 置信度（0-1） */
+    confidence: number;
+}
+
+/**
+ * 文本范围接口
+ *
+ * 字段说明：
+ * - start: 起始字节偏移（包含）
+ * - end: 结束字节偏移（不包含）
+ */
+export interface TextRange {
+    /** 起始字节偏移 */
+    start: number;
+    /** 结束字节偏移 */
+    end: number;
+}
+
+/**
+ * 文本选区端点接口
+ *
+ * 功能：
+ * 阅读器报告的选区起点或终点，由扩展换算为字节偏移
+ *
+ * 字段说明：
+ * - start/end: 端点所在段落的起止字节偏移
+ * - charIndex: 端点在段落内的字符序号
+ */
+export interface TextSelectionPoint {
+    /** 所在段落的起始字节偏移 */
+    start: number;
+    /** 所在段落的结束字节偏移 */
+    end: number;
+    /** 段落内的字符序号 */
+    charIndex: number;
+}
+
+/**
+ * 书签位置接口
+ *
+ * 功能：
+ * 阅读器添加书签时报告的位置，由扩展换算为页码或字节偏移
+ *
+ * 字段说明：
+ * - page/pageOffset: PDF书籍的页码和页内偏移比例
+ * - start/end/charIndex: 文本书籍中视口顶部所在段落的起止字节偏移和段落内字符序号
+ * - snippet: 位置处的文本片段，用作默认的书签名称
+ */
+export interface BookmarkPositionReport extends Partial<TextSelectionPoint> {
+    /** PDF页码（从1开始） */
+    page?: number;
+    /** 页内偏移比例（0-1） */
+    pageOffset?: number;
+    /** 位置处的文本片段 */
+    snippet?: string;
+}
+
+/**
+ * 标注颜色类型
+ */
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'red' | 'purple';
+
+/**
+ * 标注接口
+ *
+ * 字段说明：
+ * - id: 标注唯一标识 - 使用时间戳
+ * - start/end: 标注文本的字节范围 - 与分块加载使用同一坐标，不受字体大小和分块方式影响
+ * - color: 高亮颜色
+ * - text: 标注的文本 - 过长时截断，用于在列表中识别标注
+ * - note: 笔记（可选）
+ * - createdTime: 创建时间戳
+ */
+export interface Annotation extends TextRange {
+    /** 标注唯一标识 */
+    id: string;
+    /** 高亮颜色 */
+    color: AnnotationColor;
+    /** 标注的文本 */
+    text: string;
+    /** 笔记 */
+    note?: string;
+    /** 创建时间戳 */
+    createdTime: number;
+}
+
+/**
+ * 全文搜索结果接口
+ *
+ * 字段说明：
+ * - offset: 匹配文本在文件中的起始字节偏移
+ * - length: 匹配文本的字节长度
+ * - lineNumber: 匹配所在的行号（从1开始）
+ * - preview: 匹配前后的上下文文本
+ */
+export interface TextSearchResult {
+    /** 匹配文本的起始字节偏移 */
+    offset: number;
+    /** 匹配文本的字节长度 */
+    length: number;
+    /** 所在行号 */
+    lineNumber: number;
+    /** 上下文文本 */
+    preview: string;
+}
+
 /**
  * PDF状态接口
  *
@@ -172,6 +482,10 @@ export interface ContentChunk {
  * - totalPages: 总页数
  * - zoom: 缩放比例
  * - rotation: 旋转角度
+ * - fitWidth: 适应宽度 - 开启时缩放比例随侧栏宽度自动计算
+ *
+ * 使用场景：
+ * - 翻页、缩放或旋转时按书籍保存，重新打开PDF时恢复
  */
 export interface PdfState {
     /** 当前页码 */
@@ -180,14 +494,99 @@ export interface PdfState {
     totalPages: number;
     /** 缩放比例 */
     zoom: number;
-    /** 旋转角度 */
+    /** 旋转角度 - 0、90、180或270 */
     rotation: number;
+    /** 适应宽度 - 开启时忽略保存的缩放比例 */
+    fitWidth?: boolean;
+}
+
+/**
+ * PDF目录项接口
+ *
+ * 字段说明：
+ * - title: 标题
+ * - page: 目标页码 - 目录项指向外部链接或无法解析时为空
+ * - items: 子目录项
+ */
+export interface PdfOutlineItem {
+    /** 标题 */
+    title: string;
+    /** 目标页码（从1开始） */
+    page?: number;
+    /** 子目录项 */
+    items: PdfOutlineItem[];
+}
+
+/**
+ * EPUB元数据接口
+ *
+ * 字段说明：
+ * - title: 书名（dc:title）
+ * - author: 作者（dc:creator）
+ */
+export interface EpubMetadata {
+    /** 书名 */
+    title?: string;
+    /** 作者 */
+    author?: string;
+}
+
+/**
+ * EPUB章节接口
+ *
+ * 字段说明：
+ * - id: 清单（manifest）中的条目ID
+ * - href: 章节文件在压缩包内的完整路径
+ * - title: 章节标题，来自目录（nav或NCX），缺失时使用序号
+ */
+export interface EpubChapter {
+    /** 清单条目ID */
+    id: string;
+    /** 章节文件在压缩包内的完整路径 */
+    href: string;
+    /** 章节标题 */
+    title: string;
 }
 
+/**
+ * 阅读主题接口
+ *
+ * 字段说明：
+ * - name: 主题名称 - 在设置readplugin.theme中引用
+ * - background/text/link/selection: 背景色、文本颜色、链接颜色和选中文本的背景色，使用CSS颜色值
+ */
+export interface ReadingTheme {
+    /** 主题名称 */
+    name: string;
+    /** 背景色 */
+    background: string;
+    /** 文本颜色 */
+    text: string;
+    /** 链接颜色 */
+    link: string;
+    /** 选中文本的背景色 */
+    selection: string;
+}
+
+/**
+ * 内置阅读主题列表
+ */
+export const BUILTIN_READING_THEMES: ReadingTheme[] = [
+    { name: 'paper', background: '#fbfbf8', text: '#2b2b2b', link: '#0b62a4', selection: 'rgba(11, 98, 164, 0.25)' },
+    { name: 'sepia', background: '#f4ecd8', text: '#5b4636', link: '#8a4b14', selection: 'rgba(138, 75, 20, 0.25)' },
+    { name: 'night', background: '#141414', text: '#b9b9b9', link: '#6fa8dc', selection: 'rgba(111, 168, 220, 0.3)' },
+    { name: 'highContrast', background: '#000000', text: '#ffffff', link: '#ffff00', selection: 'rgba(26, 235, 255, 0.5)' }
+];
+
 /**
  * 允许的文件扩展名列表
  */
-export const ALLOWED_EXTENSIONS = ['.txt', '.pdf'];
+export const ALLOWED_EXTENSIONS = ['.txt', '.pdf', '.epub'];
+
+/**
+ * 标注颜色列表 - 按在阅读器工具栏中的显示顺序排列
+ */
+export const ANNOTATION_COLORS: AnnotationColor[] = ['yellow', 'green', 'blue', 'red', 'purple'];
 
 /**
  * 默认插件设置
@@ -199,16 +598,44 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     fontFamily: "'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
     /** 默认行高：1.8 */
     lineHeight: 1.8,
-    /** 默认主题：自动（跟随系统） */
+    /** 默认主题：自动（跟随VS Code） */
     theme: 'auto',
+    /** 默认自定义阅读主题：无 */
+    customThemes: [],
+    /** 默认段落间距：0 */
+    paragraphSpacing: 0,
+    /** 默认首行缩进：0 */
+    textIndent: 0,
+    /** 默认最大正文宽度：不限制 */
+    maxTextWidth: 0,
+    /** 默认字间距：0 */
+    letterSpacing: 0,
     /** 默认自动保存间隔：3000毫秒 */
     autoSaveInterval: 3000,
     /** 默认最大文件大小：50MB */
     maxFileSize: 50 * 1024 * 1024, // 50MB
-    /** 默认微信读书Token：未设置 */
-    wechatReadToken: undefined,
-    /** 默认微信读书用户ID：未设置 */
-    wechatReadUserId: undefined,
+    /** 默认章节标题规则：第X章/节/卷/回、Chapter N、序章、Prologue等 */
+    chapterPatterns: [
+        '^第[0-9０-９零〇一二三四五六七八九十百千万两壹贰叁肆伍陆柒捌玖拾佰仟]+[章节卷回集部篇]',
+        '^(序章|序言|序幕|楔子|引子|前言|尾声|后记|终章|番外)',
+        '^chapter\\s+([0-9]+|[ivxlcdm]+|[a-z]+)\\b',
+        '^(prologue|epilogue|preface|introduction|afterword)\\b'
+    ],
+    /** 默认PDF滚动模式：单页翻页 */
+    pdfScrollMode: 'single',
+    /** 默认老板键伪装视图：测试运行输出 */
+    bossKeyView: 'testRunner',
+    /** 默认状态栏每行长度：50个字符 */
+    statusBarLineLength: 50,
+    /** 默认状态栏自动前进间隔：3000毫秒 */
+    statusBarAutoAdvanceInterval: 3000,
+    /** 默认代码伪装语言：TypeScript */
+    codeDisguiseLanguage: 'typescript',
+    /** 默认自动隐藏规则：全部关闭 */
+    autoHideOnDebug: false,
+    autoHideOnFocusLoss: false,
+    autoHideOnTerminalCommand: false,
+    autoHideIdleMinutes: 0,
     /** 默认微信读书同步键：0 */
     wechatReadSynckey: 0
 };
\ No newline at end of file
@@ -0,0 +1,270 @@
+/**
+ * utils/encodingDetector.ts
+ * 编码检测工具类
+ *
+ * 功能说明：
+ * 1. 检测BOM - 带BOM的UTF-8、UTF-16 LE/BE文件直接确定编码
+ * 2. 校验UTF-8 - 样本是合法的UTF-8字节序列时即为UTF-8（纯ASCII文本也按UTF-8处理）
+ * 3. 检测无BOM的UTF-16 - 根据空字节出现在奇数位还是偶数位判断字节序
+ * 4. 按字符频率评分 - 用各个候选编码解码样本，根据解码结果中常用字、假名、谚文等字符的比例选出最可能的编码
+ *
+ * 核心概念：
+ * - 候选编码：GB18030（兼容GBK和GB2312）、Big5、Shift_JIS、EUC-JP、EUC-KR、UTF-16 LE/BE和Windows-1252
+ * - 常用字：简体中文、繁体中文、日文和韩文中出现频率最高的字符，错误的编码解码出的多是生僻字
+ * - 置信度：0-1之间的数值，BOM和UTF-8校验为1，频率评分时取决于最高分以及与第二名的差距
+ *
+ * 技术要点：
+ * - 样本的结尾可能落在多字节字符中间，UTF-8校验允许结尾不完整，其他编码忽略结尾的替换字符
+ * - 替换字符、控制字符、孤立的代理项和私用区字符视为解码错误，按比例扣分
+ * - 只分析样本，内存占用与文件大小无关
+ */
+import * as iconv from 'iconv-lite';
+import { EncodingDetectionResult } from '../types';
+
+/**
+ * 编码检测工具类
+ *
+ * 功能：
+ * 1. 检测字节样本的编码
+ * 2. 给出检测结果的置信度
+ */
+export class EncodingDetector {
+    /** 按字符频率比较的候选编码，得分相同时排在前面的优先 */
+    private static readonly CANDIDATES = ['gb18030', 'big5', 'shift_jis', 'euc-jp', 'euc-kr', 'utf16le', 'utf16be', 'windows1252'];
+
+    /** 常用字 - 简体中文、繁体中文、日文汉字和韩文谚文中出现频率最高的字符 */
+    private static readonly COMMON_CHARS = new Set([
+        // 简体中文
+        ...'的一是在不了有和人这中大为上个国我以要他时来用们生到作地于出就分对成会可主发年动同工也能下过子说产种面而方后多定行学法所民得经' +
+        '十三之进着等部度家电力里如水化高自二理起小物现实加量都两体制机当使点从业本去把性好应开它合还因由其些然前外天政四日那社义事平形相全表' +
+        '间样与关各重新线内数正心反你明看原又么利比或但质气第向道命此变条只没结解问意建月公无系军很情者最立代想已通并提直题党程展五果料象员革' +
+        '位入常文总次品式活设及管特件长求老头基资边流路级少图山统接知较将组见计别她手角期根论运农指几九区强放决西被干做必战先回则任取据处队南' +
+        '给色光门即保治北造百规热领七海口东导器压志世金增争济阶油思术极交受联什认六共权收证改清己美再采转更单风切打白教速花带安场身车例真务具' +
+        '万每目至达走积示议声报斗完类八离华名确才科张信马节话米整空元况今集温传土许步群广石记需段研界拉林律叫且究观越织装影算低持音众书布复容' +
+        '儿须际商非验连断深难近矿千周委素技备半办青省列习响约支般史感劳便团往酸历市克何除消构府称太准精值号率族维划选标写存候毛亲快效斯院查江' +
+        '型眼王按格养易置派层片始却专状育厂京识适属圆包火住调满县局照参红细引听该铁价严龙飞吗呢吧啊',
+        // 繁体中文
+        ...'這個們來為國說時會對過發後裡麼經當沒動還進樣實現從應開關點兩間問題與無軍長機種體義學習變條結誰讓認識聽話親觀覽覺讀寫見風飛馬魚鳥門東' +
+        '車頭愛臉鬥壞傳內將總幾產業區醫藥務權運氣電視聲響麗歡戰爭雖然記憶寶貝錢銀鐵張陳劉華齊龍龜樂歲廣場園圍圖書館得該歷史萬於買賣貴兒連達遠' +
+        '邊適選擇請謝語詞課靜樓層處衛衝幫師帶離難雙雞給紅綠線練絕續罷羅聞聯職隊隨際陽陰',
+        // 日文汉字
+        ...'私彼何事言見思出来行時達様方者物本当気持今自分前後間違話聞読書食飲入所家会社員仕部屋電車駅店円万千百年月日週曜朝昼夜',
+        // 韩文谚文
+        ...'이다는의에가을하고지서로한기사리도어대인나자시게수일있으해들니요것보그아되만라제정주위전면부적성상우장경동국중문치와과며까내소없년여원화모' +
+        '마할습개간말연때거분생신방공구실학후비명음조결관드계발물미저오행진된했각트스회체데무러처통현세두를은던죠네너희녀'
+    ]);
+
+    /**
+     * 检测字节样本的编码
+     *
+     * @param sample 文件开头的字节样本
+     * @returns 检测到的编码及其置信度
+     */
+    static detect(sample: Buffer): EncodingDetectionResult {
+        const bom = this.detectBom(sample);
+        if (bom) {
+            return { encoding: bom, confidence: 1 };
+        }
+        if (sample.length === 0) {
+            return { encoding: 'utf8', confidence: 1 };
+        }
+
+        // 文本文件不包含空字节，有空字节时多半是UTF-16
+        if (!sample.includes(0) && this.isValidUtf8(sample)) {
+            return { encoding: 'utf8', confidence: 1 };
+        }
+
+        const utf16 = this.detectUtf16ByNulls(sample);
+        if (utf16) {
+            return utf16;
+        }
+
+        const scores = this.CANDIDATES
+            .map(encoding => ({ encoding: encoding, score: this.scoreText(this.decode(sample, encoding)) }))
+            .sort((a, b) => b.score - a.score);
+        const best = scores[0];
+        const margin = best.score - (scores[1]?.score ?? 0);
+        const confidence = Math.min(1, best.score) * Math.min(1, 0.5 + margin * 2);
+        return { encoding: best.encoding, confidence: Math.round(confidence * 100) / 100 };
+    }
+
+    /**
+     * 检测BOM
+     * @param sample 字节样本
+     * @returns BOM对应的编码，没有BOM时返回undefined
+     */
+    private static detectBom(sample: Buffer): string | undefined {
+        if (sample.length >= 3 && sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF) {
+            return 'utf8';
+        }
+        if (sample.length >= 2 && sample[0] === 0xFF && sample[1] === 0xFE) {
+            return 'utf16le';
+        }
+        if (sample.length >= 2 && sample[0] === 0xFE && sample[1] === 0xFF) {
+            return 'utf16be';
+        }
+        return undefined;
+    }
+
+    /**
+     * 校验UTF-8字节序列
+     *
+     * 功能：
+     * 检查每个多字节序列的前导字节和后续字节，拒绝过长编码和代理项；
+     * 样本结尾不完整的序列视为合法，因为样本可能在字符中间截断
+     *
+     * @param sample 字节样本
+     * @returns 是否为合法的UTF-8
+     */
+    private static isValidUtf8(sample: Buffer): boolean {
+        let i = 0;
+        while (i < sample.length) {
+            const byte = sample[i];
+            let length: number;
+            let min = 0x80;
+            let max = 0xBF;
+            if (byte < 0x80) {
+                i++;
+                continue;
+            } else if (byte >= 0xC2 && byte <= 0xDF) {
+                length = 2;
+            } else if (byte >= 0xE0 && byte <= 0xEF) {
+                length = 3;
+                min = byte === 0xE0 ? 0xA0 : 0x80;
+                max = byte === 0xED ? 0x9F : 0xBF;
+            } else if (byte >= 0xF0 && byte <= 0xF4) {
+                length = 4;
+                min = byte === 0xF0 ? 0x90 : 0x80;
+                max = byte === 0xF4 ? 0x8F : 0xBF;
+            } else {
+                return false;
+            }
+
+            for (let j = 1; j < length; j++) {
+                if (i + j >= sample.length) {
+                    return true;
+                }
+                const next = sample[i + j];
+                // 第二个字节的范围取决于前导字节，其余后续字节都在0x80-0xBF之间
+                if (j === 1 ? (next < min || next > max) : (next < 0x80 || next > 0xBF)) {
+                    return false;
+                }
+            }
+            i += length;
+        }
+        return true;
+    }
+
+    /**
+     * 根据空字节的位置检测无BOM的UTF-16
+     *
+     * 功能：
+     * ASCII字符在UTF-16 LE中高位字节（奇数位）为0，在UTF-16 BE中低位字节（偶数位）为0，
+     * 空字节集中出现在一侧时即可确定字节序
+     *
+     * @param sample 字节样本
+     * @returns 检测结果，空字节不符合UTF-16的特征时返回undefined
+     */
+    private static detectUtf16ByNulls(sample: Buffer): EncodingDetectionResult | undefined {
+        const pairs = Math.floor(sample.length / 2);
+        if (pairs === 0) {
+            return undefined;
+        }
+
+        let evenNulls = 0;
+        let oddNulls = 0;
+        for (let i = 0; i + 1 < sample.length; i += 2) {
+            if (sample[i] === 0) {
+                evenNulls++;
+            }
+            if (sample[i + 1] === 0) {
+                oddNulls++;
+            }
+        }
+
+        const evenRatio = evenNulls / pairs;
+        const oddRatio = oddNulls / pairs;
+        if (oddRatio > 0.2 && evenRatio < 0.05) {
+            return { encoding: 'utf16le', confidence: Math.round(Math.min(1, 0.5 + oddRatio - evenRatio) * 100) / 100 };
+        }
+        if (evenRatio > 0.2 && oddRatio < 0.05) {
+            return { encoding: 'utf16be', confidence: Math.round(Math.min(1, 0.5 + evenRatio - oddRatio) * 100) / 100 };
+        }
+        return undefined;
+    }
+
+    /**
+     * 以候选编码解码样本
+     *
+     * @param sample 字节样本
+     * @param encoding 候选编码
+     * @returns 解码后的文本，不包含结尾不完整的字符
+     */
+    private static decode(sample: Buffer, encoding: string): string {
+        const end = encoding === 'utf16le' || encoding === 'utf16be' ? sample.length - (sample.length % 2) : sample.length;
+        const text = iconv.decode(sample.subarray(0, end), encoding);
+        // 样本结尾不完整的字符会被解码为替换字符
+        return text.endsWith('\ufffd') ? text.slice(0, -1) : text;
+    }
+
+    /**
+     * 根据字符频率为解码结果评分
+     *
+     * 功能：
+     * 每个字符按类别得分：ASCII、常用字、假名和全角标点得1分，其他汉字和谚文得0.4分，
+     * 西文字母得0.5分，半角片假名等错误解码中常见的字符得分很低；解码错误的字符按比例扣分
+     *
+     * @param text 解码后的文本
+     * @returns 平均得分，越高越可能是正确的编码
+     */
+    private static scoreText(text: string): number {
+        let total = 0;
+        let score = 0;
+        let invalid = 0;
+
+        for (const char of text) {
+            const code = char.codePointAt(0) ?? 0;
+            total++;
+            if (code === 0xFFFD ||
+                (code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D) ||
+                (code >= 0x7F && code < 0xA0) ||
+                (code >= 0xD800 && code <= 0xDFFF) ||
+                (code >= 0xE000 && code <= 0xF8FF)) {
+                invalid++;
+                continue;
+            }
+            score += this.getCharWeight(char, code);
+        }
+
+        if (total === 0) {
+            return 0;
+        }
+        return Math.max(0, score / total - (invalid / total) * 5);
+    }
+
+    /**
+     * 获取字符的得分
+     * @param char 字符
+     * @param code 字符的码位
+     * @returns 0-1之间的得分
+     */
+    private static getCharWeight(char: string, code: number): number {
+        if (code < 0x80 || this.COMMON_CHARS.has(char)) {
+            return 1;
+        }
+        // 平假名、片假名、中日韩标点、全角字符和常用的弯引号、破折号、省略号
+        if ((code >= 0x3000 && code <= 0x30FF) || (code >= 0xFF01 && code <= 0xFF60) || (code >= 0x2010 && code <= 0x2027)) {
+            return 1;
+        }
+        if ((code >= 0x4E00 && code <= 0x9FFF) || (code >= 0xAC00 && code <= 0xD7A3)) {
+            return 0.4;
+        }
+        if (code >= 0xC0 && code <= 0xFF && code !== 0xD7 && code !== 0xF7) {
+            return 0.5;
+        }
+        if (code >= 0xA0 && code <= 0xBF) {
+            return 0.2;
+        }
+        return 0.1;
+    }
+}
@@ -3,15 +3,18 @@
  * 编码处理工具类
  *
  * 功能说明：
- * 1. 提供文件编码检测功能 - 自动识别文件的编码格式
+ * 1. 提供文件编码检测功能 - 读取文件开头的样本，由EncodingDetector识别编码格式
  * 2. 提供以指定编码读取文件内容的功能 - 支持多种编码格式
- * 3. 处理编码解码失败的情况，提供回退机制 - 当指定编码解码失败时，尝试其他编码
+ * 3. 提供字符边界对齐功能 - 分块读取时不会把多字节字符拆到两个块中
+ * 4. 提供逐行扫描文件的功能 - 为每一行提供字节偏移，用于文本索引和全文搜索，异步扫描不会阻塞扩展主机，也支持按行读取指定范围
+ * 5. 提供字符位置到字节偏移的换算 - 用于书签等需要精确位置的功能
  *
  * 核心概念：
  * - 文件编码：文件中字符的存储格式，如UTF-8、GBK、Latin1等
  * - BOM (Byte Order Mark)：文件开头的特殊字节序列，用于标识文件编码
- * - 编码检测：通过读取文件开头的字节来判断文件编码
+ * - 编码检测：BOM、UTF-8校验、UTF-16空字节特征和字符频率评分，详见EncodingDetector
  * - 解码：将字节序列转换为字符串的过程
+ * - 字符边界：多字节字符（UTF-8、GBK、GB18030、Big5、UTF-16代理对等）第一个字节之前的位置
  *
  * 使用场景：
  * - 文本文件读取：需要以正确的编码读取文本文件，避免乱码
@@ -19,13 +22,14 @@
  * - 大文件处理：读取大文件的部分内容，避免内存溢出
  *
  * 技术原理：
- * - BOM检测：通过文件开头的字节序列识别编码
  * - 字节读取：使用Node.js的文件系统API读取文件字节
- * - 编码尝试：当指定编码失败时，尝试常见编码
- * - 错误处理：捕获解码错误，提供回退方案
+ * - 边界对齐：使用iconv-lite的流式解码器判断读取范围的结尾是否落在字符中间
+ * - 整本书使用同一种编码解码，不会因为某一块的内容而切换编码
  */
 import * as fs from 'fs';
 import * as iconv from 'iconv-lite';
+import { EncodingDetector } from './encodingDetector';
+import { EncodingDetectionResult, TextLine } from '../types';
 
 /**
  * 编码处理工具类
@@ -33,274 +37,589 @@ import * as iconv from 'iconv-lite';
  * 功能：
  * 1. 检测文件编码格式
  * 2. 以指定编码读取文件内容
- * 3. 处理编码解码异常
+ * 3. 将读取范围对齐到字符边界
+ * 4. 逐行扫描文件
+ * 5. 换算字符位置与字节偏移
  */
 export class EncodingUtils {
+    /** 默认检测样本大小 */
+    static readonly DEFAULT_SAMPLE_SIZE = 8 * 1024;
+    /** 重新检测时使用的样本大小 */
+    static readonly LARGE_SAMPLE_SIZE = 64 * 1024;
+
+    /**
+     * 可供用户手动选择的编码 - 编码名称到显示名称的映射
+     */
+    static readonly ENCODING_LABELS: { [encoding: string]: string } = {
+        'utf8': 'UTF-8',
+        'gb18030': 'GB18030 (Simplified Chinese)',
+        'gbk': 'GBK (Simplified Chinese)',
+        'big5': 'Big5 (Traditional Chinese)',
+        'shift_jis': 'Shift_JIS (Japanese)',
+        'euc-jp': 'EUC-JP (Japanese)',
+        'euc-kr': 'EUC-KR (Korean)',
+        'utf16le': 'UTF-16 LE',
+        'utf16be': 'UTF-16 BE',
+        'windows1252': 'Windows-1252 (Western)'
+    };
+
     /**
-     * 检测文件编码（增强版）
+     * 检测文件编码
      *
      * 功能：
-     * 通过读取文件的前几个字节（BOM标记）和统计字节分布来判断文件编码
-     * 特别增强了对中文编码（GBK/GB2312）的检测
+     * 读取文件开头的样本，交给EncodingDetector检测编码
      *
      * @param filePath 文件路径
-     * @returns 检测到的编码格式字符串
+     * @param sampleSize 样本字节数，样本越大结果越可靠，但耗时越长
+     * @returns 检测到的编码格式字符串，检测失败时返回utf8
      */
-    static detectEncoding(filePath: string): string {
+    static detectEncoding(filePath: string, sampleSize: number = this.DEFAULT_SAMPLE_SIZE): string {
+        return this.detectEncodingWithConfidence(filePath, sampleSize).encoding;
+    }
+
+    /**
+     * 检测文件编码并给出置信度
+     *
+     * @param filePath 文件路径
+     * @param sampleSize 样本字节数
+     * @returns 检测结果，检测失败时返回置信度为0的utf8
+     */
+    static detectEncodingWithConfidence(filePath: string, sampleSize: number = this.DEFAULT_SAMPLE_SIZE): EncodingDetectionResult {
         try {
-            // 读取文件前几个字节来判断编码
-            const buffer = Buffer.alloc(4);
+            const buffer = Buffer.alloc(sampleSize);
             const fd = fs.openSync(filePath, 'r');
-            fs.readSync(fd, buffer, 0, 4, 0);
-            fs.closeSync(fd);
-
-            // 检查UTF-8 BOM
-            if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
-                return 'utf8';
+            let bytesRead = 0;
+            try {
+                bytesRead = fs.readSync(fd, buffer, 0, sampleSize, 0);
+            } finally {
+                fs.closeSync(fd);
             }
+            return EncodingDetector.detect(buffer.subarray(0, bytesRead));
+        } catch (error) {
+            console.error('Failed to detect encoding:', error);
+            return { encoding: 'utf8', confidence: 0 };
+        }
+    }
 
-            // 检查UTF-16 LE BOM
-            if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
-                return 'utf16le';
+    /**
+     * 以指定编码读取文件内容
+     *
+     * 功能：
+     * 读取文件的指定范围内容，并以指定编码解码
+     * 结束位置落在多字节字符中间时，不完整的字符不会被解码，避免在结尾产生乱码
+     *
+     * @param filePath 文件路径
+     * @param start 起始位置（应位于字符边界）
+     * @param end 结束位置
+     * @param encoding 编码格式，默认为utf8
+     * @returns 解码后的文件内容字符串
+     * @throws 当文件读取失败时抛出错误
+     */
+    static readFileWithEncoding(filePath: string, start: number, end: number, encoding: string = 'utf8'): string {
+        try {
+            const buffer = Buffer.alloc(Math.max(0, end - start));
+            const fd = fs.openSync(filePath, 'r');
+            let bytesRead = 0;
+            try {
+                bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+            } finally {
+                fs.closeSync(fd);
             }
 
-            // 检查UTF-16 BE BOM
-            if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
-                return 'utf16be';
-            }
+            const data = buffer.subarray(0, bytesRead);
+            return this.decodeBuffer(data.subarray(0, this.alignToCharBoundary(data, data.length, encoding)), encoding);
+        } catch (error) {
+            console.error('Failed to read file:', error);
+            throw error;
+        }
+    }
 
-            // 尝试检测中文编码（GBK/GB2312/GB18030）
-            // 读取更多样本来进行更准确的分析
-            const sampleBuffer = Buffer.alloc(2048);
-            const sampleFd = fs.openSync(filePath, 'r');
-            const bytesRead = fs.readSync(sampleFd, sampleBuffer, 0, 2048, 0);
-            fs.closeSync(sampleFd);
-
-            if (bytesRead > 0) {
-                // 统计分析
-                let highByteCount = 0; // >= 0x80的字节数
-                let possibleChinesePairs = 0; // 可能的中文双字节对
-                let totalBytes = bytesRead;
-
-                for (let i = 0; i < bytesRead; i++) {
-                    const byte = sampleBuffer[i];
-                    if (byte >= 0x80) {
-                        highByteCount++;
-                        // 检查是否可能是中文编码的双字节序列
-                        if (i + 1 < bytesRead) {
-                            const nextByte = sampleBuffer[i + 1];
-                            // GBK/GB2312的特点：高字节在0x81-0xFE之间，低字节在0x40-0xFE之间
-                            if ((byte >= 0x81 && byte <= 0xFE) && (nextByte >= 0x40 && nextByte <= 0xFE)) {
-                                possibleChinesePairs++;
-                                i++; // 跳过下一个字节
-                            }
-                        }
-                    }
+    /**
+     * 异步逐行扫描文件
+     *
+     * 功能：
+     * 以固定大小的块顺序读取文件，按指定编码的换行符切分行，
+     * 并为每一行提供其在文件中的起始字节偏移，避免一次性读入整个文件；
+     * 使用异步读取，每读完一块都会让出事件循环，扫描上百MB的文件时不会阻塞扩展主机；
+     * 超过64KB仍没有换行符的行在字符边界处拆开，作为多行交给行回调，内存占用不随行长增长
+     *
+     * @param filePath 文件路径
+     * @param encoding 文件编码
+     * @param onLine 行回调（去除换行符后的文本，行起始字节偏移），返回false时停止扫描
+     * @param onBlock 块回调（已读取的字节数），返回false时停止扫描，用于报告进度和取消
+     * @returns 是否扫描到文件末尾
+     * @throws 当文件读取失败时抛出错误
+     */
+    static async scanLinesAsync(
+        filePath: string,
+        encoding: string,
+        onLine: (line: string, offset: number) => boolean | void,
+        onBlock?: (bytesRead: number) => boolean | void
+    ): Promise<boolean> {
+        const BLOCK_SIZE = 1024 * 1024;
+        const MAX_LINE_LENGTH = 64 * 1024;
+        const newline = this.getNewlineBytes(encoding);
+        const block = Buffer.alloc(BLOCK_SIZE);
+        const handle = await fs.promises.open(filePath, 'r');
+
+        try {
+            let position = 0;
+            let pending = Buffer.alloc(0);
+            let pendingOffset = 0;
+
+            while (true) {
+                const { bytesRead } = await handle.read(block, 0, BLOCK_SIZE, position);
+                if (bytesRead <= 0) {
+                    break;
                 }
+                position += bytesRead;
 
-                // 计算统计指标
-                const highByteRatio = highByteCount / totalBytes;
-                const chinesePairRatio = possibleChinesePairs / Math.max(1, Math.floor(totalBytes / 2));
+                const data = pending.length > 0
+                    ? Buffer.concat([pending, block.subarray(0, bytesRead)])
+                    : block.subarray(0, bytesRead);
 
-                // 更准确的中文编码检测
-                // 降低阈值，提高对中文编码的识别率
-                if (highByteRatio > 0.15 && chinesePairRatio > 0.08) {
-                    return 'gbk'; // GBK兼容GB2312和GB18030
+                const lineStart = this.splitLines(data, newline, encoding, pendingOffset, onLine);
+                if (lineStart < 0 || (onBlock && onBlock(position) === false)) {
+                    return false;
                 }
-
-                // 特殊处理：如果有较多高字节，即使双字节对比例不高，也尝试中文编码
-                if (highByteRatio > 0.25) {
-                    return 'gbk';
+                let rest = data.subarray(lineStart);
+                pendingOffset += lineStart;
+                // 超长的行只能从中间拆开，拆分位置不能落在多字节字符中间
+                while (rest.length > MAX_LINE_LENGTH) {
+                    const length = this.alignToCharBoundary(rest, MAX_LINE_LENGTH, encoding) || MAX_LINE_LENGTH;
+                    if (onLine(this.decodeBuffer(rest.subarray(0, length), encoding), pendingOffset) === false) {
+                        return false;
+                    }
+                    rest = rest.subarray(length);
+                    pendingOffset += length;
                 }
+                pending = Buffer.from(rest);
 
-                // 尝试直接用不同编码解码并评估结果
-                const encodingsToTry = ['utf8', 'gbk', 'gb18030'];
-                let bestEncoding = 'utf8';
-                let bestScore = 0;
-
-                encodingsToTry.forEach(enc => {
-                    try {
-                        const content = sampleBuffer.toString(enc as BufferEncoding);
-                        const score = this.evaluateDecodingQuality(content);
-                        if (score > bestScore) {
-                            bestScore = score;
-                            bestEncoding = enc;
-                        }
-                    } catch (e) {
-                        // 解码失败，跳过
-                    }
-                });
+                // 读取很快完成时也让出事件循环，保证其他任务能及时执行
+                await new Promise(resolve => setImmediate(resolve));
+            }
 
-                if (bestEncoding !== 'utf8' && bestScore > 0.3) {
-                    return bestEncoding;
-                }
+            if (pending.length > 0) {
+                onLine(this.decodeBuffer(pending, encoding).replace(/\r$/, ''), pendingOffset);
             }
+            return true;
+        } finally {
+            await handle.close();
+        }
+    }
 
-            // 默认尝试UTF-8
-            return 'utf8';
-        } catch (error) {
-            console.error('Failed to detect encoding:', error);
-            return 'utf8';
+    /**
+     * 按行读取文件的指定范围
+     *
+     * 功能：
+     * 读取[start, end)范围内的内容并按行切分，每一行附带其起始字节偏移。
+     * 如果end落在某一行的中间，会继续向后读取到该行结束（最多向后读取4KB），
+     * 避免同一行被拆到两个块中；4KB内没有换行符时，结束位置对齐到字符边界
+     *
+     * @param filePath 文件路径
+     * @param start 起始字节偏移（应位于行首）
+     * @param end 期望的结束字节偏移
+     * @param encoding 文件编码
+     * @param extendToLineEnd 是否将结束位置延伸到行尾，向前读取时终点已是行首，无需延伸
+     * @returns 实际读取的范围和行列表
+     * @throws 当文件读取失败时抛出错误
+     */
+    static readLines(filePath: string, start: number, end: number, encoding: string, extendToLineEnd: boolean = true): { start: number; end: number; lines: TextLine[] } {
+        const LOOKAHEAD = 4096;
+        const newline = this.getNewlineBytes(encoding);
+        const fd = fs.openSync(filePath, 'r');
+        let data: Buffer;
+
+        try {
+            const fileSize = fs.fstatSync(fd).size;
+            const readEnd = Math.min(fileSize, extendToLineEnd ? end + LOOKAHEAD : end);
+            const buffer = Buffer.alloc(Math.max(0, readEnd - start));
+            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+            data = buffer.subarray(0, bytesRead);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        // 将结束位置延伸到行尾
+        let length = Math.min(data.length, Math.max(0, end - start));
+        if (length > 0 && length < data.length) {
+            const from = length - newline.length;
+            const lineEnd = this.indexOfNewline(data, newline, Math.max(0, from - (from % newline.length)));
+            if (lineEnd >= 0) {
+                length = lineEnd + newline.length;
+            } else {
+                // 超长的行只能从中间拆开，拆分位置不能落在多字节字符中间
+                length = this.alignToCharBoundary(data, length, encoding) || length;
+            }
         }
+
+        const lines: TextLine[] = [];
+        const content = data.subarray(0, length);
+        let lineStart = 0;
+        let index = this.indexOfNewline(content, newline, lineStart);
+        while (index >= 0) {
+            lines.push({
+                offset: start + lineStart,
+                text: this.decodeBuffer(content.subarray(lineStart, index), encoding).replace(/\r$/, '')
+            });
+            lineStart = index + newline.length;
+            index = this.indexOfNewline(content, newline, lineStart);
+        }
+        if (lineStart < content.length) {
+            lines.push({
+                offset: start + lineStart,
+                text: this.decodeBuffer(content.subarray(lineStart), encoding).replace(/\r$/, '')
+            });
+        }
+
+        return { start: start, end: start + length, lines: lines };
     }
 
     /**
-     * 评估解码质量
+     * 查找字节偏移所在行的行首
      *
      * 功能：
-     * 通过分析解码后的字符串来评估编码的正确性
+     * 从offset向前查找换行符（最多向前查找4KB），返回该行的起始字节偏移。
+     * 找不到换行符时返回offset之前最近的字符边界，保证结果不会偏离太远，也不会落在多字节字符中间
      *
-     * @param content 解码后的内容
-     * @returns 质量评分（0-1），越高越好
+     * @param filePath 文件路径
+     * @param offset 字节偏移
+     * @param encoding 文件编码
+     * @returns 行首字节偏移
+     * @throws 当文件读取失败时抛出错误
      */
-    private static evaluateDecodingQuality(content: string): number {
-        if (!content || content.length === 0) {
+    static findLineStart(filePath: string, offset: number, encoding: string): number {
+        const LOOKBEHIND = 4096;
+        const newline = this.getNewlineBytes(encoding);
+        // 多字节编码的偏移需要与字符宽度对齐
+        const aligned = offset - (offset % newline.length);
+        const from = Math.max(0, aligned - LOOKBEHIND);
+        if (aligned <= 0) {
             return 0;
         }
 
-        let score = 0;
-        let validChars = 0;
-        let controlChars = 0;
-        let chineseChars = 0;
-
-        for (let i = 0; i < content.length; i++) {
-            const char = content[i];
-            const code = char.charCodeAt(0);
-
-            if (code === 0) {
-                // 空字符，可能是编码错误
-                continue;
-            } else if (code < 32 && code !== 9 && code !== 10 && code !== 13) {
-                // 控制字符，可能是编码错误
-                controlChars++;
-            } else if (code >= 0x4E00 && code <= 0x9FFF) {
-                // 中文字符，加分
-                chineseChars++;
-                validChars++;
-            } else if ((code >= 32 && code <= 126) || (code >= 128 && code <= 255)) {
-                // 可打印字符
-                validChars++;
+        // 多读取aligned处的几个字节，用于判断aligned本身是否位于字符边界
+        const buffer = Buffer.alloc(aligned - from + 4);
+        const fd = fs.openSync(filePath, 'r');
+        let bytesRead = 0;
+        try {
+            bytesRead = fs.readSync(fd, buffer, 0, buffer.length, from);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        for (let i = aligned - from - newline.length; i >= 0; i -= newline.length) {
+            if (buffer.subarray(i, i + newline.length).equals(newline)) {
+                return from + i + newline.length;
             }
         }
+        if (from === 0) {
+            return 0;
+        }
+        const charStart = this.findCharStart(buffer.subarray(0, bytesRead), aligned - from, encoding);
+        return charStart >= 0 ? from + charStart : aligned;
+    }
 
-        // 计算评分
-        const totalChars = content.length;
-        const validRatio = validChars / totalChars;
-        const chineseRatio = chineseChars / totalChars;
-        const controlRatio = controlChars / totalChars;
+    /**
+     * 计算文本块中字符位置对应的字节偏移
+     *
+     * 功能：
+     * WebView只能报告某个文本块内的字符序号，需要按书籍编码重新解码该块，
+     * 再把字符前缀重新编码得到精确的字节长度
+     *
+     * 注意：HTML解析会把"\r\n"规范化为"\n"，因此WebView中的字符序号把"\r\n"计为一个字符
+     *
+     * @param filePath 文件路径
+     * @param start 文本块起始字节偏移
+     * @param end 文本块结束字节偏移
+     * @param charIndex WebView中相对文本块开头的字符序号
+     * @param encoding 文件编码
+     * @returns 字符位置在文件中的字节偏移
+     * @throws 当文件读取失败时抛出错误
+     */
+    static getByteOffset(filePath: string, start: number, end: number, charIndex: number, encoding: string): number {
+        if (charIndex <= 0 || end <= start) {
+            return start;
+        }
 
-        // 基本分数：有效字符比例
-        score = validRatio;
+        const buffer = Buffer.alloc(end - start);
+        const fd = fs.openSync(filePath, 'r');
+        let bytesRead = 0;
+        try {
+            bytesRead = fs.readSync(fd, buffer, 0, end - start, start);
+        } finally {
+            fs.closeSync(fd);
+        }
+        const chunk = buffer.subarray(0, bytesRead);
+        const text = this.decodeBuffer(chunk, encoding);
+
+        // 将WebView中的字符序号换算为解码文本中的序号
+        let index = 0;
+        let domIndex = 0;
+        while (index < text.length && domIndex < charIndex) {
+            index += text[index] === '\r' && text[index + 1] === '\n' ? 2 : 1;
+            domIndex++;
+        }
 
-        // 中文字符加分
-        score += chineseRatio * 0.5;
+        const prefix = text.substring(0, index);
+        const encoded = iconv.encodingExists(encoding)
+            ? iconv.encode(prefix, encoding)
+            : Buffer.from(prefix, encoding as BufferEncoding);
+
+        // 解码时会去掉文件开头的BOM，这里需要补回其长度
+        let bomLength = 0;
+        if (start === 0 && chunk.length >= 2) {
+            if (chunk[0] === 0xEF && chunk[1] === 0xBB && chunk[2] === 0xBF) {
+                bomLength = 3;
+            } else if ((chunk[0] === 0xFF && chunk[1] === 0xFE) || (chunk[0] === 0xFE && chunk[1] === 0xFF)) {
+                bomLength = 2;
+            }
+        }
 
-        // 控制字符减分
-        score -= controlRatio * 0.8;
+        return Math.min(start + bytesRead, start + bomLength + encoded.length);
+    }
 
-        // 确保分数在0-1之间
-        return Math.max(0, Math.min(1, score));
+    /**
+     * 计算文本在指定编码下的字节长度
+     * @param text 文本
+     * @param encoding 文件编码
+     * @returns 编码后的字节数
+     */
+    static getEncodedLength(text: string, encoding: string): number {
+        if (iconv.encodingExists(encoding)) {
+            return iconv.encode(text, encoding).length;
+        }
+        return Buffer.byteLength(text, encoding as BufferEncoding);
     }
 
     /**
-     * 以指定编码读取文件内容
+     * 将行内字节长度换算为字符位置
      *
      * 功能：
-     * 读取文件的指定范围内容，并以指定编码解码
-     * 如果解码失败，尝试其他常见编码
+     * 重新编码行文本，解码前byteLength个字节，解码结果的长度即为字符位置。
+     * 字节长度落在多字节字符中间时，该字符计入结果
+     *
+     * @param text 行文本
+     * @param byteLength 相对行首的字节长度
+     * @param encoding 文件编码
+     * @returns 字符位置
+     */
+    static getCharIndex(text: string, byteLength: number, encoding: string): number {
+        if (byteLength <= 0) {
+            return 0;
+        }
+        const encoded = iconv.encodingExists(encoding)
+            ? iconv.encode(text, encoding)
+            : Buffer.from(text, encoding as BufferEncoding);
+        if (byteLength >= encoded.length) {
+            return text.length;
+        }
+        return Math.min(text.length, this.decodeBuffer(encoded.subarray(0, byteLength), encoding).length);
+    }
+
+    /**
+     * 获取文件开头BOM的字节长度
+     *
+     * 功能：
+     * 解码时会去掉BOM，因此文件第一行的文本不包含BOM，换算第一行内的字节偏移时需要加上其长度
      *
      * @param filePath 文件路径
-     * @param start 起始位置
-     * @param end 结束位置
-     * @param encoding 编码格式，默认为utf8
-     * @returns 解码后的文件内容字符串
+     * @returns BOM字节数，没有BOM时返回0
      * @throws 当文件读取失败时抛出错误
      */
-    static readFileWithEncoding(filePath: string, start: number, end: number, encoding: string = 'utf8'): string {
+    static getBomLength(filePath: string): number {
+        const buffer = Buffer.alloc(3);
+        const fd = fs.openSync(filePath, 'r');
+        let bytesRead = 0;
         try {
-            const buffer = Buffer.alloc(end - start);
-            const fd = fs.openSync(filePath, 'r');
-            fs.readSync(fd, buffer, 0, end - start, start);
+            bytesRead = fs.readSync(fd, buffer, 0, 3, 0);
+        } finally {
             fs.closeSync(fd);
+        }
 
-            // 尝试解码，如果失败则回退到其他编码
-            try {
-                // 使用iconv-lite进行解码，提供更好的编码支持
-                let content: string;
-                if (iconv.encodingExists(encoding)) {
-                    content = iconv.decode(buffer, encoding);
-                } else {
-                    content = buffer.toString(encoding as BufferEncoding);
-                }
-
-                // 评估解码质量，如果质量太低则尝试其他编码
-                const quality = this.evaluateDecodingQuality(content);
-                if (quality > 0.5) {
-                    return content;
-                } else {
-                    console.warn(`Low decoding quality with ${encoding} (${quality}), trying other encodings`);
-                    return this.tryOtherEncodings(buffer, encoding);
-                }
-            } catch (decodeError) {
-                console.warn(`Failed to decode with ${encoding}, trying other encodings`);
-                return this.tryOtherEncodings(buffer, encoding);
-            }
-        } catch (error) {
-            console.error('Failed to read file:', error);
-            throw error;
+        if (bytesRead >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+            return 3;
+        }
+        if (bytesRead >= 2 && ((buffer[0] === 0xFF && buffer[1] === 0xFE) || (buffer[0] === 0xFE && buffer[1] === 0xFF))) {
+            return 2;
         }
+        return 0;
     }
 
     /**
-     * 尝试其他编码解码
+     * 将结束位置对齐到字符边界
      *
      * 功能：
-     * 当指定编码解码失败或质量较低时，尝试其他常见编码
+     * data的开头位于字符边界，返回不超过length的最大字符边界，
+     * 避免多字节字符被拆到两个块中，前一块结尾和后一块开头都出现乱码
      *
-     * @param buffer 文件内容缓冲区
-     * @param originalEncoding 原始尝试的编码
-     * @returns 解码后的内容字符串
+     * 技术要点：
+     * - 使用iconv-lite的流式解码器解码前length个字节，结束时解码器中仍有未完成的字符，
+     *   说明结束位置落在字符中间，逐字节向前回退（字符最长4个字节）
+     * - UTF-16的流式解码器会直接丢弃多余的单个字节，因此按2字节对齐，并且不拆开代理对
+     *
+     * @param data 数据缓冲区，开头位于字符边界
+     * @param length 期望的结束位置
+     * @param encoding 文件编码
+     * @returns 对齐后的结束位置
      */
-    private static tryOtherEncodings(buffer: Buffer, originalEncoding: string): string {
-        // 优先尝试中文编码，因为用户反馈GB2312文件有问题
-        const encodings = [
-            'gb2312', 'gbk', 'gb18030', // 优先尝试中文编码，特别是GB2312
-            'utf8', 'utf16le', 'utf16be', 'latin1',
-            'ascii', 'utf8mb4'
-        ];
+    static alignToCharBoundary(data: Buffer, length: number, encoding: string): number {
+        const end = Math.max(0, Math.min(length, data.length));
+        const normalized = encoding.toLowerCase().replace(/[-_]/g, '');
+
+        if (normalized === 'utf16le' || normalized === 'ucs2' || normalized === 'utf16be') {
+            const evenEnd = end - (end % 2);
+            if (evenEnd < 2) {
+                return evenEnd;
+            }
+            const codeUnit = normalized === 'utf16be' ? data.readUInt16BE(evenEnd - 2) : data.readUInt16LE(evenEnd - 2);
+            // 结尾是高位代理时，低位代理在下一块中
+            return codeUnit >= 0xD800 && codeUnit <= 0xDBFF ? evenEnd - 2 : evenEnd;
+        }
+        if (!iconv.encodingExists(encoding)) {
+            return end;
+        }
 
-        let bestContent = buffer.toString('hex');
-        let bestScore = 0;
-        let bestEncoding = 'hex';
+        for (let back = 0; back < 4 && end - back > 0; back++) {
+            const decoder = iconv.getDecoder(encoding);
+            decoder.write(data.subarray(0, end - back));
+            if (!decoder.end()) {
+                return end - back;
+            }
+        }
+        return end;
+    }
 
-        encodings.forEach(enc => {
-            if (enc === originalEncoding) return; // 跳过已经尝试过的编码
+    /**
+     * 查找不超过指定位置的最近字符边界
+     *
+     * 功能：
+     * data的开头不一定位于字符边界，只能依靠编码中不会出现在字符中间的字节判断：
+     * - UTF-8：不是后续字节（10xxxxxx）的字节都是字符的开头
+     * - UTF-16：2字节对齐，并且不是低位代理
+     * - 单字节编码：任意位置都是字符边界
+     * - GBK、GB18030、Big5、Shift_JIS等双字节编码：小于0x30的字节不会出现在字符中间
+     *
+     * @param data 数据缓冲区，开头与文件的字符宽度对齐
+     * @param position 查找的起点（相对data开头）
+     * @param encoding 文件编码
+     * @returns 字符边界位置（相对data开头），找不到时返回-1
+     */
+    private static findCharStart(data: Buffer, position: number, encoding: string): number {
+        const normalized = encoding.toLowerCase().replace(/[-_]/g, '');
+        if (position >= data.length) {
+            return position;
+        }
 
-            try {
-                let content: string;
-                // 使用iconv-lite进行解码，提供更好的编码支持
-                if (iconv.encodingExists(enc)) {
-                    content = iconv.decode(buffer, enc);
-                } else {
-                    content = buffer.toString(enc as BufferEncoding);
+        if (normalized === 'utf16le' || normalized === 'ucs2' || normalized === 'utf16be') {
+            for (let i = position - (position % 2); i >= 0 && i + 2 <= data.length; i -= 2) {
+                const codeUnit = normalized === 'utf16be' ? data.readUInt16BE(i) : data.readUInt16LE(i);
+                if (codeUnit < 0xDC00 || codeUnit > 0xDFFF) {
+                    return i;
+                }
+            }
+            return -1;
+        }
+        if (normalized === 'utf8') {
+            for (let i = position; i >= 0 && i > position - 4; i--) {
+                if ((data[i] & 0xC0) !== 0x80) {
+                    return i;
                 }
+            }
+            return -1;
+        }
+        if (!iconv.encodingExists(encoding)) {
+            return position;
+        }
 
-                const score = this.evaluateDecodingQuality(content);
+        // 单字节编码的解码器不会缓存字节，双字节编码会把0x81或0xA4当作前导字节缓存起来
+        const isSingleByte = [0x81, 0xA4].every(byte => iconv.getDecoder(encoding).write(Buffer.from([byte])).length > 0);
+        if (isSingleByte) {
+            return position;
+        }
+        for (let i = position; i >= 0; i--) {
+            if (data[i] < 0x30) {
+                return i;
+            }
+        }
+        return -1;
+    }
 
-                if (score > bestScore) {
-                    bestScore = score;
-                    bestContent = content;
-                    bestEncoding = enc;
-                }
-            } catch (e) {
-                // 解码失败，跳过
+    /**
+     * 获取指定编码下换行符的字节序列
+     * @param encoding 文件编码
+     * @returns 换行符字节序列
+     */
+    private static getNewlineBytes(encoding: string): Buffer {
+        const normalized = encoding.toLowerCase().replace(/[-_]/g, '');
+        if (normalized === 'utf16le' || normalized === 'ucs2') {
+            return Buffer.from([0x0A, 0x00]);
+        }
+        if (normalized === 'utf16be') {
+            return Buffer.from([0x00, 0x0A]);
+        }
+        return Buffer.from([0x0A]);
+    }
+
+    /**
+     * 将数据块中的完整行交给行回调
+     *
+     * @param data 数据块，从行首开始
+     * @param newline 换行符字节序列
+     * @param encoding 文件编码
+     * @param baseOffset 数据块在文件中的起始字节偏移
+     * @param onLine 行回调，返回false时停止
+     * @returns 最后一个不完整行在数据块中的起始位置，回调要求停止时返回-1
+     */
+    private static splitLines(
+        data: Buffer,
+        newline: Buffer,
+        encoding: string,
+        baseOffset: number,
+        onLine: (line: string, offset: number) => boolean | void
+    ): number {
+        let lineStart = 0;
+        let index = this.indexOfNewline(data, newline, lineStart);
+        while (index >= 0) {
+            const line = this.decodeBuffer(data.subarray(lineStart, index), encoding).replace(/\r$/, '');
+            if (onLine(line, baseOffset + lineStart) === false) {
+                return -1;
             }
-        });
+            lineStart = index + newline.length;
+            index = this.indexOfNewline(data, newline, lineStart);
+        }
+        return lineStart;
+    }
 
-        if (bestEncoding !== 'hex') {
-            console.log(`Successfully decoded with ${bestEncoding} (quality: ${bestScore})`);
+    /**
+     * 查找换行符位置
+     *
+     * 功能：
+     * 多字节换行符（UTF-16）必须位于字符边界上，即相对行首为偶数偏移
+     *
+     * @param data 数据缓冲区
+     * @param newline 换行符字节序列
+     * @param from 开始查找的位置（行首）
+     * @returns 换行符位置，未找到时返回-1
+     */
+    private static indexOfNewline(data: Buffer, newline: Buffer, from: number): number {
+        let index = data.indexOf(newline, from);
+        while (index >= 0 && (index - from) % newline.length !== 0) {
+            index = data.indexOf(newline, index + 1);
         }
+        return index;
+    }
 
-        return bestContent;
+    /**
+     * 以指定编码解码缓冲区
+     * @param buffer 数据缓冲区
+     * @param encoding 编码格式
+     * @returns 解码后的字符串
+     */
+    private static decodeBuffer(buffer: Buffer, encoding: string): string {
+        if (iconv.encodingExists(encoding)) {
+            return iconv.decode(buffer, encoding);
+        }
+        return buffer.toString(encoding as BufferEncoding);
     }
-}
\ No newline at end of file
+}
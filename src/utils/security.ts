@@ -6,12 +6,15 @@
  * 1. 提供HTML转义功能，防止XSS攻击 - 将HTML特殊字符转换为HTML实体
  * 2. 提供路径清理功能，防止目录遍历攻击 - 规范化路径，防止访问系统目录
  * 3. 提供文件扩展名验证功能 - 确保只处理允许的文件类型
+ * 4. 提供HTML清理功能 - 过滤外部HTML中的脚本和危险属性
+ * 5. 提供随机数生成功能 - 为WebView内容安全策略生成nonce
  * 
  * 核心概念：
  * - XSS攻击 (Cross-Site Scripting)：攻击者在网页中注入恶意脚本，当用户浏览网页时执行
  * - 目录遍历攻击：攻击者通过操纵文件路径，访问系统中受保护的目录
  * - 输入验证：验证用户输入是否符合预期格式和范围
  * - 安全编码：将特殊字符转换为安全的表示形式
+ * - 内容安全策略（CSP）：限制网页可以加载的资源，只有携带正确nonce的脚本才能执行
  * 
  * 使用场景：
  * - WebView内容生成：在生成HTML内容时，转义用户输入，防止XSS攻击
@@ -23,6 +26,7 @@
  * - 路径清理：使用path.normalize和path.resolve规范化路径，检查路径是否在允许的范围内
  * - 扩展名验证：使用path.extname获取文件扩展名，检查是否在允许的列表中
  */
+import * as crypto from 'crypto';
 import * as path from 'path';
 
 /**
@@ -32,6 +36,8 @@ import * as path from 'path';
  * 1. 转义HTML特殊字符，防止XSS攻击
  * 2. 清理路径，防止目录遍历攻击
  * 3. 验证文件扩展名
+ * 4. 清理外部HTML片段
+ * 5. 生成内容安全策略使用的nonce
  */
 export class SecurityUtils {
     /**
@@ -62,6 +68,115 @@ export class SecurityUtils {
         return text.replace(/[&<>"'`=\/]/g, (m) => map[m] || m);
     }
 
+    /**
+     * 允许保留的HTML标签 - 仅包含排版相关的标签
+     */
+    private static readonly ALLOWED_TAGS = new Set([
+        'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'caption', 'cite', 'code',
+        'dd', 'del', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2',
+        'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'li', 'mark', 'ol', 'p',
+        'pre', 'q', 'rp', 'rt', 'ruby', 's', 'section', 'small', 'span', 'strong', 'sub',
+        'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+    ]);
+
+    /**
+     * 需要连同内容一起删除的HTML标签 - 脚本、样式和可交互元素
+     */
+    private static readonly DROPPED_TAGS = [
+        'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template',
+        'svg', 'math', 'form', 'textarea', 'select', 'button', 'head', 'title'
+    ];
+
+    /**
+     * 允许保留的HTML属性
+     */
+    private static readonly ALLOWED_ATTRIBUTES = new Set([
+        'href', 'src', 'alt', 'title', 'id', 'lang', 'dir', 'colspan', 'rowspan'
+    ]);
+
+    /**
+     * 清理HTML片段，防止XSS攻击
+     *
+     * 功能：
+     * 基于白名单过滤外部来源（如EPUB章节）的HTML，只保留排版相关的标签和属性
+     * 脚本、样式、事件属性以及javascript:等危险协议的链接都会被移除
+     *
+     * @param html 要清理的HTML片段
+     * @returns 清理后的HTML片段
+     */
+    static sanitizeHtml(html: string): string {
+        if (!html) {
+            return '';
+        }
+
+        // 移除注释、CDATA、处理指令和文档类型声明
+        let result = html
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+            .replace(/<\?[\s\S]*?\?>/g, '')
+            .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+        // 移除危险元素及其内容
+        const droppedPattern = new RegExp(`<(${this.DROPPED_TAGS.join('|')})\\b[\\s\\S]*?<\\/\\1\\s*>`, 'gi');
+        result = result.replace(droppedPattern, '');
+
+        // 逐个处理剩余标签，不在白名单中的标签只保留其文本内容
+        return result.replace(/<(\/?)([a-zA-Z][\w:-]*)\b([^>]*)>/g, (_match, closing: string, tagName: string, attrs: string) => {
+            const tag = tagName.toLowerCase();
+            if (!this.ALLOWED_TAGS.has(tag)) {
+                return '';
+            }
+            if (closing) {
+                return `</${tag}>`;
+            }
+
+            const safeAttrs: string[] = [];
+            const attrPattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+            let attrMatch: RegExpExecArray | null;
+            while ((attrMatch = attrPattern.exec(attrs)) !== null) {
+                const name = attrMatch[1].toLowerCase();
+                const value = attrMatch[2] ?? attrMatch[3] ?? attrMatch[4] ?? '';
+                if (!this.ALLOWED_ATTRIBUTES.has(name)) {
+                    continue;
+                }
+                if ((name === 'href' || name === 'src') && !this.isSafeUrl(value, name === 'src')) {
+                    continue;
+                }
+                safeAttrs.push(`${name}="${value.replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}"`);
+            }
+
+            return `<${tag}${safeAttrs.length > 0 ? ' ' + safeAttrs.join(' ') : ''}>`;
+        });
+    }
+
+    /**
+     * 检查链接地址是否安全
+     *
+     * 功能：
+     * 相对路径和锚点始终允许；链接只允许http、https和mailto协议；图片只允许data:image内联数据
+     *
+     * @param url 链接地址（可能包含HTML实体）
+     * @param isImage 是否为图片地址
+     * @returns 地址是否安全
+     */
+    private static isSafeUrl(url: string, isImage: boolean): boolean {
+        // 解码数字实体并移除空白和控制字符，防止通过编码绕过协议检查
+        const decoded = url
+            .replace(/&#x([0-9a-f]+);?/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+            .replace(/&#(\d+);?/g, (_m, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+            .replace(/[\s\x00-\x1f]/g, '')
+            .toLowerCase();
+
+        const scheme = /^([a-z][a-z0-9+.-]*):/.exec(decoded);
+        if (!scheme) {
+            return !isImage;
+        }
+        if (isImage) {
+            return decoded.startsWith('data:image/');
+        }
+        return ['http', 'https', 'mailto'].includes(scheme[1]);
+    }
+
     /**
      * 清理路径，防止目录遍历攻击
      * 
@@ -100,6 +215,18 @@ export class SecurityUtils {
         return resolved;
     }
 
+    /**
+     * 生成内容安全策略使用的nonce
+     *
+     * 功能：
+     * 每次生成WebView HTML时创建新的随机值，只有带有该nonce的脚本才允许执行
+     *
+     * @returns Base64编码的随机字符串
+     */
+    static getNonce(): string {
+        return crypto.randomBytes(16).toString('base64');
+    }
+
     /**
      * 验证文件扩展名
      * 
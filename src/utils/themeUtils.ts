@@ -3,15 +3,12 @@
  * 主题处理工具类
  *
  * 功能说明：
- * 1. 提供主题判断功能 - 判断当前是否为暗色主题
- * 2. 提供主题颜色获取功能 - 获取当前主题的颜色变量
- * 3. 提供主题变化监听功能 - 监听主题变化，触发回调函数
+ * 1. 提供主题颜色获取功能 - 获取引用VS Code主题CSS变量的颜色
+ * 2. 提供高对比度样式生成功能 - 为高对比度主题下的控件添加对比边框
  *
  * 核心概念：
  * - VS Code主题：VS Code的颜色主题，如亮色主题、暗色主题
- * - 主题类型：VS Code中主题的类型，使用ColorThemeKind枚举表示
- * - 主题颜色：不同主题下的颜色值，如背景色、文本色等
- * - 主题变化事件：当用户切换主题时触发的事件
+ * - 主题颜色：引用VS Code注入WebView的--vscode-*CSS变量，而不是固定的颜色值
  *
  * 使用场景：
  * - WebView主题适配：根据VS Code主题调整WebView的颜色
@@ -19,86 +16,104 @@
  * - 动态主题切换：当用户切换主题时，自动更新插件的外观
  *
  * 技术原理：
- * - 主题判断：使用vscode.window.activeColorTheme.kind判断当前主题类型
- * - 颜色获取：根据主题类型返回对应的颜色变量
- * - 事件监听：使用vscode.window.onDidChangeActiveColorTheme监听主题变化
+ * - 颜色获取：返回var(--vscode-*)形式的颜色，主题切换时VS Code会更新变量的值，WebView无需重新生成
+ * - 主题类名：VS Code会在WebView的body上设置vscode-light、vscode-dark、vscode-high-contrast、
+ *   vscode-high-contrast-light类名，WebView脚本中需要区分主题时读取这些类名
+ */
+
+/**
+ * 主题颜色接口
  *
- * 主题类型：
- * - ColorThemeKind.Light：亮色主题
- * - ColorThemeKind.Dark：暗色主题
- * - ColorThemeKind.HighContrast：高对比度主题
- * - ColorThemeKind.HighContrastLight：高对比度亮色主题
+ * 字段说明：
+ * 所有字段都是CSS颜色值，引用VS Code主题的CSS变量，只能在WebView中使用
  */
-import * as vscode from 'vscode';
+export interface ThemeColors {
+    /** 背景颜色 */
+    backgroundColor: string;
+    /** 文本颜色 */
+    textColor: string;
+    /** 边框颜色 - 高对比度主题下使用对比边框颜色 */
+    borderColor: string;
+    /** 静音颜色（用于次要文本） */
+    mutedColor: string;
+    /** 浮层背景颜色（用于弹出面板、工具栏） */
+    surfaceColor: string;
+    /** 阴影颜色 */
+    shadowColor: string;
+    /** 按钮背景颜色 */
+    buttonBackground: string;
+    /** 按钮文本颜色 */
+    buttonForeground: string;
+    /** 按钮悬停背景颜色 */
+    buttonHoverBackground: string;
+    /** 输入框背景颜色 */
+    inputBackground: string;
+    /** 输入框文本颜色 */
+    inputForeground: string;
+    /** 焦点边框颜色 */
+    focusBorderColor: string;
+    /** 提示区域背景颜色 */
+    hintBackground: string;
+    /** 链接颜色 */
+    linkColor: string;
+    /** 选中文本背景颜色 */
+    selectionColor: string;
+}
 
 /**
  * 主题处理工具类
  *
  * 功能：
- * 1. 判断当前是否为暗色主题
- * 2. 获取当前主题的CSS变量
- * 3. 监听主题变化
+ * 1. 获取引用VS Code主题CSS变量的颜色
+ * 2. 生成高对比度主题下的控件样式
  */
 export class ThemeUtils {
-    /**
-     * 判断当前是否为暗色主题
-     *
-     * 功能：
-     * 检查VS Code当前激活的主题是否为暗色主题
-     *
-     * @returns 是否为暗色主题
-     */
-    static isDarkTheme(): boolean {
-        return vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
-    }
-
     /**
      * 获取当前主题的CSS变量
      *
      * 功能：
-     * 根据当前主题（亮色/暗色）返回对应的颜色变量
+     * 返回引用VS Code主题CSS变量的颜色，部分主题没有定义的变量会回退到相近的变量
+     * 高对比度主题定义了contrastBorder，边框优先使用该颜色，其他主题中该变量不存在
      *
      * @returns 包含主题颜色的对象
      */
-    static getThemeColors(): {
-        /** 背景颜色 */
-        backgroundColor: string;
-        /** 文本颜色 */
-        textColor: string;
-        /** 边框颜色 */
-        borderColor: string;
-        /** 静音颜色（用于次要文本） */
-        mutedColor: string;
-    } {
-        const isDark = this.isDarkTheme();
-
-        if (isDark) {
-            return {
-                backgroundColor: '#1e1e1e',
-                textColor: '#d4d4d4',
-                borderColor: '#333',
-                mutedColor: '#999'
-            };
-        } else {
-            return {
-                backgroundColor: '#f5f5f5',
-                textColor: '#333',
-                borderColor: '#f0f0f0',
-                mutedColor: '#666'
-            };
-        }
+    static getThemeColors(): ThemeColors {
+        return {
+            backgroundColor: 'var(--vscode-editor-background)',
+            textColor: 'var(--vscode-editor-foreground)',
+            borderColor: 'var(--vscode-contrastBorder, var(--vscode-panel-border, var(--vscode-widget-border, transparent)))',
+            mutedColor: 'var(--vscode-descriptionForeground)',
+            surfaceColor: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+            shadowColor: 'var(--vscode-widget-shadow, transparent)',
+            buttonBackground: 'var(--vscode-button-secondaryBackground, var(--vscode-button-background))',
+            buttonForeground: 'var(--vscode-button-secondaryForeground, var(--vscode-button-foreground))',
+            buttonHoverBackground: 'var(--vscode-button-secondaryHoverBackground, var(--vscode-button-hoverBackground))',
+            inputBackground: 'var(--vscode-input-background)',
+            inputForeground: 'var(--vscode-input-foreground)',
+            focusBorderColor: 'var(--vscode-focusBorder)',
+            hintBackground: 'var(--vscode-textBlockQuote-background, var(--vscode-editorWidget-background))',
+            linkColor: 'var(--vscode-textLink-foreground)',
+            selectionColor: 'var(--vscode-editor-selectionBackground)'
+        };
     }
 
     /**
-     * 监听主题变化
+     * 生成高对比度主题下的控件样式
      *
      * 功能：
-     * 注册一个回调函数，当VS Code主题变化时触发
+     * 高对比度主题依靠轮廓线区分控件状态，为控件的悬停和焦点状态添加对比边框
+     * 样式通过body上的主题类名生效，主题切换时无需重新生成WebView
      *
-     * @param callback 主题变化时的回调函数
-     * @returns 可用于取消监听的Disposable对象
+     * @param selector 控件的CSS选择器
+     * @returns CSS规则
      */
-    static onThemeChange(callback: () => void): vscode.Disposable {
-        return vscode.window.onDidChangeActiveColorTheme(callback);
+    static getHighContrastCss(selector: string): string {
+        const states = [':hover', ':focus-visible'];
+        const selectors = ['body.vscode-high-contrast', 'body.vscode-high-contrast-light']
+            .flatMap(body => selector.split(',').flatMap(item => states.map(state => `${body} ${item.trim()}${state}`)));
+        return `${selectors.join(', ')} {
+            outline: 1px dashed var(--vscode-contrastActiveBorder, var(--vscode-focusBorder));
+            outline-offset: -1px;
+        }`;
     }
-}
\ No newline at end of file
+}
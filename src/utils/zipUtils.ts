@@ -0,0 +1,161 @@
+/**
+ * utils/zipUtils.ts
+ * ZIP压缩包读取工具类
+ *
+ * 功能说明：
+ * 1. 解析ZIP中央目录 - 列出压缩包内的所有文件条目
+ * 2. 解压单个条目 - 支持存储（无压缩）和Deflate两种压缩方式
+ *
+ * 核心概念：
+ * - 中央目录（Central Directory）：位于ZIP文件末尾，记录所有条目的名称、大小和偏移
+ * - 本地文件头（Local File Header）：位于每个条目数据之前，包含条目的基本信息
+ * - EOCD（End Of Central Directory）：ZIP文件最后的记录，指向中央目录的位置
+ *
+ * 使用场景：
+ * - EPUB读取：EPUB本质上是一个ZIP压缩包，需要从中读取OPF、XHTML和图片
+ *
+ * 技术原理：
+ * - 从文件末尾向前查找EOCD签名，定位中央目录
+ * - 遍历中央目录获取条目信息，再通过本地文件头定位实际数据
+ * - 使用Node.js内置的zlib.inflateRawSync解压Deflate数据，无需额外依赖
+ * - 解压输出不超过中央目录中声明的大小，防止压缩炸弹耗尽内存
+ */
+import * as zlib from 'zlib';
+
+/**
+ * ZIP条目接口
+ */
+export interface ZipEntry {
+    /** 条目名称（包含目录路径） */
+    name: string;
+    /** 压缩方式：0表示存储，8表示Deflate */
+    method: number;
+    /** 压缩后大小 */
+    compressedSize: number;
+    /** 解压后大小 */
+    uncompressedSize: number;
+    /** 本地文件头偏移 */
+    localHeaderOffset: number;
+}
+
+/**
+ * ZIP压缩包读取工具类
+ *
+ * 功能：
+ * 1. 读取ZIP中央目录
+ * 2. 解压指定条目
+ */
+export class ZipUtils {
+    /** EOCD记录签名 */
+    private static readonly EOCD_SIGNATURE = 0x06054b50;
+    /** 中央目录条目签名 */
+    private static readonly CENTRAL_SIGNATURE = 0x02014b50;
+    /** 本地文件头签名 */
+    private static readonly LOCAL_SIGNATURE = 0x04034b50;
+
+    /**
+     * 读取ZIP中的所有条目
+     *
+     * 功能：
+     * 定位并解析中央目录，返回以条目名称为键的映射
+     *
+     * @param buffer ZIP文件内容
+     * @returns 条目名称到条目信息的映射
+     * @throws 当文件不是有效的ZIP压缩包时抛出错误
+     */
+    static readEntries(buffer: Buffer): Map<string, ZipEntry> {
+        const eocdOffset = this.findEndOfCentralDirectory(buffer);
+        if (eocdOffset < 0) {
+            throw new Error('Invalid ZIP archive: end of central directory not found');
+        }
+
+        const entryCount = buffer.readUInt16LE(eocdOffset + 10);
+        let offset = buffer.readUInt32LE(eocdOffset + 16);
+        const entries = new Map<string, ZipEntry>();
+
+        for (let i = 0; i < entryCount; i++) {
+            if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== this.CENTRAL_SIGNATURE) {
+                throw new Error('Invalid ZIP archive: corrupted central directory');
+            }
+
+            const nameLength = buffer.readUInt16LE(offset + 28);
+            const extraLength = buffer.readUInt16LE(offset + 30);
+            const commentLength = buffer.readUInt16LE(offset + 32);
+            const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+            entries.set(name, {
+                name: name,
+                method: buffer.readUInt16LE(offset + 10),
+                compressedSize: buffer.readUInt32LE(offset + 20),
+                uncompressedSize: buffer.readUInt32LE(offset + 24),
+                localHeaderOffset: buffer.readUInt32LE(offset + 42)
+            });
+
+            offset += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return entries;
+    }
+
+    /**
+     * 解压指定条目
+     *
+     * 功能：
+     * 声明的解压后大小超过上限的条目直接拒绝；
+     * Deflate数据的解压输出限制为声明的大小，实际数据更大时视为数据损坏
+     *
+     * @param buffer ZIP文件内容
+     * @param entry 要解压的条目
+     * @param maxSize 允许的最大解压后大小（字节）
+     * @returns 解压后的数据
+     * @throws 当条目过大、压缩方式不受支持或数据损坏时抛出错误
+     */
+    static extract(buffer: Buffer, entry: ZipEntry, maxSize: number): Buffer {
+        if (entry.uncompressedSize > maxSize) {
+            throw new Error(`ZIP entry too large (max ${maxSize / 1024 / 1024}MB): ${entry.name}`);
+        }
+
+        const offset = entry.localHeaderOffset;
+        if (buffer.readUInt32LE(offset) !== this.LOCAL_SIGNATURE) {
+            throw new Error(`Invalid ZIP entry: ${entry.name}`);
+        }
+
+        const nameLength = buffer.readUInt16LE(offset + 26);
+        const extraLength = buffer.readUInt16LE(offset + 28);
+        const dataStart = offset + 30 + nameLength + extraLength;
+        const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+        switch (entry.method) {
+            case 0:
+                return Buffer.from(data);
+            case 8:
+                try {
+                    // maxOutputLength至少为1，声明大小为0的空条目同样可以解压
+                    return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+                } catch (error) {
+                    throw new Error(`Invalid ZIP entry: ${entry.name} (${(error as Error).message})`);
+                }
+            default:
+                throw new Error(`Unsupported ZIP compression method ${entry.method}: ${entry.name}`);
+        }
+    }
+
+    /**
+     * 查找EOCD记录
+     *
+     * 功能：
+     * EOCD位于文件末尾，后面可能跟随最长65535字节的注释，因此需要从后向前搜索签名
+     *
+     * @param buffer ZIP文件内容
+     * @returns EOCD记录的偏移，未找到时返回-1
+     */
+    private static findEndOfCentralDirectory(buffer: Buffer): number {
+        const minOffset = Math.max(0, buffer.length - 22 - 0xFFFF);
+        for (let i = buffer.length - 22; i >= minOffset; i--) {
+            if (buffer.readUInt32LE(i) === this.EOCD_SIGNATURE) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
\ No newline at end of file